@@ -1,123 +1,535 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import './App.css';
+import {
+  DripSettings,
+  DrawingTool,
+  GeoControlPoint,
+  HeadType,
+  Layer,
+  LayerId,
+  Measurement,
+  Pipe,
+  PipeKind,
+  PipeMaterial,
+  PlanDocument,
+  PlantCategory,
+  Point,
+  Ruler,
+  ScaleReference,
+  ScheduleSettings,
+  Shape,
+  ShapeMode,
+  SoilType,
+  SprinklerHead,
+  SunExposure,
+  ValveZone,
+  WaterSupply,
+} from './types';
+import {
+  HEAD_DEFAULTS,
+  HEAD_LABELS,
+  NOZZLE_CATALOG,
+  calculateRegionCoverage,
+  drawHead,
+  isPointNearHead,
+} from './heads';
+import { calculatePixelArea, calculatePixelDistance, isPointInShape } from './geometry';
+import { createId } from './utils';
+import { LayoutPattern, suggestHeadLayout } from './layout';
+import { checkReference, convertLength, fitPlanScale, getStraighteningMap } from './calibration';
+import { applyAffine, fitAffineToImage, keepPlanGeometry, transformImage, transformPlanGeometry } from './transform';
+import { applyHomography, getRectification, isInFrontOfHorizon, warpImage } from './perspective';
+import { AREA_UNITS, Quantity, UNIT_SYSTEM_LABELS, UNIT_SYSTEM_UNITS, UnitSystem, convertQuantity } from './units';
+import {
+  MEASUREMENT_COLOR,
+  calculatePathPixelLength,
+  drawMeasurement,
+  formatMeasurementLabel,
+  getMeasurementLength,
+  isPointNearMeasurement,
+} from './measurements';
+import { PLANT_LABELS, SOIL_LABELS, SUN_LABELS, ZONE_TYPE_LABELS, describeZone, findZoneAt, getZoneName } from './zones';
+import { calculateZoneRegions, isPointInRegion } from './regions';
+import { Snap, extendTowards, lockAngle, snapToPaths } from './snapping';
+import {
+  createOutlineShape,
+  fitQuadraticControl,
+  flattenEdges,
+  flattenOutline,
+  getEllipseOutline,
+  getRectanglePoints,
+  getSquareCorner,
+  traceOutline,
+} from './curves';
+import {
+  ViewTransform,
+  centerOn,
+  fitView,
+  getVisibleRect,
+  panBy,
+  pinchView,
+  toPlanPoint,
+  toScreenPoint,
+  zoomAt,
+} from './view';
+import { PRECIPITATION_UNITS, calculateZonePrecipitation, estimateHeadFlow, getHeatmapColor } from './precipitation';
+import {
+  EMITTER_FLOW_UNITS,
+  FLOW_UNITS,
+  PRESSURE_UNITS,
+  calculateValveFlow,
+  claimValveHeads,
+  createValveZone,
+  getValveShapes,
+  removeValveHeads,
+  removeValveShapes,
+  toggleValveHead,
+} from './hydraulics';
+import { calculateBomTotal, generateBillOfMaterials, toBomCsv } from './bom';
+import { downloadFile } from './download';
+import { PrintSheet, createPlanPdf, renderPlanPng, renderPlanSvg } from './print';
+import { binaryToBytes, dataUrlToBinary } from './pdf';
+import {
+  GeoJsonError,
+  fitGeoreference,
+  geoPolygonsToShapes,
+  getGeoResiduals,
+  getMetersPerPixel,
+  getNorthAngle,
+  parseGeoJson,
+  toGeoJson,
+  toKml,
+} from './geo';
+import { createShareLink, isShareLink, readShareLink, renderShareImage } from './share';
+import {
+  LAYER_LABELS,
+  getEditableLayerIds,
+  getEditableShapeIndices,
+  getLayerLockMessage,
+  getShapeLayer,
+  getToolLayer,
+  isLayerEditable,
+  isLayerVisible,
+  moveLayer,
+  updateLayer,
+} from './layers';
+import { DxfDrawing, DxfError, DxfLayerType, getDxfShapes, guessLayerType, parseDxf, toDxf } from './dxf';
+import {
+  VertexRef,
+  findEdgeAt,
+  findVertexAt,
+  getEditableVertices,
+  insertVertex,
+  moveVertex,
+  removeVertex,
+} from './editing';
+import {
+  PLAN_FILE_EXTENSION,
+  PLAN_VERSION,
+  PlanFileError,
+  createEmptyPlan,
+  isSamePlan,
+  parsePlanFile,
+  toPlanFile,
+} from './plan';
+import {
+  ProjectData,
+  ProjectSummary,
+  clearLegacyPlan,
+  createProject,
+  createProjectSummary,
+  deleteProject,
+  listProjects,
+  loadProject,
+  readLegacyPlan,
+  renameProject,
+  renderThumbnail,
+  saveProject,
+} from './projects';
+import { EMPTY_HISTORY, History, PlanSnapshot, isSameSnapshot, recordHistory, redoHistory, undoHistory } from './history';
+import {
+  DAY_NAMES,
+  DEPTH_UNITS,
+  formatTime,
+  generateSchedule,
+  planWateringDay,
+  toScheduleIcs,
+  toScheduleJson,
+} from './schedule';
+import {
+  PIPE_KIND_LABELS,
+  PIPE_MATERIALS,
+  analyzePipe,
+  calculateFrictionLoss,
+  calculatePipeLength,
+  drawPipe,
+  isPointNearPipe,
+} from './pipes';
 
-interface Point {
-  x: number;
-  y: number;
-}
+const CALCULATION_GRID_SIZE = 2;
+const SNAP_THRESHOLD = 10;
 
-interface Shape {
-  points: Point[];
-  area: number;
-  type: 'regular' | 'exclusion' | 'drip' | 'delete';
-}
+// Tools that act on a single click instead of drawing a path.
+const POINT_TOOLS: DrawingTool[] = ['head', 'valve', 'select', 'pan', 'rectify', 'georeference'];
 
-interface Ruler {
-  start: Point;
-  end: Point;
-  length: number;
-  unit: 'ft' | 'm';
-}
+// Tools whose points snap onto existing shapes and lock angles with Shift.
+const SNAP_TOOLS: DrawingTool[] = ['regular', 'exclusion', 'drip', 'ruler', 'pipe', 'measure'];
 
-interface Region {
-  points: Point[];
-  type: 'regular' | 'exclusion' | 'drip';
-}
+const ZONE_TOOLS: DrawingTool[] = ['regular', 'exclusion', 'drip'];
 
-type DrawingTool = 'regular' | 'exclusion' | 'drip' | 'ruler' | 'delete';
+const SHAPE_MODES: Record<ShapeMode, { label: string; hint: string }> = {
+  polygon: { label: 'Polygon', hint: 'Drag out each edge; release on the first point to close the zone.' },
+  rectangle: { label: 'Rectangle', hint: 'Drag from corner to corner; hold Shift for a square.' },
+  ellipse: { label: 'Ellipse', hint: 'Drag across the bounding box; hold Shift for a circle.' },
+  curve: {
+    label: 'Curved Edges',
+    hint: 'Trace each edge as you drag it out to bend it; release on the first point to close the zone.',
+  },
+};
 
-const GRID_SIZE = 4;
-const CALCULATION_GRID_SIZE = 2;
-const SNAP_THRESHOLD = 10;
+const VERTEX_HANDLE_SIZE = 8;
+
+// Scale errors and stretches below this fraction are not worth flagging.
+const STRAIGHTEN_THRESHOLD = 0.005;
+
+// Zoom factor per pixel of wheel scroll, and per zoom button press.
+const WHEEL_ZOOM_SPEED = 0.0015;
+const ZOOM_STEP = 1.25;
+
+const MINIMAP_WIDTH = 160;
+
+// Milliseconds to wait after the last edit before saving the project.
+const SAVE_DELAY = 500;
+
+// Decimal places, as a power of ten, that settings converted to the display
+// unit are shown to.
+const INPUT_PRECISION = 1e4;
+
+const EMPTY_PLAN = createEmptyPlan();
 
 const SHAPE_COLORS = {
   regular: { fill: 'rgba(46, 204, 113, 0.2)', stroke: '#2ecc71' },
   exclusion: { fill: 'rgba(231, 76, 60, 0.2)', stroke: '#e74c3c' },
   drip: { fill: 'rgba(155, 89, 182, 0.2)', stroke: '#9b59b6' },
   ruler: { fill: 'transparent', stroke: '#f1c40f' },
+  rectify: { fill: 'rgba(243, 156, 18, 0.15)', stroke: '#f39c12' },
+  measure: { fill: 'transparent', stroke: MEASUREMENT_COLOR },
+  georeference: { fill: 'transparent', stroke: '#d35400' },
+  head: { fill: 'transparent', stroke: '#2980b9' },
+  valve: { fill: 'transparent', stroke: '#e67e22' },
+  pipe: { fill: 'transparent', stroke: '#34495e' },
+  select: { fill: 'white', stroke: '#3498db' },
+  pan: { fill: 'transparent', stroke: '#3498db' },
   delete: { fill: 'transparent', stroke: '#e74c3c' },
   hover: { fill: 'transparent', stroke: '#3498db' },
 } as const;
 
 function App() {
-  const [image, setImage] = useState<string | null>(() => localStorage.getItem('irrigationImage'));
+  const [image, setImage] = useState<string | null>(EMPTY_PLAN.image);
+  const [planUnit, setPlanUnit] = useState<Ruler['unit']>(EMPTY_PLAN.unit);
   const [hoveredRegionIndex, setHoveredRegionIndex] = useState<number | null>(null);
   const [hoverPosition, setHoverPosition] = useState<Point | null>(null);
-  const [dimensions, setDimensions] = useState<{ width: number; height: number } | null>(() => {
-    const savedDimensions = localStorage.getItem('irrigationDimensions');
-    return savedDimensions ? JSON.parse(savedDimensions) : null;
-  });
-  const [canvasScale, setCanvasScale] = useState<number>(1);
+  const [dimensions, setDimensions] = useState<{ width: number; height: number } | null>(EMPTY_PLAN.dimensions);
+  const [view, setView] = useState<ViewTransform>({ scale: 1, x: 0, y: 0 });
+  const [panStart, setPanStart] = useState<{ screen: Point; view: ViewTransform } | null>(null);
+  const [pinchStart, setPinchStart] = useState<{ touches: [Point, Point]; view: ViewTransform } | null>(null);
   const [containerSize, setContainerSize] = useState<{ width: number; height: number }>({ width: 0, height: 0 });
   const containerRef = useRef<HTMLDivElement>(null);
   const [startPoint, setStartPoint] = useState<Point | null>(null);
   const [currentPath, setCurrentPath] = useState<Point[]>([]);
-  const [shapes, setShapes] = useState<Shape[]>(() => {
-    const savedShapes = localStorage.getItem('irrigationShapes');
-    return savedShapes ? JSON.parse(savedShapes) : [];
-  });
+  const [shapes, setShapes] = useState<Shape[]>(EMPTY_PLAN.shapes);
   const [currentShape, setCurrentShape] = useState<Point[]>([]);
+  // Control points of the curved edges of the shape being drawn, by edge.
+  const [currentControls, setCurrentControls] = useState<(Point | null)[]>([]);
+  // Pointer positions of the edge being dragged out, which its bend is fitted to.
+  const [dragTrail, setDragTrail] = useState<Point[]>([]);
+  const [shapeMode, setShapeMode] = useState<ShapeMode>('polygon');
+  const [selectedShapeIndex, setSelectedShapeIndex] = useState<number | null>(null);
+  const [draggedVertex, setDraggedVertex] = useState<(VertexRef & { point: Point }) | null>(null);
+  const [snapTarget, setSnapTarget] = useState<Snap | null>(null);
+  const [cursorPoint, setCursorPoint] = useState<Point | null>(null);
+  const [segmentLength, setSegmentLength] = useState<string>('');
   const [selectedTool, setSelectedTool] = useState<DrawingTool>('regular');
-  const [ruler, setRuler] = useState<Ruler | null>(() => {
-    const savedRuler = localStorage.getItem('irrigationRuler');
-    return savedRuler ? JSON.parse(savedRuler) : null;
-  });
-  const [pixelRatio, setPixelRatio] = useState<number | null>(() => {
-    const savedRatio = localStorage.getItem('irrigationPixelRatio');
-    return savedRatio ? parseFloat(savedRatio) : null;
-  });
+  const [ruler, setRuler] = useState<Ruler | null>(EMPTY_PLAN.ruler);
+  const [scaleReferences, setScaleReferences] = useState<ScaleReference[]>(EMPTY_PLAN.scaleReferences);
+  // A line drawn with the ruler tool, waiting for its length.
+  const [pendingRuler, setPendingRuler] = useState<Pick<Ruler, 'start' | 'end'> | null>(null);
+  const [rulerUse, setRulerUse] = useState<'scale' | 'reference' | 'verify'>('scale');
+  const [pixelRatio, setPixelRatio] = useState<number | null>(EMPTY_PLAN.pixelRatio);
   const [showRulerPrompt, setShowRulerPrompt] = useState(false);
   const [rulerLength, setRulerLength] = useState<string>('');
   const [rulerUnit, setRulerUnit] = useState<'ft' | 'm'>('ft');
+  // Corners of a known rectangle marked for perspective correction, and its size.
+  const [rectifyCorners, setRectifyCorners] = useState<Point[]>([]);
+  const [rectifyWidth, setRectifyWidth] = useState<string>('');
+  const [rectifyHeight, setRectifyHeight] = useState<string>('');
   const [showHover, setShowHover] = useState(false);
+  const [showPrecipitation, setShowPrecipitation] = useState(false);
+  const [heads, setHeads] = useState<SprinklerHead[]>(EMPTY_PLAN.heads);
+  // Units everything is shown in, kept across projects.
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(() =>
+    localStorage.getItem('irrigationUnitSystem') === 'metric' ? 'metric' : 'imperial'
+  );
+  const [headType, setHeadType] = useState<HeadType>('spray');
+  // Head settings are typed in the display unit.
+  const [headRadius, setHeadRadius] = useState<string>(() =>
+    String(HEAD_DEFAULTS.spray.radius[UNIT_SYSTEM_UNITS[unitSystem]])
+  );
+  const [headArc, setHeadArc] = useState<string>(String(HEAD_DEFAULTS.spray.arc));
+  const [headRotation, setHeadRotation] = useState<string>('0');
+  const [headFlow, setHeadFlow] = useState<string>('');
+  const [autoPlaceZone, setAutoPlaceZone] = useState<string>('');
+  const [autoPlaceNozzleId, setAutoPlaceNozzleId] = useState<string>(NOZZLE_CATALOG[0].id);
+  const [autoPlacePattern, setAutoPlacePattern] = useState<LayoutPattern>('triangular');
+  const [valveZones, setValveZones] = useState<ValveZone[]>(EMPTY_PLAN.valveZones);
+  const [activeValveId, setActiveValveId] = useState<string | null>(null);
+  const [valveSeed, setValveSeed] = useState<string>('');
+  const [supply, setSupply] = useState<WaterSupply>(EMPTY_PLAN.supply);
+  const [drip, setDrip] = useState<DripSettings>(EMPTY_PLAN.drip);
+  const [pipes, setPipes] = useState<Pipe[]>(EMPTY_PLAN.pipes);
+  const [currentPipe, setCurrentPipe] = useState<Point[]>([]);
+  const [measurements, setMeasurements] = useState<Measurement[]>(EMPTY_PLAN.measurements);
+  const [geoPoints, setGeoPoints] = useState<GeoControlPoint[]>(EMPTY_PLAN.geoPoints);
+  const [geoLatitude, setGeoLatitude] = useState<string>('');
+  const [geoLongitude, setGeoLongitude] = useState<string>('');
+  const [geoImportType, setGeoImportType] = useState<'regular' | 'exclusion'>('exclusion');
+  const [currentMeasurement, setCurrentMeasurement] = useState<Point[]>([]);
+  const [measurementLabel, setMeasurementLabel] = useState<string>('');
+  const [layers, setLayers] = useState<Layer[]>(EMPTY_PLAN.layers);
+  const [pipeKind, setPipeKind] = useState<PipeKind>('lateral');
+  const [pipeMaterial, setPipeMaterial] = useState<PipeMaterial>('pvc-40');
+  const [pipeSize, setPipeSize] = useState<string>('3/4');
+  const [unitPrices, setUnitPrices] = useState<Record<string, number>>(EMPTY_PLAN.unitPrices);
+  const [scheduleSettings, setScheduleSettings] = useState<ScheduleSettings>(EMPTY_PLAN.schedule);
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const [planFileError, setPlanFileError] = useState<string | null>(null);
+  // Opened from a share link: the plan is shown read-only and not saved.
+  const [viewerMode, setViewerMode] = useState(false);
+  const [shareIncludesImage, setShareIncludesImage] = useState(true);
+  const [shareLink, setShareLink] = useState<{ url: string; copied: boolean } | null>(null);
+  // A DXF file waiting for its layers to be mapped to zone types.
+  const [dxfImport, setDxfImport] = useState<{
+    fileName: string;
+    drawing: DxfDrawing;
+    layerTypes: Record<string, DxfLayerType>;
+  } | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-
-  useEffect(() => {
-    localStorage.setItem('irrigationShapes', JSON.stringify(shapes));
-  }, [shapes]);
-
+  const minimapRef = useRef<HTMLCanvasElement>(null);
+  const spaceHeldRef = useRef(false);
+  // The project as last loaded or saved, so unchanged plans aren't written
+  // again.
+  const savedProjectRef = useRef<ProjectData | null>(null);
+  const libraryOpenedRef = useRef(false);
+  // The last committed plan, and whether the next change is an undo or redo
+  // rather than a new edit.
+  const committedPlanRef = useRef<PlanSnapshot>({ shapes, ruler, scaleReferences, pixelRatio, heads, pipes, valveZones, measurements, geoPoints });
+  const restoringRef = useRef(false);
+  // The field the next change edits, and the one the last change edited, so
+  // typing into a name makes one undo step rather than one per keystroke.
+  const pendingEditRef = useRef<string | null>(null);
+  const lastEditRef = useRef<string | null>(null);
+
+  // Every plan change becomes an undo step, except that consecutive edits to
+  // the same field share one.
   useEffect(() => {
-    if (ruler) {
-      localStorage.setItem('irrigationRuler', JSON.stringify(ruler));
+    const current = { shapes, ruler, scaleReferences, pixelRatio, heads, pipes, valveZones, measurements, geoPoints };
+    const restoring = restoringRef.current;
+    const edit = pendingEditRef.current;
+    restoringRef.current = false;
+    pendingEditRef.current = null;
+    if (isSameSnapshot(current, committedPlanRef.current)) return;
+
+    // Undo and redo manage the history themselves.
+    if (!restoring && (edit === null || edit !== lastEditRef.current)) {
+      const previous = committedPlanRef.current;
+      setHistory(prev => recordHistory(prev, previous));
     }
-  }, [ruler]);
+    lastEditRef.current = restoring ? null : edit;
+    committedPlanRef.current = current;
+  }, [shapes, ruler, scaleReferences, pixelRatio, heads, pipes, valveZones, measurements, geoPoints]);
 
   useEffect(() => {
-    if (pixelRatio) {
-      localStorage.setItem('irrigationPixelRatio', pixelRatio.toString());
-    }
-  }, [pixelRatio]);
+    if (!activeProjectId) return;
+
+    const plan: PlanDocument = {
+      version: PLAN_VERSION,
+      unit: planUnit,
+      image,
+      dimensions,
+      shapes,
+      ruler,
+      scaleReferences,
+      pixelRatio,
+      heads,
+      pipes,
+      valveZones,
+      measurements,
+      geoPoints,
+      layers,
+      supply,
+      drip,
+      unitPrices,
+      schedule: scheduleSettings,
+    };
+    const saved = savedProjectRef.current;
+    if (saved && isSamePlan(plan, saved.plan) && history === saved.history) return;
+
+    const timeout = window.setTimeout(async () => {
+      savedProjectRef.current = { plan, history };
+      try {
+        const summary = await saveProject(activeProjectId, { plan, history }, SHAPE_COLORS);
+        if (summary) setProjects(prev => prev.map(project => (project.id === summary.id ? summary : project)));
+      } catch {
+        // Left unsaved so the next edit tries again.
+        if (savedProjectRef.current?.plan === plan) savedProjectRef.current = saved;
+        setPlanFileError('Could not save this plan in the browser. Save it to a file to keep your changes.');
+      }
+    }, SAVE_DELAY);
+    return () => window.clearTimeout(timeout);
+  }, [
+    activeProjectId,
+    planUnit,
+    image,
+    dimensions,
+    shapes,
+    ruler,
+    scaleReferences,
+    pixelRatio,
+    heads,
+    pipes,
+    valveZones,
+    measurements,
+    geoPoints,
+    layers,
+    supply,
+    drip,
+    unitPrices,
+    scheduleSettings,
+    history,
+  ]);
+
+  // Opens the project library once, moving a plan saved by earlier versions
+  // of the planner into it.
+  useEffect(() => {
+    if (libraryOpenedRef.current) return;
+    libraryOpenedRef.current = true;
+
+    const openLibrary = async () => {
+      if (isShareLink(window.location.hash)) {
+        try {
+          const plan = await readShareLink(window.location.hash);
+          setViewerMode(true);
+          setSelectedTool('pan');
+          applyProject(null, { plan, history: EMPTY_HISTORY });
+          return;
+        } catch (error) {
+          setPlanFileError(
+            error instanceof PlanFileError ? `Could not open the shared plan: ${error.message}` : 'Could not open the shared plan.'
+          );
+        }
+      }
+
+      try {
+        const legacy = readLegacyPlan(localStorage);
+        if (legacy) {
+          await createProject(createProjectSummary('My Plan'), legacy);
+          clearLegacyPlan(localStorage);
+        }
+      } catch (error) {
+        setPlanFileError(error instanceof PlanFileError ? error.message : 'Could not move the saved plan into the library.');
+      }
+
+      try {
+        let summaries = await listProjects();
+        if (summaries.length === 0) {
+          const summary = createProjectSummary('Untitled Plan');
+          await createProject(summary, { plan: createEmptyPlan(UNIT_SYSTEM_UNITS[unitSystem]), history: EMPTY_HISTORY });
+          summaries = [summary];
+        }
+        setProjects(summaries);
+
+        const savedId = localStorage.getItem('irrigationActiveProject');
+        const active = summaries.find(project => project.id === savedId) ?? summaries[0];
+        applyProject(active.id, await loadProject(active.id));
+      } catch {
+        setPlanFileError('Could not open the project library. Plans will not be saved in this browser.');
+      }
+    };
+    openLibrary();
+  });
 
+  // Following a share link from inside the planner only changes the fragment.
   useEffect(() => {
-    if (image) {
-      localStorage.setItem('irrigationImage', image);
-    }
-    if (dimensions) {
-      localStorage.setItem('irrigationDimensions', JSON.stringify(dimensions));
-    }
-  }, [image, dimensions]);
+    const handleHashChange = () => {
+      if (isShareLink(window.location.hash)) window.location.reload();
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
 
   useEffect(() => {
     const handleResize = () => {
       if (containerRef.current) {
         const { width, height } = containerRef.current.getBoundingClientRect();
         setContainerSize({ width, height });
-        
-        if (dimensions) {
-          const scaleX = width / dimensions.width;
-          const scaleY = height / dimensions.height;
-          setCanvasScale(Math.min(scaleX, scaleY));
-        }
+        return { width, height };
       }
+      return null;
     };
 
-    handleResize();
+    // A new image starts fitted; resizing the window keeps the current view.
+    const container = handleResize();
+    if (container && dimensions) setView(fitView(dimensions, container));
     window.addEventListener('resize', handleResize);
     return () => window.removeEventListener('resize', handleResize);
   }, [dimensions]);
 
+  // Registered natively because React's wheel listener is passive and can't
+  // stop the page from scrolling.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const screen = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      setView(prev => zoomAt(prev, screen, Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED)));
+    };
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [image, dimensions]);
+
+  useEffect(() => {
+    // Only when nothing is focused, so Space still presses buttons.
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Space' && e.target === document.body) {
+        e.preventDefault();
+        spaceHeldRef.current = true;
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') spaceHeldRef.current = false;
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, []);
+
   const getShapeColor = (type: DrawingTool) => SHAPE_COLORS[type];
 
+  // SNAP_THRESHOLD in plan pixels at the current zoom.
+  const snapThreshold = SNAP_THRESHOLD / view.scale;
+
+  const minimapScale = dimensions ? MINIMAP_WIDTH / dimensions.width : 1;
+
   const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -128,6 +540,7 @@ function App() {
           const imageData = e.target?.result as string;
           setImage(imageData);
           setDimensions({ width: img.width, height: img.height });
+          setRectifyCorners([]);
         };
         img.src = e.target?.result as string;
       };
@@ -135,146 +548,209 @@ function App() {
     }
   };
 
-  const calculatePixelArea = (points: Point[]): number => {
-    let area = 0;
-    for (let i = 0; i < points.length; i++) {
-      const j = (i + 1) % points.length;
-      area += points[i].x * points[j].y;
-      area -= points[j].x * points[i].y;
-    }
-    return Math.abs(area) / 2;
-  };
-
   const isNearStartPoint = (point: Point, startPoint: Point): boolean => {
     const dx = point.x - startPoint.x;
     const dy = point.y - startPoint.y;
-    return Math.sqrt(dx * dx + dy * dy) < SNAP_THRESHOLD;
+    return Math.sqrt(dx * dx + dy * dy) < snapThreshold;
   };
 
-  const calculatePixelDistance = (p1: Point, p2: Point): number => {
-    const dx = p2.x - p1.x;
-    const dy = p2.y - p1.y;
-    return Math.sqrt(dx * dx + dy * dy);
+  const calculateTotalArea = (type: 'regular' | 'exclusion' | 'drip'): number => {
+    const regionsOfType = zoneRegions.filter(region => region.type === type);
+    return regionsOfType.reduce((total, region) => total + region.area, 0);
   };
 
-  const isPointInShape = (point: Point, shape: Point[]): boolean => {
-    let inside = false;
-    for (let i = 0, j = shape.length - 1; i < shape.length; j = i++) {
-      const xi = shape[i].x,
-        yi = shape[i].y;
-      const xj = shape[j].x,
-        yj = shape[j].y;
+  const { regions: zoneRegions, skippedShapes } = useMemo(
+    () => calculateZoneRegions(shapes, CALCULATION_GRID_SIZE),
+    [shapes]
+  );
 
-      if (((yi > point.y) !== (yj > point.y)) && point.x < ((xj - xi) * (point.y - yi)) / (yj - yi) + xi) {
-        inside = !inside;
-      }
-    }
-    return inside;
-  };
+  const scaleFit = useMemo(
+    () => (ruler ? fitPlanScale(ruler, scaleReferences, planUnit) : null),
+    [ruler, scaleReferences, planUnit]
+  );
 
-  const calculateZoneRegions = (): Region[] => {
-    const regularShapes = shapes.filter(shape => shape.type === 'regular');
-    const exclusionShapes = shapes.filter(shape => shape.type === 'exclusion');
-    const dripShapes = shapes.filter(shape => shape.type === 'drip');
-    const visited: Set<string> = new Set();
-    const regions: Region[] = [];
+  const georeference = useMemo(() => fitGeoreference(geoPoints), [geoPoints]);
 
-    if (!dimensions) return [];
+  // Plan quantities are kept in the plan's own unit, set when it was created,
+  // and converted for display.
+  const displayUnit = UNIT_SYSTEM_UNITS[unitSystem];
 
-    const getKey = (x: number, y: number) => `${x},${y}`;
+  const toDisplayUnit = (value: number, quantity: Quantity): number =>
+    convertQuantity(value, quantity, planUnit, displayUnit);
 
-    const getZoneTypeAtPoint = (point: Point): 'regular' | 'exclusion' | 'drip' | null => {
-      if (exclusionShapes.some(shape => isPointInShape(point, shape.points))) return 'exclusion';
-      if (dripShapes.some(shape => isPointInShape(point, shape.points))) return 'drip';
-      if (regularShapes.some(shape => isPointInShape(point, shape.points))) return 'regular';
-      return null;
+  const fromDisplayUnit = (value: number, quantity: Quantity): number =>
+    convertQuantity(value, quantity, displayUnit, planUnit);
+
+  // Settings are typed in the display unit too. Rounding keeps the converted
+  // value from showing floating point noise, or from rewriting what is typed.
+  const toDisplayInput = (value: number, quantity: Quantity): number =>
+    Math.round(toDisplayUnit(value, quantity) * INPUT_PRECISION) / INPUT_PRECISION;
+
+  const handleUnitSystemChange = (system: UnitSystem) => {
+    // Values typed into the tool settings follow the display unit.
+    const convertInput = (value: string, quantity: Quantity) => {
+      const parsed = parseFloat(value);
+      if (isNaN(parsed)) return value;
+      const converted = convertQuantity(parsed, quantity, displayUnit, UNIT_SYSTEM_UNITS[system]);
+      return String(Math.round(converted * INPUT_PRECISION) / INPUT_PRECISION);
     };
+    setHeadRadius(prev => convertInput(prev, 'length'));
+    setHeadFlow(prev => convertInput(prev, 'flow'));
+    setSegmentLength(prev => convertInput(prev, 'length'));
+    setUnitSystem(system);
+    localStorage.setItem('irrigationUnitSystem', system);
+  };
 
-    const floodFill = (startX: number, startY: number, type: 'regular' | 'exclusion' | 'drip'): Point[] => {
-      const region: Point[] = [];
-      const queue: Point[] = [{ x: startX, y: startY }];
-      const directions = [
-        { dx: 0, dy: -CALCULATION_GRID_SIZE },
-        { dx: 0, dy: CALCULATION_GRID_SIZE },
-        { dx: -CALCULATION_GRID_SIZE, dy: 0 },
-        { dx: CALCULATION_GRID_SIZE, dy: 0 },
-      ];
+  const formatArea = (pixelArea: number): string => {
+    if (!pixelRatio) return 'Set ruler first';
+    const realArea = pixelArea * (pixelRatio * pixelRatio);
+    return `${toDisplayUnit(realArea, 'area').toFixed(2)} ${AREA_UNITS[displayUnit]}`;
+  };
 
-      while (queue.length > 0) {
-        const { x, y } = queue.shift()!;
-        const key = getKey(x, y);
-
-        if (
-          visited.has(key) ||
-          x < 0 ||
-          x >= dimensions.width ||
-          y < 0 ||
-          y >= dimensions.height
-        ) {
-          continue;
-        }
+  const headCoverage = useMemo(
+    () =>
+      pixelRatio && heads.length > 0
+        ? zoneRegions.map(region => calculateRegionCoverage(region, heads, pixelRatio))
+        : [],
+    [zoneRegions, heads, pixelRatio]
+  );
 
-        const pointType = getZoneTypeAtPoint({ x, y });
-        if (pointType !== type) continue;
+  const formatCoverage = (coverage: number): string => `${(coverage * 100).toFixed(0)}% covered`;
 
-        visited.add(key);
-        region.push({ x, y });
+  const zonePrecipitation = useMemo(
+    () =>
+      pixelRatio && heads.length > 0
+        ? calculateZonePrecipitation(zoneRegions, heads, pixelRatio, planUnit)
+        : [],
+    [zoneRegions, heads, pixelRatio, planUnit]
+  );
 
-        for (const { dx, dy } of directions) {
-          queue.push({ x: x + dx, y: y + dy });
-        }
-      }
+  const formatPrecipitation = (rate: number): string =>
+    `${toDisplayUnit(rate, 'depth').toFixed(displayUnit === 'm' ? 1 : 2)} ${PRECIPITATION_UNITS[displayUnit]}`;
 
-      return region;
-    };
+  const valveFlows = useMemo(
+    () =>
+      pixelRatio
+        ? valveZones.map(valve => calculateValveFlow(valve, heads, shapes, pixelRatio, drip, planUnit))
+        : valveZones.map(() => 0),
+    [valveZones, heads, shapes, pixelRatio, drip, planUnit]
+  );
 
-    for (let x = 0; x < dimensions.width; x += CALCULATION_GRID_SIZE) {
-      for (let y = 0; y < dimensions.height; y += CALCULATION_GRID_SIZE) {
-        const key = getKey(x, y);
-        if (!visited.has(key)) {
-          const type = getZoneTypeAtPoint({ x, y });
-          if (type) {
-            const region = floodFill(x, y, type);
-            if (region.length > 0) {
-              regions.push({ points: region, type });
-            }
-          }
-        }
-      }
-    }
+  const formatFlow = (flow: number): string => `${toDisplayUnit(flow, 'flow').toFixed(1)} ${FLOW_UNITS[displayUnit]}`;
+
+  const pipeAnalyses = useMemo(() => {
+    if (!pixelRatio) return [];
+
+    // Only one valve runs at a time, so the mainline carries the largest valve flow.
+    const mainlineFlow = valveFlows.length > 0 ? Math.max(...valveFlows) : supply.availableFlow ?? 0;
+    const mainlineLoss = pipes
+      .filter(pipe => pipe.kind === 'mainline')
+      .reduce(
+        (total, pipe) =>
+          total +
+          calculateFrictionLoss(
+            mainlineFlow,
+            calculatePipeLength(pipe.points, pixelRatio),
+            pipe.material,
+            pipe.size,
+            planUnit
+          ),
+        0
+      );
+    const lateralPressure = supply.staticPressure === null ? null : supply.staticPressure - mainlineLoss;
+
+    return pipes.map(pipe =>
+      analyzePipe(
+        pipe,
+        heads,
+        mainlineFlow,
+        pipe.kind === 'mainline' ? supply.staticPressure : lateralPressure,
+        pixelRatio,
+        SNAP_THRESHOLD,
+        planUnit
+      )
+    );
+  }, [pipes, heads, valveFlows, supply, pixelRatio, planUnit]);
+
+  const bomItems = pixelRatio
+    ? generateBillOfMaterials({
+        heads,
+        pipes,
+        valveZones,
+        dripPixelArea: calculateTotalArea('drip'),
+        drip,
+        pixelRatio,
+        unit: planUnit,
+        displayUnit,
+        threshold: SNAP_THRESHOLD,
+      })
+    : [];
+
+  const handleUnitPriceChange = (itemId: string, value: string) => {
+    const price = parseFloat(value);
+    setUnitPrices(prev => {
+      const { [itemId]: _, ...rest } = prev;
+      return isNaN(price) || price < 0 ? rest : { ...rest, [itemId]: price };
+    });
+  };
 
-    return regions;
+  const handleDownloadBom = () => {
+    downloadFile('irrigation-bill-of-materials.csv', toBomCsv(bomItems, unitPrices), 'text/csv');
   };
 
-  const calculateRegionArea = (region: Point[]): number => {
-    return region.length * (CALCULATION_GRID_SIZE * CALCULATION_GRID_SIZE);
+  const wateringSchedule = pixelRatio
+    ? generateSchedule(valveZones, heads, shapes, pixelRatio, drip, scheduleSettings, planUnit)
+    : [];
+  const wateringRuns = planWateringDay(wateringSchedule, scheduleSettings);
+
+  const updateSchedule = (changes: Partial<ScheduleSettings>) => {
+    setScheduleSettings(prev => ({ ...prev, ...changes }));
   };
 
-  const calculateTotalArea = (type: 'regular' | 'exclusion' | 'drip'): number => {
-    const regionsOfType = zoneRegions.filter(region => region.type === type);
-    return regionsOfType.reduce((total, region) => total + calculateRegionArea(region.points), 0);
+  const handleToggleWateringDay = (day: number) => {
+    const days = scheduleSettings.days.includes(day)
+      ? scheduleSettings.days.filter(other => other !== day)
+      : [...scheduleSettings.days, day].sort((a, b) => a - b);
+    updateSchedule({ days });
   };
 
-  const zoneRegions = useMemo(() => calculateZoneRegions(), [shapes, dimensions]);
+  const handleDownloadScheduleJson = () => {
+    downloadFile(
+      'irrigation-schedule.json',
+      toScheduleJson(wateringSchedule, scheduleSettings, planUnit),
+      'application/json'
+    );
+  };
 
-  const formatArea = (pixelArea: number): string => {
-    if (!pixelRatio) return 'Set ruler first';
-    const realArea = pixelArea * (pixelRatio * pixelRatio);
-    return `${realArea.toFixed(2)} ${ruler?.unit || 'ft'}²`;
+  const handleDownloadScheduleIcs = () => {
+    downloadFile('irrigation-schedule.ics', toScheduleIcs(wateringSchedule, scheduleSettings, new Date()), 'text/calendar');
   };
 
+  const formatLength = (length: number): string => `${toDisplayUnit(length, 'length').toFixed(1)} ${displayUnit}`;
+
+  const formatMeters = (meters: number): string =>
+    `${convertQuantity(meters, 'length', 'm', displayUnit).toFixed(displayUnit === 'm' ? 2 : 1)} ${displayUnit}`;
+
+  const formatPressure = (pressure: number): string =>
+    `${toDisplayUnit(pressure, 'pressure').toFixed(displayUnit === 'm' ? 2 : 1)} ${PRESSURE_UNITS[displayUnit]}`;
+
   const drawShape = (ctx: CanvasRenderingContext2D, shape: Shape) => {
     if (shape.points.length <= 2) return;
 
     const color = getShapeColor(shape.type);
     ctx.fillStyle = color.fill;
-    ctx.beginPath();
-    ctx.moveTo(shape.points[0].x, shape.points[0].y);
-    shape.points.forEach(point => ctx.lineTo(point.x, point.y));
-    ctx.closePath();
+    if (shape.outline) {
+      traceOutline(ctx, shape.outline);
+    } else {
+      ctx.beginPath();
+      ctx.moveTo(shape.points[0].x, shape.points[0].y);
+      shape.points.forEach(point => ctx.lineTo(point.x, point.y));
+      ctx.closePath();
+    }
     ctx.fill();
     ctx.strokeStyle = color.stroke;
-    ctx.lineWidth = 4;
+    // Keep the stroke width constant on screen under the view transform.
+    ctx.lineWidth = 4 / ctx.getTransform().a;
     ctx.lineCap = 'round';
     ctx.lineJoin = 'round';
     ctx.stroke();
@@ -288,7 +764,8 @@ function App() {
     if (points.length <= 1) return;
 
     ctx.strokeStyle = color.stroke;
-    ctx.lineWidth = 4;
+    // Keep the stroke width constant on screen under the view transform.
+    ctx.lineWidth = 4 / ctx.getTransform().a;
     ctx.lineCap = 'round';
     ctx.lineJoin = 'round';
     ctx.beginPath();
@@ -297,16 +774,24 @@ function App() {
     ctx.stroke();
   };
 
-  const getCanvasPoint = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>): Point => {
+  // Position on the canvas element in screen pixels. Touches that just ended
+  // are only listed in changedTouches.
+  const getScreenPoint = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>): Point => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
 
     const rect = canvas.getBoundingClientRect();
-    const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
-    const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
-    const x = (clientX - rect.left) / canvasScale;
-    const y = (clientY - rect.top) / canvasScale;
-    return { x, y };
+    const { clientX, clientY } = 'touches' in e ? e.touches[0] ?? e.changedTouches[0] : e;
+    return { x: clientX - rect.left, y: clientY - rect.top };
+  };
+
+  const getCanvasPoint = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>): Point =>
+    toPlanPoint(view, getScreenPoint(e));
+
+  const getTouchPair = (e: React.TouchEvent<HTMLCanvasElement>): [Point, Point] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const toPoint = (touch: React.Touch) => ({ x: touch.clientX - rect.left, y: touch.clientY - rect.top });
+    return [toPoint(e.touches[0]), toPoint(e.touches[1])];
   };
 
   useEffect(() => {
@@ -320,22 +805,153 @@ function App() {
     canvas.width = containerSize.width;
     canvas.height = containerSize.height;
 
-    // Clear and scale context
+    // Clear and apply the view transform; sizes meant to stay constant on
+    // screen are divided by the zoom.
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    ctx.scale(canvasScale, canvasScale);
+    ctx.setTransform(view.scale, 0, 0, view.scale, view.x, view.y);
+    const zoom = view.scale;
 
     if (ruler) {
       const color = getShapeColor('ruler');
       drawPath(ctx, [ruler.start, ruler.end], color);
       ctx.fillStyle = color.stroke;
-      ctx.font = '16px Arial';
+      ctx.font = `${16 / zoom}px Arial`;
       ctx.fillText(`${ruler.length} ${ruler.unit}`, (ruler.start.x + ruler.end.x) / 2, (ruler.start.y + ruler.end.y) / 2);
     }
 
-    shapes.forEach(shape => drawShape(ctx, shape));
+    // Extra references are drawn like the ruler; verification-only ones dashed.
+    scaleReferences.forEach(reference => {
+      const color = getShapeColor('ruler');
+      if (reference.verifyOnly) ctx.setLineDash([8 / zoom, 6 / zoom]);
+      drawPath(ctx, [reference.start, reference.end], color);
+      ctx.setLineDash([]);
+      ctx.fillStyle = color.stroke;
+      ctx.font = `${14 / zoom}px Arial`;
+      ctx.fillText(
+        `${reference.length} ${reference.unit}`,
+        (reference.start.x + reference.end.x) / 2,
+        (reference.start.y + reference.end.y) / 2
+      );
+    });
+
+    if (pendingRuler) {
+      drawPath(ctx, [pendingRuler.start, pendingRuler.end], getShapeColor('ruler'));
+    }
+
+    if (selectedTool === 'rectify' && rectifyCorners.length > 0) {
+      const color = getShapeColor('rectify');
+      drawPath(ctx, rectifyCorners.length === 4 ? [...rectifyCorners, rectifyCorners[0]] : rectifyCorners, color);
+      ctx.fillStyle = color.stroke;
+      ctx.font = `bold ${14 / zoom}px Arial`;
+      rectifyCorners.forEach((corner, i) => {
+        ctx.beginPath();
+        ctx.arc(corner.x, corner.y, 4 / zoom, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillText(String(i + 1), corner.x + 6 / zoom, corner.y - 6 / zoom);
+      });
+    }
+
+    if (selectedTool === 'georeference' || geoPoints.length > 0) {
+      const color = getShapeColor('georeference');
+      ctx.fillStyle = color.stroke;
+      ctx.font = `bold ${14 / zoom}px Arial`;
+      geoPoints.forEach((geoPoint, i) => {
+        ctx.beginPath();
+        ctx.arc(geoPoint.point.x, geoPoint.point.y, 5 / zoom, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.fillText(`G${i + 1}`, geoPoint.point.x + 7 / zoom, geoPoint.point.y - 7 / zoom);
+      });
+    }
+
+    const displayedShapes = draggedVertex
+      ? shapes.map((shape, index) =>
+          index === draggedVertex.shapeIndex ? moveVertex(shape, draggedVertex.vertexIndex, draggedVertex.point) : shape
+        )
+      : shapes;
+
+    // Plan content is drawn a layer at a time, bottom to top.
+    layers.forEach(layer => {
+      if (!layer.visible) return;
+      ctx.save();
+      ctx.globalAlpha = layer.opacity;
+      if (layer.id === 'zones' || layer.id === 'exclusions') {
+        displayedShapes.forEach(shape => {
+          if (getShapeLayer(shape) === layer.id) drawShape(ctx, shape);
+        });
+      } else if (layer.id === 'pipes') {
+        pipes.forEach((pipe, index) =>
+          drawPipe(ctx, pipe, pipeAnalyses[index] ? formatLength(pipeAnalyses[index].length) : null, zoom)
+        );
+      } else if (layer.id === 'heads') {
+        if (pixelRatio) heads.forEach(head => drawHead(ctx, head, pixelRatio, zoom));
+      } else {
+        measurements.forEach(measurement =>
+          drawMeasurement(
+            ctx,
+            measurement.points,
+            formatMeasurementLabel(
+              measurement,
+              pixelRatio ? formatLength(getMeasurementLength(measurement, pixelRatio)) : null
+            ),
+            zoom
+          )
+        );
+      }
+      ctx.restore();
+    });
+
+    if (selectedTool === 'select') {
+      const color = getShapeColor('select');
+      const handleSize = VERTEX_HANDLE_SIZE / zoom;
+      ctx.fillStyle = color.fill;
+      ctx.strokeStyle = color.stroke;
+      ctx.lineWidth = 2 / zoom;
+      getEditableShapeIndices(displayedShapes, layers).forEach(index =>
+        getEditableVertices(displayedShapes[index]).forEach(vertex => {
+          ctx.fillRect(vertex.x - handleSize / 2, vertex.y - handleSize / 2, handleSize, handleSize);
+          ctx.strokeRect(vertex.x - handleSize / 2, vertex.y - handleSize / 2, handleSize, handleSize);
+        })
+      );
+    }
+
+    if (showPrecipitation) {
+      zoneRegions.forEach((region, index) => {
+        const precipitation = zonePrecipitation[index];
+        if (!precipitation || precipitation.precipitationRate === 0) return;
+
+        const size = region.sampleSpacing;
+        region.points.forEach((point, pointIndex) => {
+          ctx.fillStyle = getHeatmapColor(precipitation.rates[pointIndex] / precipitation.precipitationRate);
+          ctx.fillRect(point.x - size / 2, point.y - size / 2, size, size);
+        });
+      });
+    }
+
+    const activeValve = valveZones.find(valve => valve.id === activeValveId);
+    if (selectedTool === 'valve' && activeValve) {
+      ctx.strokeStyle = SHAPE_COLORS.valve.stroke;
+      ctx.lineWidth = 3 / zoom;
+      heads
+        .filter(head => activeValve.headIds.includes(head.id))
+        .forEach(head => {
+          ctx.beginPath();
+          ctx.arc(head.position.x, head.position.y, SNAP_THRESHOLD / zoom, 0, Math.PI * 2);
+          ctx.stroke();
+        });
+    }
+
+    if (selectedShapeIndex !== null && shapes[selectedShapeIndex]) {
+      drawPath(ctx, shapes[selectedShapeIndex].points, SHAPE_COLORS.select);
+    }
+
+    const autoPlaceShape = shapes.find(shape => shape.id === autoPlaceZone);
+    if (selectedTool === 'head' && autoPlaceShape) {
+      drawPath(ctx, autoPlaceShape.points, SHAPE_COLORS.hover);
+    }
 
     if (showHover) {
       zoneRegions.forEach((region, index) => {
+        if (!isLayerVisible(layers, getShapeLayer(region))) return;
         const isHovered = index === hoveredRegionIndex;
         const baseOpacity = 0.1;
         const hoverOpacity = 0.3;
@@ -344,237 +960,1318 @@ function App() {
           ? color.fill.replace(/[\d.]+\)$/, `${hoverOpacity})`)
           : color.fill.replace(/[\d.]+\)$/, `${baseOpacity})`);
 
-        region.points.forEach(point => {
-          if (point.x % (GRID_SIZE * 2) === 0 && point.y % (GRID_SIZE * 2) === 0) {
-            ctx.fillRect(point.x, point.y, GRID_SIZE * 2, GRID_SIZE * 2);
-          }
+        ctx.beginPath();
+        region.rings.forEach(ring => {
+          ring.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+          ctx.closePath();
         });
+        ctx.fill('evenodd');
 
         if (isHovered && hoverPosition) {
-          const area = calculateRegionArea(region.points);
-          const formattedArea = formatArea(area);
+          const area = region.area;
+          const coverage = headCoverage[index];
+          const formattedArea =
+            coverage !== undefined ? `${formatArea(area)}, ${formatCoverage(coverage)}` : formatArea(area);
+          const zoneIndex = findZoneAt(shapes, hoverPosition, region.type);
+          const lines =
+            zoneIndex !== -1
+              ? [getZoneName(shapes, zoneIndex), describeZone(shapes[zoneIndex]), formattedArea].filter(Boolean)
+              : [formattedArea];
+          // The tooltip is drawn in screen pixels so it reads the same at any zoom.
+          const anchor = toScreenPoint(view, hoverPosition);
+          ctx.save();
+          ctx.setTransform(1, 0, 0, 1, 0, 0);
+          ctx.font = '12px Arial';
           ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-          const textWidth = ctx.measureText(formattedArea).width + 10;
-          const tooltipX = hoverPosition.x + 10;
-          const tooltipY = hoverPosition.y - 30;
+          const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width)) + 10;
+          const textHeight = lines.length * 16 + 4;
+          const tooltipX = anchor.x + 10;
+          const tooltipY = anchor.y - 10 - textHeight;
 
-          const adjustedX = Math.min(tooltipX, dimensions.width - textWidth);
+          const adjustedX = Math.min(tooltipX, canvas.width - textWidth);
           const adjustedY = Math.max(tooltipY, 20);
 
-          ctx.fillRect(adjustedX, adjustedY, textWidth, 20);
+          ctx.fillRect(adjustedX, adjustedY, textWidth, textHeight);
           ctx.fillStyle = 'white';
-          ctx.font = '12px Arial';
-          ctx.fillText(formattedArea, adjustedX + 5, adjustedY + 15);
+          lines.forEach((line, i) => ctx.fillText(line, adjustedX + 5, adjustedY + 15 + i * 16));
+          ctx.restore();
         }
       });
     }
 
     if (currentShape.length > 0) {
       const color = getShapeColor(selectedTool);
-      const points = [...currentShape];
-      if (currentPath.length > 0) {
+      const points = flattenEdges(currentShape, currentControls);
+      // Curved edges are previewed from the last vertex already.
+      if (currentPath.length > 0 && shapeMode !== 'curve') {
         points.push(currentPath[currentPath.length - 1]);
       }
       drawPath(ctx, points, color);
     }
 
-    if (currentPath.length > 1) {
-      drawPath(ctx, currentPath, getShapeColor(selectedTool));
+    if (currentPipe.length > 0) {
+      const points = [...currentPipe];
+      if (currentPath.length > 0) {
+        points.push(currentPath[currentPath.length - 1]);
+      }
+      drawPath(ctx, points, getShapeColor('pipe'));
     }
-  }, [dimensions, shapes, currentShape, currentPath, selectedTool, ruler, hoveredRegionIndex, hoverPosition, zoneRegions, showHover, containerSize, canvasScale]);
-
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const point = getCanvasPoint(e);
-    setStartPoint(point);
-  };
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    if (!canvas || !dimensions) return;
+    if (selectedTool === 'measure' || currentMeasurement.length > 0) {
+      // The first segment is previewed from where the drag started.
+      const points = currentMeasurement.length > 0 ? [...currentMeasurement, ...currentPath.slice(-1)] : currentPath;
+      drawMeasurement(ctx, points, pixelRatio ? formatLength(calculatePathPixelLength(points) * pixelRatio) : '', zoom);
+    }
 
-    const point = getCanvasPoint(e);
-    const currentPoint = point;
+    if (currentPath.length > 1 && selectedTool !== 'measure') {
+      drawPath(ctx, currentPath, getShapeColor(selectedTool));
+    }
 
-    if (startPoint) {
-      if (currentShape.length > 2 && isNearStartPoint(currentPoint, currentShape[0])) {
-        setCurrentPath([startPoint, currentShape[0]]);
+    if (snapTarget) {
+      const { x, y } = snapTarget.point;
+      const size = 6 / zoom;
+      ctx.strokeStyle = SHAPE_COLORS.hover.stroke;
+      ctx.lineWidth = 2 / zoom;
+      ctx.beginPath();
+      if (snapTarget.kind === 'vertex') {
+        ctx.arc(x, y, size, 0, Math.PI * 2);
       } else {
-        setCurrentPath([startPoint, currentPoint]);
+        ctx.rect(x - size, y - size, size * 2, size * 2);
       }
-    } else {
-      const gridX = Math.floor(point.x / GRID_SIZE) * GRID_SIZE;
-      const gridY = Math.floor(point.y / GRID_SIZE) * GRID_SIZE;
+      ctx.stroke();
+    }
+  }, [dimensions, shapes, currentShape, currentPath, selectedTool, ruler, hoveredRegionIndex, hoverPosition, zoneRegions, showHover, containerSize, view, heads, pixelRatio, headCoverage, autoPlaceZone, showPrecipitation, zonePrecipitation, valveZones, activeValveId, pipes, pipeAnalyses, currentPipe, draggedVertex, snapTarget, currentControls, shapeMode, selectedShapeIndex, scaleReferences, pendingRuler, rectifyCorners, measurements, currentMeasurement, unitSystem, planUnit, geoPoints, layers]);
 
-      const regionIndex = zoneRegions.findIndex(region =>
-        region.points.some(p => p.x === gridX && p.y === gridY)
-      );
+  useEffect(() => {
+    const minimap = minimapRef.current;
+    const ctx = minimap?.getContext('2d');
+    if (!minimap || !ctx || !dimensions) return;
+
+    ctx.clearRect(0, 0, minimap.width, minimap.height);
+    ctx.setTransform(minimapScale, 0, 0, minimapScale, 0, 0);
+    shapes.forEach(shape => {
+      if (shape.type === 'delete' || shape.points.length < 3) return;
+      ctx.fillStyle = SHAPE_COLORS[shape.type].stroke;
+      ctx.beginPath();
+      shape.points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+      ctx.fill();
+    });
+
+    const visible = getVisibleRect(view, containerSize);
+    ctx.strokeStyle = SHAPE_COLORS.hover.stroke;
+    ctx.lineWidth = 2 / minimapScale;
+    ctx.strokeRect(visible.x, visible.y, visible.width, visible.height);
+  }, [dimensions, shapes, view, containerSize, minimapScale]);
+
+  const handleHeadTypeChange = (type: HeadType) => {
+    setHeadType(type);
+    setHeadRadius(String(HEAD_DEFAULTS[type].radius[displayUnit]));
+    setHeadArc(String(HEAD_DEFAULTS[type].arc));
+  };
 
-      if (regionIndex !== hoveredRegionIndex) {
-        setHoveredRegionIndex(regionIndex !== -1 ? regionIndex : null);
-        setHoverPosition(regionIndex !== -1 ? currentPoint : null);
-      }
-    }
+  // Tools only add to their layer while it is shown and unlocked.
+  const canDrawOnLayer = (id: LayerId): boolean => {
+    const message = getLayerLockMessage(layers, id);
+    if (message) setPlanFileError(message);
+    return !message;
   };
 
-  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!startPoint) return;
+  const placeHead = (point: Point) => {
+    if (!pixelRatio || !canDrawOnLayer('heads')) return;
+
+    const radius = fromDisplayUnit(parseFloat(headRadius), 'length');
+    if (isNaN(radius) || radius <= 0) return;
+
+    const arc = parseFloat(headArc);
+    const rotation = parseFloat(headRotation);
+    const flow = fromDisplayUnit(parseFloat(headFlow), 'flow');
+    setHeads(prev => [
+      ...prev,
+      {
+        id: createId(),
+        position: point,
+        type: headType,
+        radius,
+        arc: isNaN(arc) ? 360 : Math.min(Math.max(arc, 0), 360),
+        rotation: isNaN(rotation) ? 0 : rotation,
+        ...(isNaN(flow) || flow <= 0 ? {} : { flow }),
+      },
+    ]);
+  };
 
-    const point = getCanvasPoint(e);
-    const currentPoint = point;
+  const getShapeLabel = (index: number): string => getZoneName(shapes, index);
 
-    if (selectedTool === 'ruler') {
-      setRuler({ start: startPoint, end: currentPoint, length: 0, unit: 'ft' });
-      setShowRulerPrompt(true);
-    } else if (selectedTool === 'delete') {
-      const shapeIndex = shapes.findIndex(shape => isPointInShape(currentPoint, shape.points));
+  const selectedShape = selectedShapeIndex !== null ? shapes[selectedShapeIndex] : undefined;
 
-      if (shapeIndex !== -1) {
-        setShapes(prev => prev.filter((_, index) => index !== shapeIndex));
-      }
-    } else {
-      if (currentShape.length === 0) {
-        setCurrentShape([startPoint, currentPoint]);
-      } else {
-        if (isNearStartPoint(currentPoint, currentShape[0])) {
-          const closedShape = [...currentShape, currentShape[0]];
-          const area = calculatePixelArea(closedShape);
-          setShapes(prev => [...prev, { points: closedShape, area, type: selectedTool }]);
-          setCurrentShape([]);
-        } else {
-          setCurrentShape(prev => [...prev, currentPoint]);
-        }
-      }
-    }
+  const handleUpdateShape = (shapeIndex: number, changes: Partial<Shape>) => {
+    pendingEditRef.current = `shape ${shapeIndex} ${Object.keys(changes).join()}`;
+    setShapes(prev => prev.map((shape, index) => (index === shapeIndex ? { ...shape, ...changes } : shape)));
+  };
 
-    setStartPoint(null);
-    setCurrentPath([]);
+  const regularZoneOptions = shapes
+    .map((shape, index) => ({ shape, index }))
+    .filter(({ shape }) => shape.type === 'regular');
+
+  const handleAutoPlaceHeads = () => {
+    const zone = shapes.find(shape => shape.id === autoPlaceZone);
+    const nozzle = NOZZLE_CATALOG.find(entry => entry.id === autoPlaceNozzleId);
+    if (!pixelRatio || !zone || zone.type !== 'regular' || !nozzle || !canDrawOnLayer('heads')) return;
+
+    const exclusions = shapes.filter(shape => shape.type === 'exclusion');
+    const suggested = suggestHeadLayout(zone, exclusions, nozzle, autoPlacePattern, pixelRatio, planUnit);
+    const replaced = heads.filter(head => isPointInShape(head.position, zone.points)).map(head => head.id);
+    setHeads(prev => [...prev.filter(head => !replaced.includes(head.id)), ...suggested]);
+    setValveZones(prev => removeValveHeads(prev, replaced));
   };
 
-  const handleMouseLeave = () => {
-    setStartPoint(null);
-    setCurrentPath([]);
-    setHoveredRegionIndex(null);
-    setHoverPosition(null);
+  const seedableShapes = shapes
+    .map((shape, index) => ({ shape, index }))
+    .filter(({ shape }) => shape.type === 'regular' || shape.type === 'drip');
+
+  const parseSetting = (value: string): number | null => {
+    const parsed = parseFloat(value);
+    return isNaN(parsed) || parsed < 0 ? null : parsed;
   };
 
-  const handleRulerSubmit = () => {
-    if (!ruler || !rulerLength) return;
+  // A setting typed in the display unit, in the plan's unit.
+  const parseQuantitySetting = (value: string, quantity: Quantity): number | null => {
+    const parsed = parseSetting(value);
+    return parsed === null ? null : fromDisplayUnit(parsed, quantity);
+  };
 
-    const length = parseFloat(rulerLength);
-    if (isNaN(length)) return;
+  const unassignedHeadCount = heads.filter(head => !valveZones.some(valve => valve.headIds.includes(head.id))).length;
 
-    const pixelDistance = calculatePixelDistance(ruler.start, ruler.end);
-    const ratio = length / pixelDistance;
+  const handleCreateValveZone = () => {
+    const seed = shapes.find(shape => shape.id === valveSeed);
+    if (!seed) return;
 
-    setPixelRatio(ratio);
-    setRuler(prev => (prev ? { ...prev, length, unit: rulerUnit } : null));
-    setShowRulerPrompt(false);
-    setRulerLength('');
+    const valve = createValveZone(`Valve ${valveZones.length + 1}`, seed, heads);
+    setValveZones(prev => claimValveHeads(prev, valve));
+    setValveSeed('');
   };
 
-  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (selectedTool !== 'delete') return;
+  const handleAssignHeads = (valveId: string) => {
+    setActiveValveId(valveId);
+    setSelectedTool('valve');
+  };
 
-    const point = getCanvasPoint(e);
-    const shapeIndex = shapes.findIndex(shape => isPointInShape(point, shape.points));
+  const handleRenameValveZone = (valveId: string, name: string) => {
+    pendingEditRef.current = `valve ${valveId} name`;
+    setValveZones(prev => prev.map(valve => (valve.id === valveId ? { ...valve, name } : valve)));
+  };
 
-    if (shapeIndex !== -1) {
-      setShapes(prev => prev.filter((_, index) => index !== shapeIndex));
+  const handleDeleteValveZone = (valveId: string) => {
+    setValveZones(prev => prev.filter(valve => valve.id !== valveId));
+    if (activeValveId === valveId) {
+      setActiveValveId(null);
     }
   };
 
-  const handleClearAll = () => {
-    localStorage.removeItem('irrigationShapes');
-    localStorage.removeItem('irrigationRuler');
-    localStorage.removeItem('irrigationPixelRatio');
-    localStorage.removeItem('irrigationImage');
-    localStorage.removeItem('irrigationDimensions');
-    window.location.reload();
+  const assignHeadAtPoint = (point: Point) => {
+    if (!isLayerEditable(layers, 'heads')) return;
+    const head = heads.find(candidate => isPointNearHead(point, candidate, snapThreshold));
+    if (!head || !activeValveId) return;
+
+    setValveZones(prev => toggleValveHead(prev, activeValveId, head.id));
   };
 
-  const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    e.preventDefault();
-    const point = getCanvasPoint(e);
-    
-    if (selectedTool === 'delete') {
-      const shapeIndex = shapes.findIndex(shape => isPointInShape(point, shape.points));
-      if (shapeIndex !== -1) {
-        setShapes(prev => prev.filter((_, index) => index !== shapeIndex));
-      }
+  const headFlowEstimate =
+    parseFloat(headRadius) > 0
+      ? estimateHeadFlow(
+          {
+            id: '',
+            position: { x: 0, y: 0 },
+            type: headType,
+            radius: parseFloat(headRadius),
+            arc: parseFloat(headArc) || 360,
+            rotation: 0,
+          },
+          displayUnit
+        ).toFixed(2)
+      : '';
+
+  // Pipes snap onto heads only while the heads layer can be clicked.
+  const snapToHead = (point: Point): Point => {
+    if (!isLayerEditable(layers, 'heads')) return point;
+    return heads.find(head => isPointNearHead(point, head, snapThreshold))?.position ?? point;
+  };
+
+  const finishPipe = (points: Point[]) => {
+    const pipePoints = points.filter(
+      (point, index) => index === 0 || calculatePixelDistance(points[index - 1], point) > 0
+    );
+    if (pipePoints.length > 1) {
+      setPipes(prev => [
+        ...prev,
+        { id: createId(), kind: pipeKind, material: pipeMaterial, size: pipeSize, points: pipePoints },
+      ]);
+    }
+    setCurrentPipe([]);
+  };
+
+  // Pipes are finished by clicking their last point again.
+  const addPipePoint = (start: Point, end: Point) => {
+    if (!canDrawOnLayer('pipes')) return;
+
+    const point = snapToHead(end);
+    if (currentPipe.length === 0) {
+      setCurrentPipe([snapToHead(start), point]);
+    } else if (isNearStartPoint(point, currentPipe[currentPipe.length - 1])) {
+      finishPipe(currentPipe);
     } else {
-      setStartPoint(point);
+      setCurrentPipe(prev => [...prev, point]);
     }
   };
 
-  const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    e.preventDefault();
-    const canvas = canvasRef.current;
-    if (!canvas || !dimensions) return;
+  // Measurements never touch the scale; like pipes they are finished by
+  // clicking their last point again.
+  const finishMeasurement = (points: Point[]) => {
+    const measurementPoints = points.filter(
+      (point, index) => index === 0 || calculatePixelDistance(points[index - 1], point) > 0
+    );
+    if (measurementPoints.length > 1) {
+      setMeasurements(prev => [...prev, { id: createId(), label: measurementLabel.trim(), points: measurementPoints }]);
+      setMeasurementLabel('');
+    }
+    setCurrentMeasurement([]);
+  };
 
-    const point = getCanvasPoint(e);
-    const currentPoint = point;
+  const addMeasurementPoint = (start: Point, end: Point) => {
+    if (!canDrawOnLayer('notes')) return;
 
-    if (startPoint) {
-      if (currentShape.length > 2 && isNearStartPoint(currentPoint, currentShape[0])) {
-        setCurrentPath([startPoint, currentShape[0]]);
-      } else {
-        setCurrentPath([startPoint, currentPoint]);
-      }
+    if (currentMeasurement.length === 0) {
+      setCurrentMeasurement([start, end]);
+    } else if (isNearStartPoint(end, currentMeasurement[currentMeasurement.length - 1])) {
+      finishMeasurement(currentMeasurement);
     } else {
-      const gridX = Math.floor(point.x / GRID_SIZE) * GRID_SIZE;
-      const gridY = Math.floor(point.y / GRID_SIZE) * GRID_SIZE;
+      setCurrentMeasurement(prev => [...prev, end]);
+    }
+  };
 
-      const regionIndex = zoneRegions.findIndex(region =>
-        region.points.some(p => p.x === gridX && p.y === gridY)
-      );
+  const handleUpdateMeasurement = (measurementId: string, changes: Partial<Measurement>) => {
+    pendingEditRef.current = `measurement ${measurementId} ${Object.keys(changes).join()}`;
+    setMeasurements(prev =>
+      prev.map(measurement => (measurement.id === measurementId ? { ...measurement, ...changes } : measurement))
+    );
+  };
 
-      if (regionIndex !== hoveredRegionIndex) {
-        setHoveredRegionIndex(regionIndex !== -1 ? regionIndex : null);
-        setHoverPosition(regionIndex !== -1 ? currentPoint : null);
-      }
-    }
+  const handleDeleteMeasurement = (measurementId: string) => {
+    setMeasurements(prev => prev.filter(measurement => measurement.id !== measurementId));
   };
 
-  const handleTouchEnd = (e: React.TouchEvent<HTMLCanvasElement>) => {
-    e.preventDefault();
-    if (!startPoint) return;
+  // A zone stays selected, or hovered, only while clicks can still reach it.
+  const handleUpdateLayer = (id: LayerId, changes: Partial<Omit<Layer, 'id'>>) => {
+    const updated = updateLayer(layers, id, changes);
+    setLayers(updated);
+    setHoveredRegionIndex(null);
+    const selected = selectedShapeIndex !== null ? shapes[selectedShapeIndex] : undefined;
+    if (selected && !isLayerEditable(updated, getShapeLayer(selected))) setSelectedShapeIndex(null);
+  };
 
-    const point = getCanvasPoint(e);
-    const currentPoint = point;
+  const handlePipeMaterialChange = (material: PipeMaterial) => {
+    setPipeMaterial(material);
+    if (!(pipeSize in PIPE_MATERIALS[material].sizes)) {
+      setPipeSize(Object.keys(PIPE_MATERIALS[material].sizes)[0]);
+    }
+  };
 
-    if (selectedTool === 'ruler') {
-      setRuler({ start: startPoint, end: currentPoint, length: 0, unit: 'ft' });
-      setShowRulerPrompt(true);
-    } else if (selectedTool === 'delete') {
-      const shapeIndex = shapes.findIndex(shape => isPointInShape(currentPoint, shape.points));
+  const handleUpdatePipe = (pipeId: string, changes: Partial<Pipe>) => {
+    setPipes(prev => prev.map(pipe => (pipe.id === pipeId ? { ...pipe, ...changes } : pipe)));
+  };
 
-      if (shapeIndex !== -1) {
-        setShapes(prev => prev.filter((_, index) => index !== shapeIndex));
-      }
-    } else {
-      if (currentShape.length === 0) {
-        setCurrentShape([startPoint, currentPoint]);
+  // Deletes the topmost item under the point on an unlocked, visible layer.
+  const deleteAtPoint = (point: Point) => {
+    for (const layerId of getEditableLayerIds(layers)) {
+      if (layerId === 'heads') {
+        const head = [...heads].reverse().find(candidate => isPointNearHead(point, candidate, snapThreshold));
+        if (head) {
+          setHeads(prev => prev.filter(candidate => candidate !== head));
+          setValveZones(prev => removeValveHeads(prev, [head.id]));
+          return;
+        }
+      } else if (layerId === 'pipes') {
+        const pipe = [...pipes].reverse().find(candidate => isPointNearPipe(point, candidate, snapThreshold));
+        if (pipe) {
+          setPipes(prev => prev.filter(candidate => candidate !== pipe));
+          return;
+        }
+      } else if (layerId === 'notes') {
+        const measurement = [...measurements]
+          .reverse()
+          .find(candidate => isPointNearMeasurement(point, candidate, snapThreshold));
+        if (measurement) {
+          handleDeleteMeasurement(measurement.id);
+          return;
+        }
       } else {
-        if (isNearStartPoint(currentPoint, currentShape[0])) {
-          const closedShape = [...currentShape, currentShape[0]];
-          const area = calculatePixelArea(closedShape);
-          setShapes(prev => [...prev, { points: closedShape, area, type: selectedTool }]);
-          setCurrentShape([]);
-        } else {
-          setCurrentShape(prev => [...prev, currentPoint]);
+        const shapeIndex = getEditableShapeIndices(shapes, layers).find(
+          index => getShapeLayer(shapes[index]) === layerId && isPointInShape(point, shapes[index].points)
+        );
+        if (shapeIndex !== undefined) {
+          const { id } = shapes[shapeIndex];
+          setShapes(prev => prev.filter((_, index) => index !== shapeIndex));
+          setValveZones(prev => removeValveShapes(prev, [id]));
+          setSelectedShapeIndex(null);
+          if (autoPlaceZone === id) setAutoPlaceZone('');
+          if (valveSeed === id) setValveSeed('');
+          return;
         }
       }
     }
-
-    setStartPoint(null);
-    setCurrentPath([]);
   };
 
-  const handleTouchCancel = () => {
-    setStartPoint(null);
-    setCurrentPath([]);
-    setHoveredRegionIndex(null);
-    setHoverPosition(null);
+  const startVertexDrag = (point: Point) => {
+    const vertex = findVertexAt(shapes, point, snapThreshold, getEditableShapeIndices(shapes, layers));
+    if (vertex) {
+      setDraggedVertex({ ...vertex, point: getEditableVertices(shapes[vertex.shapeIndex])[vertex.vertexIndex] });
+    }
+  };
+
+  // Releasing a dragged vertex commits its new position; clicking an edge
+  // inserts a vertex there, and clicking inside a zone selects it.
+  const finishVertexEdit = (point: Point) => {
+    if (draggedVertex) {
+      const { shapeIndex, vertexIndex, point: target } = draggedVertex;
+      const original = getEditableVertices(shapes[shapeIndex])[vertexIndex];
+      if (calculatePixelDistance(original, target) > 0) {
+        setShapes(prev =>
+          prev.map((shape, index) => (index === shapeIndex ? moveVertex(shape, vertexIndex, target) : shape))
+        );
+      }
+      setDraggedVertex(null);
+      return;
+    }
+
+    const editable = getEditableShapeIndices(shapes, layers);
+    const edge = findEdgeAt(shapes, point, snapThreshold, editable);
+    if (edge) {
+      setShapes(prev =>
+        prev.map((shape, index) => (index === edge.shapeIndex ? insertVertex(shape, edge.edgeIndex, point) : shape))
+      );
+      return;
+    }
+
+    const shapeIndex = editable.find(index => isPointInShape(point, shapes[index].points));
+    setSelectedShapeIndex(shapeIndex ?? null);
+  };
+
+  const handleCanvasDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (viewerMode || selectedTool !== 'select') return;
+
+    const vertex = findVertexAt(shapes, getCanvasPoint(e), snapThreshold, getEditableShapeIndices(shapes, layers));
+    if (vertex) {
+      setShapes(prev =>
+        prev.map((shape, index) => (index === vertex.shapeIndex ? removeVertex(shape, vertex.vertexIndex) : shape))
+      );
+    }
+  };
+
+  // The path the active tool is adding points to.
+  const getOpenPath = (): Point[] => {
+    if (selectedTool === 'pipe') return currentPipe;
+    if (selectedTool === 'measure') return currentMeasurement;
+    return currentShape;
+  };
+
+  // The point the next segment is drawn from, if any.
+  const getSegmentAnchor = (): Point | null => {
+    const path = getOpenPath();
+    return path.length > 0 ? path[path.length - 1] : startPoint;
+  };
+
+  // Shift locks the segment angle; otherwise points snap onto nearby vertices
+  // and edges of the shapes on editable layers, and of the one being drawn.
+  const resolveDrawingPoint = (point: Point, shiftKey: boolean): { point: Point; snap: Snap | null } => {
+    if (!SNAP_TOOLS.includes(selectedTool)) return { point, snap: null };
+
+    const anchor = getSegmentAnchor();
+    if (shiftKey && anchor && ZONE_TOOLS.includes(selectedTool) && ['rectangle', 'ellipse'].includes(shapeMode)) {
+      return { point: getSquareCorner(anchor, point), snap: null };
+    }
+    if (shiftKey && anchor) return { point: lockAngle(anchor, point), snap: null };
+
+    const snap = snapToPaths(
+      point,
+      [
+        ...getEditableShapeIndices(shapes, layers).map(index => shapes[index].points),
+        currentShape,
+        ...(selectedTool === 'measure' ? [currentMeasurement] : []),
+      ],
+      snapThreshold
+    );
+    return { point: snap?.point ?? point, snap };
+  };
+
+  // Dragged vertices snap onto the other editable shapes so neighbours share
+  // edges.
+  const dragVertexTo = (point: Point) => {
+    if (!draggedVertex) return;
+    const others = getEditableShapeIndices(shapes, layers)
+      .filter(index => index !== draggedVertex.shapeIndex)
+      .map(index => shapes[index].points);
+    const snap = snapToPaths(point, others, snapThreshold);
+    setDraggedVertex({ ...draggedVertex, point: snap?.point ?? point });
+    setSnapTarget(snap);
+  };
+
+  const handleSegmentLengthSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const length = parseFloat(segmentLength);
+    const path = getOpenPath();
+    if (!pixelRatio || isNaN(length) || length <= 0 || path.length === 0) return;
+    const layer = getToolLayer(selectedTool);
+    if (layer && !canDrawOnLayer(layer)) return;
+
+    const anchor = path[path.length - 1];
+    const point = extendTowards(anchor, cursorPoint ?? anchor, fromDisplayUnit(length, 'length') / pixelRatio);
+    if (selectedTool === 'pipe') {
+      setCurrentPipe(prev => [...prev, point]);
+    } else if (selectedTool === 'measure') {
+      setCurrentMeasurement(prev => [...prev, point]);
+    } else {
+      setCurrentShape(prev => [...prev, point]);
+    }
+    setSegmentLength('');
+  };
+
+  const handleShapeModeChange = (mode: ShapeMode) => {
+    setShapeMode(mode);
+    setCurrentShape([]);
+    setCurrentControls([]);
+  };
+
+  // Previews the segment, box or curved edge being dragged out from `start`.
+  const previewGesture = (start: Point, point: Point, rawPoint: Point) => {
+    const closing = currentShape.length > 2 && isNearStartPoint(point, currentShape[0]);
+    if (!ZONE_TOOLS.includes(selectedTool) || shapeMode === 'polygon') {
+      setCurrentPath([start, closing ? currentShape[0] : point]);
+    } else if (shapeMode === 'rectangle') {
+      setCurrentPath(getRectanglePoints(start, point));
+    } else if (shapeMode === 'ellipse') {
+      setCurrentPath(flattenOutline(getEllipseOutline(start, point)));
+    } else {
+      const trail = [...dragTrail, rawPoint];
+      const anchor = currentShape.length > 0 ? currentShape[currentShape.length - 1] : start;
+      const end = closing ? currentShape[0] : point;
+      setDragTrail(trail);
+      setCurrentPath(flattenEdges([anchor, end], [fitQuadraticControl(anchor, end, trail, snapThreshold / 2)]));
+    }
+  };
+
+  // Boxes become a zone as soon as they are dragged out; polygons and curved
+  // paths grow an edge per drag until they are closed on their first point.
+  const addShapePoint = (type: Shape['type'], start: Point, end: Point) => {
+    setDragTrail([]);
+    if (!canDrawOnLayer(getShapeLayer({ type }))) return;
+
+    if (shapeMode === 'rectangle' || shapeMode === 'ellipse') {
+      if (Math.abs(end.x - start.x) < snapThreshold || Math.abs(end.y - start.y) < snapThreshold) return;
+      const rectangle = getRectanglePoints(start, end);
+      const shape =
+        shapeMode === 'rectangle'
+          ? { points: rectangle, area: calculatePixelArea(rectangle), type }
+          : createOutlineShape(getEllipseOutline(start, end), type);
+      setShapes(prev => [...prev, { id: createId(), ...shape }]);
+      return;
+    }
+
+    const anchor = currentShape.length > 0 ? currentShape[currentShape.length - 1] : start;
+    const closing = currentShape.length > 0 && isNearStartPoint(end, currentShape[0]);
+    const control =
+      shapeMode === 'curve'
+        ? fitQuadraticControl(anchor, closing ? currentShape[0] : end, dragTrail, snapThreshold / 2)
+        : null;
+
+    if (currentShape.length === 0) {
+      setCurrentShape([start, end]);
+      setCurrentControls([control]);
+    } else if (closing) {
+      const controls = currentShape.map((_, i) => (i === currentShape.length - 1 ? control : currentControls[i] ?? null));
+      const shape = createOutlineShape({ kind: 'path', vertices: currentShape, controls }, type);
+      setShapes(prev => [...prev, { id: createId(), ...shape }]);
+      setCurrentShape([]);
+      setCurrentControls([]);
+    } else {
+      const edgeIndex = currentShape.length - 1;
+      setCurrentShape(prev => [...prev, end]);
+      setCurrentControls(prev => {
+        const controls = [...prev];
+        controls[edgeIndex] = control;
+        return controls;
+      });
+    }
+  };
+
+  // The middle button, a held Space bar or the Pan tool drag the view instead
+  // of drawing. Viewers can only look around a shared plan.
+  const isPanGesture = (e: React.MouseEvent<HTMLCanvasElement>): boolean =>
+    e.button === 1 || spaceHeldRef.current || selectedTool === 'pan' || viewerMode;
+
+  const panTo = (screen: Point) => {
+    if (panStart) setView(panBy(panStart.view, screen.x - panStart.screen.x, screen.y - panStart.screen.y));
+  };
+
+  const handleZoom = (factor: number) =>
+    setView(prev => zoomAt(prev, { x: containerSize.width / 2, y: containerSize.height / 2 }, factor));
+
+  const handleZoomToFit = () => {
+    if (dimensions) setView(fitView(dimensions, containerSize));
+  };
+
+  const handleMinimapClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point = { x: (e.clientX - rect.left) / minimapScale, y: (e.clientY - rect.top) / minimapScale };
+    setView(prev => centerOn(prev, point, containerSize));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (isPanGesture(e)) {
+      e.preventDefault();
+      setPanStart({ screen: getScreenPoint(e), view });
+      return;
+    }
+
+    const { point } = resolveDrawingPoint(getCanvasPoint(e), e.shiftKey);
+    if (selectedTool === 'select') {
+      startVertexDrag(point);
+    }
+    setStartPoint(point);
+  };
+
+  // Hovering only reports regions on layers clicks can reach.
+  const findHoveredRegion = (point: Point): number =>
+    zoneRegions.findIndex(region => isLayerEditable(layers, getShapeLayer(region)) && isPointInRegion(point, region));
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !dimensions) return;
+
+    if (panStart) {
+      panTo(getScreenPoint(e));
+      return;
+    }
+
+    const point = getCanvasPoint(e);
+
+    if (draggedVertex) {
+      dragVertexTo(point);
+      return;
+    }
+
+    const { point: currentPoint, snap } = resolveDrawingPoint(point, e.shiftKey);
+    setSnapTarget(snap);
+    setCursorPoint(currentPoint);
+
+    if (startPoint && !POINT_TOOLS.includes(selectedTool)) {
+      previewGesture(startPoint, currentPoint, point);
+    } else {
+      const regionIndex = findHoveredRegion(point);
+
+      if (regionIndex !== hoveredRegionIndex) {
+        setHoveredRegionIndex(regionIndex !== -1 ? regionIndex : null);
+        setHoverPosition(regionIndex !== -1 ? currentPoint : null);
+      }
+    }
+  };
+
+  const handleMouseUp = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (panStart) {
+      setPanStart(null);
+      return;
+    }
+    if (!startPoint) return;
+
+    const { point: currentPoint } = resolveDrawingPoint(getCanvasPoint(e), e.shiftKey);
+    setSnapTarget(null);
+
+    if (selectedTool === 'ruler') {
+      setPendingRuler({ start: startPoint, end: currentPoint });
+      setRulerUse(ruler ? 'reference' : 'scale');
+      setShowRulerPrompt(true);
+    } else if (selectedTool === 'rectify') {
+      setRectifyCorners(prev => (prev.length < 4 ? [...prev, currentPoint] : prev));
+    } else if (selectedTool === 'georeference') {
+      addGeoPoint(currentPoint);
+    } else if (selectedTool === 'delete') {
+      deleteAtPoint(currentPoint);
+    } else if (selectedTool === 'head') {
+      placeHead(currentPoint);
+    } else if (selectedTool === 'valve') {
+      assignHeadAtPoint(currentPoint);
+    } else if (selectedTool === 'pipe') {
+      addPipePoint(startPoint, currentPoint);
+    } else if (selectedTool === 'measure') {
+      addMeasurementPoint(startPoint, currentPoint);
+    } else if (selectedTool === 'select') {
+      finishVertexEdit(currentPoint);
+    } else if (selectedTool !== 'pan') {
+      addShapePoint(selectedTool, startPoint, currentPoint);
+    }
+
+    setStartPoint(null);
+    setCurrentPath([]);
+  };
+
+  const handleMouseLeave = () => {
+    setPanStart(null);
+    setSnapTarget(null);
+    setDragTrail([]);
+    setDraggedVertex(null);
+    setStartPoint(null);
+    setCurrentPath([]);
+    setHoveredRegionIndex(null);
+    setHoverPosition(null);
+  };
+
+  const updateScale = (nextRuler: Ruler, nextReferences: ScaleReference[]) => {
+    setRuler(nextRuler);
+    setScaleReferences(nextReferences);
+    setPixelRatio(fitPlanScale(nextRuler, nextReferences, planUnit)?.pixelRatio ?? null);
+  };
+
+  // The first line drawn sets the scale; later ones replace it, refine it as
+  // an extra reference or only check it.
+  const handleRulerSubmit = () => {
+    if (!pendingRuler || !rulerLength) return;
+
+    const length = parseFloat(rulerLength);
+    if (isNaN(length) || length <= 0) return;
+
+    const measurement = { ...pendingRuler, length, unit: rulerUnit };
+    if (!ruler || rulerUse === 'scale') {
+      updateScale(measurement, scaleReferences);
+    } else {
+      updateScale(ruler, [...scaleReferences, { ...measurement, id: createId(), verifyOnly: rulerUse === 'verify' }]);
+    }
+    handleCancelRuler();
+  };
+
+  const handleCancelRuler = () => {
+    setPendingRuler(null);
+    setShowRulerPrompt(false);
+    setRulerLength('');
+  };
+
+  const handleDeleteScaleReference = (id: string) => {
+    if (ruler) updateScale(ruler, scaleReferences.filter(reference => reference.id !== id));
+  };
+
+  // Control points take the latitude and longitude typed in before clicking.
+  const addGeoPoint = (point: Point) => {
+    const lat = parseFloat(geoLatitude);
+    const lon = parseFloat(geoLongitude);
+    if (isNaN(lat) || isNaN(lon) || Math.abs(lat) > 90 || Math.abs(lon) > 180) {
+      setPlanFileError('Enter the latitude and longitude of a point before clicking it on the image.');
+      return;
+    }
+    setGeoPoints(prev => [...prev, { id: createId(), point, lat, lon }]);
+    setGeoLatitude('');
+    setGeoLongitude('');
+  };
+
+  const handleDeleteGeoPoint = (id: string) => {
+    setGeoPoints(prev => prev.filter(geoPoint => geoPoint.id !== id));
+  };
+
+  const getGeoZones = () =>
+    shapes.flatMap((shape, index) =>
+      shape.type === 'delete'
+        ? []
+        : [
+            {
+              name: getShapeLabel(index),
+              type: shape.type,
+              points: shape.points,
+              area: pixelRatio
+                ? Math.round(toDisplayUnit(shape.area * pixelRatio * pixelRatio, 'area') * 100) / 100
+                : null,
+            },
+          ]
+    );
+
+  const handleExportGeoJson = () => {
+    if (!georeference) return;
+    downloadFile(
+      'irrigation-zones.geojson',
+      toGeoJson(getGeoZones(), georeference, AREA_UNITS[displayUnit]),
+      'application/geo+json'
+    );
+  };
+
+  const handleExportKml = () => {
+    if (!georeference) return;
+    downloadFile(
+      'irrigation-zones.kml',
+      toKml(getGeoZones(), georeference, AREA_UNITS[displayUnit], activeProject?.name || 'Irrigation Plan', SHAPE_COLORS),
+      'application/vnd.google-earth.kml+xml'
+    );
+  };
+
+  const handleImportGeoJson = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !georeference) return;
+
+    try {
+      const polygons = parseGeoJson(await file.text());
+      setShapes(prev => [...prev, ...geoPolygonsToShapes(polygons, georeference, geoImportType)]);
+    } catch (error) {
+      setPlanFileError(
+        error instanceof GeoJsonError ? `Could not import ${file.name}: ${error.message}` : `Could not read ${file.name}.`
+      );
+    }
+  };
+
+  // Resamples the image so the fitted scale is the same in every direction,
+  // moving the plan with it. The image is not part of the undo history, so
+  // the history is cleared rather than left pointing at the old geometry.
+  const handleStraightenImage = async () => {
+    if (!scaleFit || !image || !dimensions) return;
+    if (!window.confirm('Straightening resamples the image and clears the undo history. Continue?')) return;
+
+    const { map, dimensions: straightened } = fitAffineToImage(getStraighteningMap(scaleFit), dimensions);
+    try {
+      const straightImage = await transformImage(image, map, straightened);
+      const plan = transformPlanGeometry(
+        { shapes, ruler, scaleReferences, pixelRatio, heads, pipes, valveZones, measurements, geoPoints },
+        point => applyAffine(map, point),
+        true
+      );
+      const fit = plan.ruler && fitPlanScale(plan.ruler, plan.scaleReferences, planUnit);
+      restorePlan({ ...plan, pixelRatio: fit ? fit.pixelRatio : plan.pixelRatio });
+      setImage(straightImage);
+      setDimensions(straightened);
+      setHistory(EMPTY_HISTORY);
+    } catch (error) {
+      setPlanFileError(error instanceof Error ? error.message : 'Could not straighten the image.');
+    }
+  };
+
+  // Warps the image to a top-down view from the marked corners of a known
+  // rectangle, which then sets the scale. Earlier measurements are kept to
+  // check it against, and the undo history is cleared as when straightening.
+  const handleRectifyImage = async () => {
+    if (!image || !dimensions) return;
+
+    const width = parseFloat(rectifyWidth);
+    const height = parseFloat(rectifyHeight);
+    const rectification = getRectification(rectifyCorners, width, height, dimensions);
+    if (!rectification) {
+      setPlanFileError('Mark the four corners of the rectangle in order around it and enter its width and height.');
+      return;
+    }
+
+    // Whatever lies on or beyond the horizon of the corrected view has no
+    // place in it, so it is removed rather than mirrored or sent to infinity.
+    const current = { shapes, ruler, scaleReferences, pixelRatio, heads, pipes, valveZones, measurements, geoPoints };
+    const kept = keepPlanGeometry(current, point => isInFrontOfHorizon(rectification.homography, point));
+    const countRemoved = (before: unknown[], after: unknown[], noun: string) => {
+      const count = before.length - after.length;
+      return count > 0 ? [`${count} ${noun}${count === 1 ? '' : 's'}`] : [];
+    };
+    const removed = [
+      ...shapes.flatMap((shape, index) => (kept.shapes.includes(shape) ? [] : [getShapeLabel(index)])),
+      ...countRemoved(heads, kept.heads, 'head'),
+      ...countRemoved(pipes, kept.pipes, 'pipe'),
+      ...measurements.flatMap((measurement, index) =>
+        kept.measurements.includes(measurement) ? [] : [measurement.label.trim() || `measurement ${index + 1}`]
+      ),
+      ...countRemoved(geoPoints, kept.geoPoints, 'control point'),
+      ...countRemoved(
+        [ruler, ...scaleReferences].filter(Boolean),
+        [kept.ruler, ...kept.scaleReferences].filter(Boolean),
+        'scale reference'
+      ),
+    ];
+    const warning = removed.length
+      ? ` These lie beyond the horizon of the corrected view and will be removed: ${removed.join(', ')}.`
+      : '';
+    if (
+      !window.confirm(`Correcting the perspective resamples the image and clears the undo history.${warning} Continue?`)
+    ) {
+      return;
+    }
+
+    try {
+      const rectifiedImage = await warpImage(image, rectification.homography, rectification.dimensions);
+      const plan = transformPlanGeometry(kept, point => applyHomography(rectification.homography, point), false);
+      const [first, second, third] = rectification.corners;
+      const nextRuler = { start: first, end: second, length: width, unit: rulerUnit };
+      const references: ScaleReference[] = [
+        { start: second, end: third, length: height, unit: rulerUnit, id: createId(), verifyOnly: false },
+        ...(plan.ruler ? [{ ...plan.ruler, id: createId(), verifyOnly: true }] : []),
+        ...plan.scaleReferences.map(reference => ({ ...reference, verifyOnly: true })),
+      ];
+      const fit = fitPlanScale(nextRuler, references, planUnit);
+      restorePlan({
+        ...plan,
+        ruler: nextRuler,
+        scaleReferences: references,
+        pixelRatio: fit ? fit.pixelRatio : convertLength(rectification.pixelRatio, rulerUnit, planUnit),
+      });
+      setImage(rectifiedImage);
+      setDimensions(rectification.dimensions);
+      setHistory(EMPTY_HISTORY);
+      setRectifyCorners([]);
+      setSelectedTool('select');
+    } catch (error) {
+      setPlanFileError(error instanceof Error ? error.message : 'Could not correct the perspective.');
+    }
+  };
+
+  const restorePlan = (snapshot: PlanSnapshot) => {
+    restoringRef.current = true;
+    setShapes(snapshot.shapes);
+    setRuler(snapshot.ruler);
+    // Snapshots saved before scale references existed don't list any.
+    setScaleReferences(snapshot.scaleReferences ?? []);
+    setPendingRuler(null);
+    setPixelRatio(snapshot.pixelRatio);
+    setHeads(snapshot.heads);
+    setPipes(snapshot.pipes);
+    setValveZones(snapshot.valveZones);
+    // Nor do snapshots saved before measurements existed.
+    setMeasurements(snapshot.measurements ?? []);
+    setGeoPoints(snapshot.geoPoints ?? []);
+    setCurrentMeasurement([]);
+    setCurrentShape([]);
+    setCurrentControls([]);
+    setSelectedShapeIndex(null);
+    setCurrentPipe([]);
+    setDraggedVertex(null);
+    setShowRulerPrompt(false);
+    setRulerLength('');
+  };
+
+  const handleUndo = () => {
+    const result = undoHistory(history, committedPlanRef.current);
+    if (!result) return;
+    setHistory(result.history);
+    restorePlan(result.snapshot);
+  };
+
+  const handleRedo = () => {
+    const result = redoHistory(history, committedPlanRef.current);
+    if (!result) return;
+    setHistory(result.history);
+    restorePlan(result.snapshot);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (viewerMode || !(e.ctrlKey || e.metaKey)) return;
+      // Leave text fields to their own undo.
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+
+      const key = e.key.toLowerCase();
+      if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      } else if (key === 'z') {
+        e.preventDefault();
+        handleUndo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const activeProject = projects.find(project => project.id === activeProjectId);
+
+  const getCurrentPlan = (): PlanDocument => ({
+    version: PLAN_VERSION,
+    unit: planUnit,
+    image,
+    dimensions,
+    shapes,
+    ruler,
+    scaleReferences,
+    pixelRatio,
+    heads,
+    pipes,
+    valveZones,
+    measurements,
+    geoPoints,
+    layers,
+    supply,
+    drip,
+    unitPrices,
+    schedule: scheduleSettings,
+  });
+
+  const applyProject = (id: string | null, data: ProjectData) => {
+    savedProjectRef.current = data;
+    restorePlan(data.plan);
+    setPlanUnit(data.plan.unit);
+    setImage(data.plan.image);
+    setDimensions(data.plan.dimensions);
+    setLayers(data.plan.layers);
+    setSupply(data.plan.supply);
+    setDrip(data.plan.drip);
+    setUnitPrices(data.plan.unitPrices);
+    setScheduleSettings(data.plan.schedule);
+    setHistory(data.history);
+    setActiveValveId(null);
+    setHoveredRegionIndex(null);
+    setDxfImport(null);
+    setHoverPosition(null);
+    setActiveProjectId(id);
+    if (id) localStorage.setItem('irrigationActiveProject', id);
+  };
+
+  const storeProject = async (id: string, data: ProjectData) => {
+    const summary = await saveProject(id, data, SHAPE_COLORS);
+    savedProjectRef.current = data;
+    if (summary) setProjects(prev => prev.map(project => (project.id === summary.id ? summary : project)));
+  };
+
+  // Saves the open project right away instead of waiting for the autosave.
+  const flushProject = async () => {
+    const saved = savedProjectRef.current;
+    const plan = getCurrentPlan();
+    if (!activeProjectId || (saved && isSamePlan(plan, saved.plan) && history === saved.history)) return;
+    await storeProject(activeProjectId, { plan, history });
+  };
+
+  const addProject = async (name: string, data: ProjectData) => {
+    const summary = { ...createProjectSummary(name), thumbnail: await renderThumbnail(data.plan, SHAPE_COLORS) };
+    await createProject(summary, data);
+    setProjects(prev => [...prev, summary]);
+    applyProject(summary.id, data);
+  };
+
+  const handleNewProject = async () => {
+    try {
+      await flushProject();
+      await addProject(`Plan ${projects.length + 1}`, { plan: createEmptyPlan(displayUnit), history: EMPTY_HISTORY });
+    } catch {
+      setPlanFileError('Could not create a new project.');
+    }
+  };
+
+  const handleDuplicateProject = async () => {
+    if (!activeProject) return;
+
+    try {
+      await flushProject();
+      await addProject(`${activeProject.name} (copy)`, { plan: getCurrentPlan(), history });
+    } catch {
+      setPlanFileError('Could not duplicate this project.');
+    }
+  };
+
+  const handleSwitchProject = async (id: string) => {
+    if (id === activeProjectId) return;
+
+    try {
+      await flushProject();
+      applyProject(id, await loadProject(id));
+    } catch {
+      setPlanFileError('Could not open that project.');
+    }
+  };
+
+  const handleRenameProject = async (name: string) => {
+    if (!activeProjectId) return;
+    setProjects(prev => prev.map(project => (project.id === activeProjectId ? { ...project, name } : project)));
+    try {
+      await renameProject(activeProjectId, name);
+    } catch {
+      setPlanFileError('Could not rename this project.');
+    }
+  };
+
+  const handleDeleteProject = async () => {
+    if (!activeProject || !window.confirm(`Delete ${activeProject.name}? This cannot be undone.`)) return;
+
+    try {
+      await deleteProject(activeProject.id);
+    } catch {
+      setPlanFileError(`Could not delete ${activeProject.name}.`);
+      return;
+    }
+
+    const remaining = projects.filter(project => project.id !== activeProject.id);
+    setProjects(remaining);
+    try {
+      if (remaining.length > 0) {
+        applyProject(remaining[0].id, await loadProject(remaining[0].id));
+      } else {
+        await addProject('Untitled Plan', { plan: createEmptyPlan(displayUnit), history: EMPTY_HISTORY });
+      }
+    } catch {
+      // The deleted project must not stay open, where edits would be lost.
+      applyProject(null, { plan: createEmptyPlan(displayUnit), history: EMPTY_HISTORY });
+      setPlanFileError(`${activeProject.name} was deleted, but the next project could not be opened.`);
+    }
+  };
+
+  // The whole plan, with a downscaled image or a blank background, packed
+  // into the link itself since the planner has no server to keep it on.
+  const handleShare = async () => {
+    if (!dimensions) return;
+    try {
+      const shared = await renderShareImage(shareIncludesImage ? image : null, dimensions);
+      const url = await createShareLink(
+        { ...getCurrentPlan(), image: shared },
+        `${window.location.origin}${window.location.pathname}`
+      );
+      // The clipboard is only there on secure pages and may be refused.
+      const copied = navigator.clipboard ? await navigator.clipboard.writeText(url).then(() => true, () => false) : false;
+      setShareLink({ url, copied });
+    } catch {
+      setPlanFileError('Could not create a share link for this plan.');
+    }
+  };
+
+  const handleKeepSharedPlan = async () => {
+    const plan = getCurrentPlan();
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+    setViewerMode(false);
+    try {
+      setProjects(await listProjects());
+      await addProject('Shared Plan', { plan, history: EMPTY_HISTORY });
+    } catch {
+      setPlanFileError('Could not open the project library. Plans will not be saved in this browser.');
+    }
+  };
+
+  const handleSavePlan = () => {
+    downloadFile(`irrigation-plan${PLAN_FILE_EXTENSION}`, toPlanFile(getCurrentPlan()), 'application/json');
+  };
+
+  const getPrintSheet = (): PrintSheet => ({
+    plan: getCurrentPlan(),
+    title: activeProject?.name || 'Irrigation Plan',
+    colors: SHAPE_COLORS,
+    areaRows: shapes.flatMap((shape, index) =>
+      shape.type === 'delete' ? [] : [{ name: getShapeLabel(index), type: shape.type, area: formatArea(shape.area) }]
+    ),
+    areaTotals: (['regular', 'drip', 'exclusion'] as const).map(type => ({
+      label: `${ZONE_TYPE_LABELS[type]} Zones`,
+      area: formatArea(calculateTotalArea(type)),
+    })),
+    measurementLabels: measurements.map(measurement =>
+      formatMeasurementLabel(measurement, pixelRatio ? formatLength(getMeasurementLength(measurement, pixelRatio)) : null)
+    ),
+    displayUnit,
+    northAngle: georeference ? getNorthAngle(georeference) : 0,
+  });
+
+  const handleExportSvg = () => {
+    downloadFile('irrigation-plan.svg', renderPlanSvg(getPrintSheet()).svg, 'image/svg+xml');
+  };
+
+  const handleExportPng = async () => {
+    try {
+      const png = await renderPlanPng(getPrintSheet());
+      downloadFile('irrigation-plan.png', binaryToBytes(dataUrlToBinary(png)), 'image/png');
+    } catch {
+      setPlanFileError('Could not export the plan as PNG.');
+    }
+  };
+
+  // Letter paper for imperial plans, A4 for metric.
+  const handleExportPdf = async () => {
+    try {
+      const pdf = await createPlanPdf(getPrintSheet(), unitSystem === 'metric' ? 'a4' : 'letter');
+      downloadFile('irrigation-plan.pdf', binaryToBytes(pdf), 'application/pdf');
+    } catch {
+      setPlanFileError('Could not export the plan as PDF.');
+    }
+  };
+
+  const handleExportDxf = () => {
+    if (!pixelRatio) return;
+    downloadFile('irrigation-zones.dxf', toDxf(shapes, pixelRatio, planUnit), 'application/dxf');
+  };
+
+  // DXF coordinates are real lengths, so the scale has to be set first.
+  const handleOpenDxf = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    if (!pixelRatio) {
+      setPlanFileError('Set the scale with the ruler before importing a DXF file.');
+      return;
+    }
+
+    try {
+      const drawing = parseDxf(await file.text());
+      if (drawing.polylines.length === 0) throw new DxfError('It has no closed polylines.');
+      const layers = Array.from(new Set(drawing.polylines.map(polyline => polyline.layer)));
+      setDxfImport({
+        fileName: file.name,
+        drawing,
+        layerTypes: Object.fromEntries(layers.map(layer => [layer, guessLayerType(layer)])),
+      });
+    } catch (error) {
+      setPlanFileError(
+        error instanceof DxfError ? `Could not import ${file.name}: ${error.message}` : `Could not read ${file.name}.`
+      );
+    }
+  };
+
+  const handleImportDxf = () => {
+    if (!dxfImport || !pixelRatio || !dimensions) return;
+    try {
+      const imported = getDxfShapes(dxfImport.drawing, dxfImport.layerTypes, pixelRatio, planUnit, dimensions);
+      setShapes(prev => [...prev, ...imported]);
+    } catch (error) {
+      setPlanFileError(
+        error instanceof DxfError
+          ? `Could not import ${dxfImport.fileName}: ${error.message}`
+          : `Could not import ${dxfImport.fileName}.`
+      );
+    }
+    setDxfImport(null);
+  };
+
+  // Opened files become a new project named after the file.
+  const handleOpenPlan = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const plan = parsePlanFile(await file.text());
+      await flushProject();
+      await addProject(file.name.replace(/(\.irrigation)?\.json$/, ''), { plan, history: EMPTY_HISTORY });
+    } catch (error) {
+      setPlanFileError(
+        error instanceof PlanFileError ? `Could not open ${file.name}: ${error.message}` : `Could not read ${file.name}.`
+      );
+    }
+  };
+
+  const handleClearAll = async () => {
+    const data = { plan: createEmptyPlan(displayUnit), history: EMPTY_HISTORY };
+    try {
+      if (activeProjectId) await storeProject(activeProjectId, data);
+    } catch {
+      setPlanFileError('Could not clear this plan.');
+      return;
+    }
+    applyProject(activeProjectId, data);
+  };
+
+  const handleTouchStart = (e: React.TouchEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+
+    // A second finger turns whatever the first one started into a pinch.
+    if (e.touches.length === 2) {
+      setPinchStart({ touches: getTouchPair(e), view });
+      setPanStart(null);
+      setDraggedVertex(null);
+      setStartPoint(null);
+      setCurrentPath([]);
+      return;
+    }
+    if (pinchStart) return;
+
+    if (selectedTool === 'pan' || viewerMode) {
+      setPanStart({ screen: getScreenPoint(e), view });
+      return;
+    }
+
+    const { point } = resolveDrawingPoint(getCanvasPoint(e), e.shiftKey);
+    if (selectedTool === 'select') {
+      startVertexDrag(point);
+    }
+    setStartPoint(point);
+  };
+
+  const handleTouchMove = (e: React.TouchEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    const canvas = canvasRef.current;
+    if (!canvas || !dimensions) return;
+
+    if (pinchStart) {
+      if (e.touches.length === 2) setView(pinchView(pinchStart.view, pinchStart.touches, getTouchPair(e)));
+      return;
+    }
+    if (panStart) {
+      panTo(getScreenPoint(e));
+      return;
+    }
+
+    const point = getCanvasPoint(e);
+
+    if (draggedVertex) {
+      dragVertexTo(point);
+      return;
+    }
+
+    const { point: currentPoint, snap } = resolveDrawingPoint(point, e.shiftKey);
+    setSnapTarget(snap);
+    setCursorPoint(currentPoint);
+
+    if (startPoint && !POINT_TOOLS.includes(selectedTool)) {
+      previewGesture(startPoint, currentPoint, point);
+    } else {
+      const regionIndex = findHoveredRegion(point);
+
+      if (regionIndex !== hoveredRegionIndex) {
+        setHoveredRegionIndex(regionIndex !== -1 ? regionIndex : null);
+        setHoverPosition(regionIndex !== -1 ? currentPoint : null);
+      }
+    }
+  };
+
+  const handleTouchEnd = (e: React.TouchEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    if (pinchStart) {
+      if (e.touches.length === 0) setPinchStart(null);
+      return;
+    }
+    if (panStart) {
+      setPanStart(null);
+      return;
+    }
+    if (!startPoint) return;
+
+    const { point: currentPoint } = resolveDrawingPoint(getCanvasPoint(e), e.shiftKey);
+    setSnapTarget(null);
+
+    if (selectedTool === 'ruler') {
+      setPendingRuler({ start: startPoint, end: currentPoint });
+      setRulerUse(ruler ? 'reference' : 'scale');
+      setShowRulerPrompt(true);
+    } else if (selectedTool === 'rectify') {
+      setRectifyCorners(prev => (prev.length < 4 ? [...prev, currentPoint] : prev));
+    } else if (selectedTool === 'georeference') {
+      addGeoPoint(currentPoint);
+    } else if (selectedTool === 'delete') {
+      deleteAtPoint(currentPoint);
+    } else if (selectedTool === 'head') {
+      placeHead(currentPoint);
+    } else if (selectedTool === 'valve') {
+      assignHeadAtPoint(currentPoint);
+    } else if (selectedTool === 'pipe') {
+      addPipePoint(startPoint, currentPoint);
+    } else if (selectedTool === 'measure') {
+      addMeasurementPoint(startPoint, currentPoint);
+    } else if (selectedTool === 'select') {
+      finishVertexEdit(currentPoint);
+    } else if (selectedTool !== 'pan') {
+      addShapePoint(selectedTool, startPoint, currentPoint);
+    }
+
+    setStartPoint(null);
+    setCurrentPath([]);
+  };
+
+  const handleTouchCancel = () => {
+    setSnapTarget(null);
+    setDragTrail([]);
+    setPinchStart(null);
+    setPanStart(null);
+    setDraggedVertex(null);
+    setStartPoint(null);
+    setCurrentPath([]);
+    setHoveredRegionIndex(null);
+    setHoverPosition(null);
   };
 
   return (
@@ -594,19 +2291,158 @@ function App() {
         </a>
       </div>
 
+      {projects.length > 0 && (
+        <div className="project-library">
+          <div className="project-cards">
+            {projects.map(project => (
+              <button
+                key={project.id}
+                className={`project-card ${project.id === activeProjectId ? 'active' : ''}`}
+                onClick={() => handleSwitchProject(project.id)}
+                title={project.name}
+              >
+                {project.thumbnail ? (
+                  <img src={project.thumbnail} alt="" className="project-thumbnail" />
+                ) : (
+                  <div className="project-thumbnail" />
+                )}
+                <span className="project-name">{project.name}</span>
+              </button>
+            ))}
+          </div>
+          {activeProject && (
+            <div className="project-actions">
+              <input
+                type="text"
+                value={activeProject.name}
+                onChange={e => handleRenameProject(e.target.value)}
+                className="valve-name-input"
+                aria-label="Project name"
+              />
+              <button onClick={handleNewProject} className="history-button">
+                New Project
+              </button>
+              <button onClick={handleDuplicateProject} className="history-button">
+                Duplicate
+              </button>
+              <button onClick={handleDeleteProject} className="history-button">
+                Delete Project
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       <div className="upload-section">
-        <input type="file" accept="image/*" onChange={handleImageUpload} className="file-input" />
-        {shapes.length > 0 && (
+        {viewerMode ? (
+          <>
+            <span className="viewer-note">Viewing a shared plan. Copy it to your projects to change it.</span>
+            <button onClick={handleKeepSharedPlan} className="history-button">
+              Copy to My Projects
+            </button>
+          </>
+        ) : (
+          <>
+            <input type="file" accept="image/*" onChange={handleImageUpload} className="file-input" />
+            <button
+              onClick={handleUndo}
+              className="history-button"
+              disabled={history.past.length === 0}
+              title="Ctrl+Z"
+            >
+              Undo
+            </button>
+            <button
+              onClick={handleRedo}
+              className="history-button"
+              disabled={history.future.length === 0}
+              title="Ctrl+Shift+Z"
+            >
+              Redo
+            </button>
+            <button onClick={handleSavePlan} className="history-button">
+              Save Plan
+            </button>
+            <label className="history-button">
+              Open Plan
+              <input type="file" accept=".json,application/json" onChange={handleOpenPlan} hidden />
+            </label>
+            {image && (
+              <label className="history-button">
+                Import DXF
+                <input type="file" accept=".dxf" onChange={handleOpenDxf} hidden />
+              </label>
+            )}
+            <button onClick={handleShare} className="history-button" disabled={!dimensions}>
+              Share
+            </button>
+            <label className="share-option" title="Send a downscaled copy of the image with the plan">
+              <input
+                type="checkbox"
+                checked={shareIncludesImage}
+                onChange={e => setShareIncludesImage(e.target.checked)}
+              />
+              with image
+            </label>
+          </>
+        )}
+        <select
+          value={unitSystem}
+          onChange={e => handleUnitSystemChange(e.target.value as UnitSystem)}
+          className="ruler-unit-select"
+          title="Units lengths, areas, flows and pressures are shown in"
+        >
+          {(Object.keys(UNIT_SYSTEM_LABELS) as UnitSystem[]).map(system => (
+            <option key={system} value={system}>
+              {UNIT_SYSTEM_LABELS[system]}
+            </option>
+          ))}
+        </select>
+        {!viewerMode && (shapes.length > 0 || heads.length > 0 || pipes.length > 0 || measurements.length > 0) && (
           <button onClick={handleClearAll} className="clear-all-button">
             Clear All
           </button>
         )}
       </div>
 
+      {planFileError && (
+        <div className="plan-file-error">
+          <span>{planFileError}</span>
+          <button onClick={() => setPlanFileError(null)} className="history-button">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {shareLink && (
+        <div className="share-link">
+          <span>
+            {shareLink.copied ? 'Link copied. Anyone with it can view this plan:' : 'Copy this link to share the plan:'}
+          </span>
+          <input readOnly value={shareLink.url} onFocus={e => e.target.select()} className="share-link-input" />
+          <button onClick={() => setShareLink(null)} className="history-button">
+            Dismiss
+          </button>
+        </div>
+      )}
+
       <div className="workspace">
         {image ? (
           <div className="image-container" ref={containerRef}>
-            <img src={image} alt="Backyard plan" className="backyard-plan" />
+            <img
+              src={image}
+              alt="Backyard plan"
+              className="backyard-plan"
+              style={
+                dimensions
+                  ? {
+                      width: dimensions.width,
+                      height: dimensions.height,
+                      transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+                    }
+                  : undefined
+              }
+            />
             {dimensions && (
               <canvas
                 ref={canvasRef}
@@ -614,67 +2450,486 @@ function App() {
                 onMouseMove={handleMouseMove}
                 onMouseUp={handleMouseUp}
                 onMouseLeave={handleMouseLeave}
-                onClick={handleCanvasClick}
+                onDoubleClick={handleCanvasDoubleClick}
                 onTouchStart={handleTouchStart}
                 onTouchMove={handleTouchMove}
                 onTouchEnd={handleTouchEnd}
                 onTouchCancel={handleTouchCancel}
                 className="drawing-layer"
-                style={{ touchAction: 'none' }}
+                style={{ touchAction: 'none', cursor: selectedTool === 'pan' || panStart ? 'grab' : undefined }}
               />
             )}
+            {dimensions && (
+              <div className="view-controls">
+                <button onClick={() => handleZoom(ZOOM_STEP)} className="view-button" title="Zoom in">
+                  +
+                </button>
+                <button onClick={() => handleZoom(1 / ZOOM_STEP)} className="view-button" title="Zoom out">
+                  −
+                </button>
+                <button onClick={handleZoomToFit} className="view-button" title="Zoom to fit">
+                  Fit
+                </button>
+                <span className="view-zoom">{Math.round(view.scale * 100)}%</span>
+              </div>
+            )}
+            {dimensions && (
+              <div className="minimap" style={{ width: MINIMAP_WIDTH, height: dimensions.height * minimapScale }}>
+                <img src={image} alt="" className="minimap-image" />
+                <canvas
+                  ref={minimapRef}
+                  width={MINIMAP_WIDTH}
+                  height={Math.round(dimensions.height * minimapScale)}
+                  onClick={handleMinimapClick}
+                  className="minimap-layer"
+                />
+              </div>
+            )}
           </div>
         ) : (
           <div className="placeholder">Upload your backyard plan image to get started</div>
         )}
+        {!viewerMode && selectedShape && selectedShapeIndex !== null && (
+          <aside className="zone-details">
+            <h3>{getShapeLabel(selectedShapeIndex)}</h3>
+            <p className="zone-label">
+              {ZONE_TYPE_LABELS[selectedShape.type]} zone, {formatArea(selectedShape.area)}
+            </p>
+            <label className="head-setting">
+              Name
+              <input
+                value={selectedShape.name ?? ''}
+                placeholder="e.g. Front Lawn"
+                onChange={e => handleUpdateShape(selectedShapeIndex, { name: e.target.value || undefined })}
+              />
+            </label>
+            <label className="head-setting">
+              Plants
+              <select
+                value={selectedShape.plant ?? ''}
+                onChange={e =>
+                  handleUpdateShape(selectedShapeIndex, { plant: (e.target.value || undefined) as PlantCategory })
+                }
+              >
+                <option value="">Not set</option>
+                {(Object.keys(PLANT_LABELS) as PlantCategory[]).map(plant => (
+                  <option key={plant} value={plant}>
+                    {PLANT_LABELS[plant]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="head-setting">
+              Soil
+              <select
+                value={selectedShape.soil ?? ''}
+                onChange={e => handleUpdateShape(selectedShapeIndex, { soil: (e.target.value || undefined) as SoilType })}
+              >
+                <option value="">Not set</option>
+                {(Object.keys(SOIL_LABELS) as SoilType[]).map(soil => (
+                  <option key={soil} value={soil}>
+                    {SOIL_LABELS[soil]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="head-setting">
+              Sun
+              <select
+                value={selectedShape.sun ?? ''}
+                onChange={e => handleUpdateShape(selectedShapeIndex, { sun: (e.target.value || undefined) as SunExposure })}
+              >
+                <option value="">Not set</option>
+                {(Object.keys(SUN_LABELS) as SunExposure[]).map(sun => (
+                  <option key={sun} value={sun}>
+                    {SUN_LABELS[sun]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="head-setting">
+              Slope (%)
+              <input
+                type="number"
+                min="0"
+                value={selectedShape.slope ?? ''}
+                onChange={e => {
+                  const slope = parseFloat(e.target.value);
+                  handleUpdateShape(selectedShapeIndex, { slope: isNaN(slope) ? undefined : slope });
+                }}
+              />
+            </label>
+            <button onClick={() => setSelectedShapeIndex(null)} className="valve-button">
+              Close
+            </button>
+          </aside>
+        )}
       </div>
 
       <div className="tools-panel">
-        <h2>Drawing Tools</h2>
+        <h2>{viewerMode ? 'View' : 'Drawing Tools'}</h2>
         <div className="tool-buttons">
-          <button
-            className={`tool-button ${selectedTool === 'regular' ? 'active' : ''}`}
-            onClick={() => setSelectedTool('regular')}
-          >
-            Regular Zone
-          </button>
-          <button
-            className={`tool-button ${selectedTool === 'exclusion' ? 'active' : ''}`}
-            onClick={() => setSelectedTool('exclusion')}
-          >
-            Exclusion Zone
-          </button>
-          <button
-            className={`tool-button ${selectedTool === 'drip' ? 'active' : ''}`}
-            onClick={() => setSelectedTool('drip')}
-          >
-            Drip Zone
-          </button>
-          <button
-            className={`tool-button ${selectedTool === 'ruler' ? 'active' : ''}`}
-            onClick={() => setSelectedTool('ruler')}
-          >
-            Ruler
-          </button>
-          <button
-            className={`tool-button ${selectedTool === 'delete' ? 'active' : ''}`}
-            onClick={() => setSelectedTool('delete')}
-          >
-            Delete
-          </button>
+          {!viewerMode && (
+            <>
+              <button
+                className={`tool-button ${selectedTool === 'regular' ? 'active' : ''}`}
+                onClick={() => setSelectedTool('regular')}
+              >
+                Regular Zone
+              </button>
+              <button
+                className={`tool-button ${selectedTool === 'exclusion' ? 'active' : ''}`}
+                onClick={() => setSelectedTool('exclusion')}
+              >
+                Exclusion Zone
+              </button>
+              <button
+                className={`tool-button ${selectedTool === 'drip' ? 'active' : ''}`}
+                onClick={() => setSelectedTool('drip')}
+              >
+                Drip Zone
+              </button>
+              <button
+                className={`tool-button ${selectedTool === 'ruler' ? 'active' : ''}`}
+                onClick={() => setSelectedTool('ruler')}
+              >
+                Ruler
+              </button>
+              <button
+                className={`tool-button ${selectedTool === 'measure' ? 'active' : ''}`}
+                onClick={() => setSelectedTool('measure')}
+              >
+                Measure
+              </button>
+              <button
+                className={`tool-button ${selectedTool === 'rectify' ? 'active' : ''}`}
+                onClick={() => setSelectedTool('rectify')}
+                disabled={!image}
+              >
+                Correct Perspective
+              </button>
+              <button
+                className={`tool-button ${selectedTool === 'georeference' ? 'active' : ''}`}
+                onClick={() => setSelectedTool('georeference')}
+                disabled={!image}
+              >
+                Georeference
+              </button>
+              <button
+                className={`tool-button ${selectedTool === 'head' ? 'active' : ''}`}
+                onClick={() => setSelectedTool('head')}
+              >
+                Sprinkler Head
+              </button>
+              <button
+                className={`tool-button ${selectedTool === 'pipe' ? 'active' : ''}`}
+                onClick={() => setSelectedTool('pipe')}
+              >
+                Pipe
+              </button>
+              <button
+                className={`tool-button ${selectedTool === 'pan' ? 'active' : ''}`}
+                onClick={() => setSelectedTool('pan')}
+              >
+                Pan
+              </button>
+              <button
+                className={`tool-button ${selectedTool === 'select' ? 'active' : ''}`}
+                onClick={() => setSelectedTool('select')}
+              >
+                Edit Shapes
+              </button>
+              <button
+                className={`tool-button ${selectedTool === 'delete' ? 'active' : ''}`}
+                onClick={() => setSelectedTool('delete')}
+              >
+                Delete
+              </button>
+            </>
+          )}
           <button
             className={`tool-button toggle ${showHover ? 'active' : ''}`}
             onClick={() => setShowHover(!showHover)}
           >
             Show Areas
           </button>
+          <button
+            className={`tool-button toggle ${showPrecipitation ? 'active' : ''}`}
+            onClick={() => setShowPrecipitation(!showPrecipitation)}
+          >
+            Show Precipitation
+          </button>
         </div>
+        {ZONE_TOOLS.includes(selectedTool) && (
+          <div className="head-settings">
+            <div className="tool-buttons">
+              {(Object.keys(SHAPE_MODES) as ShapeMode[]).map(mode => (
+                <button
+                  key={mode}
+                  className={`tool-button ${shapeMode === mode ? 'active' : ''}`}
+                  onClick={() => handleShapeModeChange(mode)}
+                >
+                  {SHAPE_MODES[mode].label}
+                </button>
+              ))}
+            </div>
+            <p className="head-settings-hint">{SHAPE_MODES[shapeMode].hint}</p>
+          </div>
+        )}
+        {['regular', 'exclusion', 'drip', 'pipe', 'measure'].includes(selectedTool) && (
+          <form className="head-settings" onSubmit={handleSegmentLengthSubmit}>
+            <p className="head-settings-hint">
+              Points snap to nearby vertices and edges; hold Shift to lock segments to 45° steps.
+            </p>
+            {pixelRatio && getOpenPath().length > 0 && (
+              <>
+                <label className="head-setting">
+                  Next segment ({displayUnit})
+                  <input
+                    type="number"
+                    min="0"
+                    value={segmentLength}
+                    onChange={e => setSegmentLength(e.target.value)}
+                  />
+                </label>
+                <button type="submit" className="valve-button">
+                  Add Point
+                </button>
+              </>
+            )}
+          </form>
+        )}
+        {selectedTool === 'rectify' && (
+          <div className="head-settings">
+            <p className="head-settings-hint">
+              Click the four corners of something rectangular you know the size of, such as a patio, in order around
+              it ({rectifyCorners.length} of 4 marked). The photo is redrawn as seen from straight above.
+            </p>
+            <label className="head-setting">
+              Width, corner 1 to 2
+              <input type="number" min="0" value={rectifyWidth} onChange={e => setRectifyWidth(e.target.value)} />
+            </label>
+            <label className="head-setting">
+              Height, corner 2 to 3
+              <input type="number" min="0" value={rectifyHeight} onChange={e => setRectifyHeight(e.target.value)} />
+            </label>
+            <select
+              value={rulerUnit}
+              onChange={e => setRulerUnit(e.target.value as 'ft' | 'm')}
+              className="head-type-select"
+            >
+              <option value="ft">feet</option>
+              <option value="m">meters</option>
+            </select>
+            <button
+              onClick={handleRectifyImage}
+              className="valve-button"
+              disabled={rectifyCorners.length < 4 || !rectifyWidth || !rectifyHeight}
+            >
+              Correct Perspective
+            </button>
+            <button
+              onClick={() => setRectifyCorners([])}
+              className="valve-button"
+              disabled={rectifyCorners.length === 0}
+            >
+              Clear Corners
+            </button>
+          </div>
+        )}
+        {selectedTool === 'georeference' && (
+          <div className="head-settings">
+            <p className="head-settings-hint">
+              Enter the latitude and longitude of a spot you can find on the image, such as a property corner, then
+              click it. Two points place the plan on a map; more average out errors.
+            </p>
+            <label className="head-setting">
+              Latitude
+              <input type="number" step="any" value={geoLatitude} onChange={e => setGeoLatitude(e.target.value)} />
+            </label>
+            <label className="head-setting">
+              Longitude
+              <input type="number" step="any" value={geoLongitude} onChange={e => setGeoLongitude(e.target.value)} />
+            </label>
+          </div>
+        )}
+        {selectedTool === 'select' && (
+          <p className="head-settings-hint">
+            Click a zone to edit its details, drag a vertex to move it, click an edge to add a vertex, double-click a
+            vertex to remove it.
+          </p>
+        )}
+        {selectedTool === 'pipe' && (
+          <div className="head-settings">
+            <p className="head-settings-hint">Click to add pipe points; click the last point again to finish.</p>
+            <select
+              value={pipeKind}
+              onChange={e => setPipeKind(e.target.value as PipeKind)}
+              className="head-type-select"
+            >
+              {(Object.keys(PIPE_KIND_LABELS) as PipeKind[]).map(kind => (
+                <option key={kind} value={kind}>
+                  {PIPE_KIND_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={pipeMaterial}
+              onChange={e => handlePipeMaterialChange(e.target.value as PipeMaterial)}
+              className="head-type-select"
+            >
+              {(Object.keys(PIPE_MATERIALS) as PipeMaterial[]).map(material => (
+                <option key={material} value={material}>
+                  {PIPE_MATERIALS[material].label}
+                </option>
+              ))}
+            </select>
+            <select value={pipeSize} onChange={e => setPipeSize(e.target.value)} className="head-type-select">
+              {Object.keys(PIPE_MATERIALS[pipeMaterial].sizes).map(size => (
+                <option key={size} value={size}>
+                  {size}"
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => finishPipe(currentPipe)}
+              disabled={currentPipe.length < 2}
+              className="auto-place-button"
+            >
+              Finish Pipe
+            </button>
+          </div>
+        )}
+        {selectedTool === 'measure' && (
+          <div className="head-settings">
+            <p className="head-settings-hint">
+              Click to add points along a distance to measure; click the last point again to finish. Measurements
+              never change the scale.
+            </p>
+            <input
+              type="text"
+              value={measurementLabel}
+              onChange={e => setMeasurementLabel(e.target.value)}
+              placeholder="Label, e.g. Hose run"
+              className="valve-name-input"
+            />
+            {pixelRatio && currentMeasurement.length > 1 && (
+              <span className="head-settings-hint">
+                So far: {formatLength(calculatePathPixelLength(currentMeasurement) * pixelRatio)}
+              </span>
+            )}
+            <button
+              onClick={() => finishMeasurement(currentMeasurement)}
+              disabled={currentMeasurement.length < 2}
+              className="auto-place-button"
+            >
+              Finish Measurement
+            </button>
+          </div>
+        )}
+        {selectedTool === 'valve' && (
+          <p className="head-settings-hint">
+            Click heads to add them to or remove them from{' '}
+            {valveZones.find(valve => valve.id === activeValveId)?.name ?? 'the valve zone'}.
+          </p>
+        )}
+        {selectedTool === 'head' && (
+          <div className="head-settings">
+            {!pixelRatio && <p className="head-settings-hint">Set the scale with the ruler before placing heads.</p>}
+            <select
+              value={headType}
+              onChange={e => handleHeadTypeChange(e.target.value as HeadType)}
+              className="head-type-select"
+            >
+              {(Object.keys(HEAD_LABELS) as HeadType[]).map(type => (
+                <option key={type} value={type}>
+                  {HEAD_LABELS[type]}
+                </option>
+              ))}
+            </select>
+            <label className="head-setting">
+              Radius ({displayUnit})
+              <input type="number" min="0" value={headRadius} onChange={e => setHeadRadius(e.target.value)} />
+            </label>
+            {headType !== 'strip' && (
+              <label className="head-setting">
+                Arc (°)
+                <input type="number" min="0" max="360" value={headArc} onChange={e => setHeadArc(e.target.value)} />
+              </label>
+            )}
+            <label className="head-setting">
+              Rotation (°)
+              <input type="number" value={headRotation} onChange={e => setHeadRotation(e.target.value)} />
+            </label>
+            <label className="head-setting">
+              Flow ({FLOW_UNITS[displayUnit]})
+              <input
+                type="number"
+                min="0"
+                value={headFlow}
+                placeholder={headFlowEstimate}
+                onChange={e => setHeadFlow(e.target.value)}
+              />
+            </label>
+            <div className="auto-place">
+              <select
+                value={autoPlaceZone}
+                onChange={e => setAutoPlaceZone(e.target.value)}
+                className="head-type-select"
+              >
+                <option value="">Select a regular zone</option>
+                {regularZoneOptions.map(({ shape, index }) => (
+                  <option key={shape.id} value={shape.id}>
+                    {getShapeLabel(index)}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={autoPlaceNozzleId}
+                onChange={e => setAutoPlaceNozzleId(e.target.value)}
+                className="head-type-select"
+              >
+                {NOZZLE_CATALOG.map(nozzle => (
+                  <option key={nozzle.id} value={nozzle.id}>
+                    {nozzle.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={autoPlacePattern}
+                onChange={e => setAutoPlacePattern(e.target.value as LayoutPattern)}
+                className="head-type-select"
+              >
+                <option value="triangular">Triangular grid</option>
+                <option value="square">Square grid</option>
+              </select>
+              <button
+                onClick={handleAutoPlaceHeads}
+                disabled={!pixelRatio || !shapes.some(shape => shape.id === autoPlaceZone)}
+                className="auto-place-button"
+              >
+                Auto-place Heads
+              </button>
+            </div>
+          </div>
+        )}
       </div>
 
       {showRulerPrompt && (
         <div className="ruler-prompt">
           <h3>Enter Ruler Length</h3>
           <div className="ruler-inputs">
+            {ruler && (
+              <select
+                value={rulerUse}
+                onChange={e => setRulerUse(e.target.value as typeof rulerUse)}
+                className="ruler-unit-select"
+              >
+                <option value="scale">Replace the ruler</option>
+                <option value="reference">Add a calibration reference</option>
+                <option value="verify">Only check the scale</option>
+              </select>
+            )}
             <input
               type="number"
               value={rulerLength}
@@ -691,27 +2946,711 @@ function App() {
               <option value="m">meters</option>
             </select>
             <button onClick={handleRulerSubmit} className="ruler-submit-button">
-              Set Scale
+              {rulerUse === 'verify' && ruler ? 'Check Scale' : 'Set Scale'}
+            </button>
+            <button onClick={handleCancelRuler} className="history-button">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {dxfImport && (
+        <div className="ruler-prompt">
+          <h3>Import {dxfImport.fileName}</h3>
+          <p className="valve-hint">Choose what the closed polylines on each layer become.</p>
+          {Object.entries(dxfImport.layerTypes).map(([layer, type]) => (
+            <div key={layer} className="dxf-layer-item">
+              <span className="zone-label">
+                {layer} ({dxfImport.drawing.polylines.filter(polyline => polyline.layer === layer).length})
+              </span>
+              <select
+                value={type}
+                onChange={e =>
+                  setDxfImport({
+                    ...dxfImport,
+                    layerTypes: { ...dxfImport.layerTypes, [layer]: e.target.value as DxfLayerType },
+                  })
+                }
+                className="ruler-unit-select"
+              >
+                <option value="regular">{ZONE_TYPE_LABELS.regular} Zone</option>
+                <option value="drip">{ZONE_TYPE_LABELS.drip} Zone</option>
+                <option value="exclusion">{ZONE_TYPE_LABELS.exclusion} Zone</option>
+                <option value="skip">Skip</option>
+              </select>
+            </div>
+          ))}
+          <div className="ruler-inputs">
+            <button onClick={handleImportDxf} className="ruler-submit-button">
+              Import Zones
+            </button>
+            <button onClick={() => setDxfImport(null)} className="history-button">
+              Cancel
             </button>
           </div>
         </div>
       )}
 
-      {shapes.length > 0 && (
-        <div className="zone-areas">
-          <h3>Zone Areas</h3>
-          <div className="zone-area-item regular">
-            <span className="zone-label">Regular Zones:</span>
-            <span className="zone-value">{formatArea(calculateTotalArea('regular'))}</span>
+      <div className="summary-panels">
+        {dimensions && (
+          <div className="layer-list">
+            <h3>Layers</h3>
+            {[...layers].reverse().map((layer, i) => (
+              <div key={layer.id} className={`layer-item ${layer.visible ? '' : 'hidden'}`}>
+                <span className="zone-label">{LAYER_LABELS[layer.id]}</span>
+                <label className="layer-option">
+                  <input
+                    type="checkbox"
+                    checked={layer.visible}
+                    onChange={e => handleUpdateLayer(layer.id, { visible: e.target.checked })}
+                  />
+                  Visible
+                </label>
+                {!viewerMode && (
+                  <label className="layer-option">
+                    <input
+                      type="checkbox"
+                      checked={layer.locked}
+                      onChange={e => handleUpdateLayer(layer.id, { locked: e.target.checked })}
+                    />
+                    Locked
+                  </label>
+                )}
+                <label className="layer-option">
+                  Opacity
+                  <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    step="5"
+                    value={Math.round(layer.opacity * 100)}
+                    onChange={e => handleUpdateLayer(layer.id, { opacity: Number(e.target.value) / 100 })}
+                  />
+                </label>
+                <button
+                  onClick={() => setLayers(prev => moveLayer(prev, layer.id, 1))}
+                  disabled={i === 0}
+                  className="valve-button"
+                >
+                  Up
+                </button>
+                <button
+                  onClick={() => setLayers(prev => moveLayer(prev, layer.id, -1))}
+                  disabled={i === layers.length - 1}
+                  className="valve-button"
+                >
+                  Down
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {!viewerMode && ruler && scaleFit && (
+          <div className="scale-calibration">
+            <h3>Scale Calibration</h3>
+            <p className="valve-hint">
+              {scaleFit.model === 'uniform'
+                ? 'One scale in every direction.'
+                : `Fitted ${scaleFit.model === 'axes' ? 'separate x and y scales' : 'an affine scale'}, stretched ${(
+                    scaleFit.anisotropy * 100
+                  ).toFixed(1)}% in one direction.`}{' '}
+              Draw more lines with the ruler tool to add references in other directions or to check the scale.
+            </p>
+            {[{ ...ruler, id: 'ruler', verifyOnly: false }, ...scaleReferences].map((reference, index) => {
+              const { measured, error, relativeError } = checkReference(scaleFit, {
+                ...reference,
+                length: convertLength(reference.length, reference.unit, planUnit),
+              });
+              const offBy = Math.abs(relativeError) >= STRAIGHTEN_THRESHOLD;
+              return (
+                <div key={reference.id} className={`scale-reference-item ${offBy ? 'off' : ''}`}>
+                  <span className="zone-label">
+                    {index === 0 ? 'Ruler' : reference.verifyOnly ? `Check ${index}` : `Reference ${index}`}:{' '}
+                    {reference.length} {reference.unit}
+                  </span>
+                  <span className="zone-value">
+                    {formatLength(measured)} ({error >= 0 ? '+' : ''}
+                    {(relativeError * 100).toFixed(1)}%)
+                  </span>
+                  {index > 0 && (
+                    <button onClick={() => handleDeleteScaleReference(reference.id)} className="valve-button">
+                      Remove
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+            {scaleFit.anisotropy >= STRAIGHTEN_THRESHOLD && image && (
+              <>
+                <p className="valve-hint">
+                  Areas already use the fitted scale. Straighten the image to make lengths right in every direction.
+                </p>
+                <button onClick={handleStraightenImage} className="auto-place-button">
+                  Straighten Image
+                </button>
+              </>
+            )}
+          </div>
+        )}
+        {!viewerMode && measurements.length > 0 && (
+          <div className="measurement-list">
+            <h3>Measurements</h3>
+            {measurements.map(measurement => (
+              <div key={measurement.id} className="measurement-item">
+                <input
+                  type="text"
+                  value={measurement.label}
+                  onChange={e => handleUpdateMeasurement(measurement.id, { label: e.target.value })}
+                  placeholder="Label"
+                  className="valve-name-input"
+                />
+                <span className="zone-value">
+                  {pixelRatio ? formatLength(getMeasurementLength(measurement, pixelRatio)) : 'Set ruler first'}
+                </span>
+                <button onClick={() => handleDeleteMeasurement(measurement.id)} className="valve-button">
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {!viewerMode && geoPoints.length > 0 && (
+          <div className="georeference">
+            <h3>Georeference</h3>
+            {geoPoints.map((geoPoint, i) => (
+              <div key={geoPoint.id} className="geo-point-item">
+                <span className="zone-label">
+                  G{i + 1}: {geoPoint.lat.toFixed(6)}, {geoPoint.lon.toFixed(6)}
+                </span>
+                {georeference && geoPoints.length > 2 && (
+                  <span className="zone-value">
+                    off by {formatMeters(getGeoResiduals(georeference, geoPoints)[i])}
+                  </span>
+                )}
+                <button onClick={() => handleDeleteGeoPoint(geoPoint.id)} className="valve-button">
+                  Remove
+                </button>
+              </div>
+            ))}
+            {georeference ? (
+              <>
+                <p className="valve-hint">
+                  North is {getNorthAngle(georeference).toFixed(1)}° clockwise from the top of the image, at{' '}
+                  {formatMeters(getMetersPerPixel(georeference))} per pixel.
+                </p>
+                <div className="print-export-buttons">
+                  <button onClick={handleExportGeoJson} disabled={shapes.length === 0} className="auto-place-button">
+                    Export GeoJSON
+                  </button>
+                  <button onClick={handleExportKml} disabled={shapes.length === 0} className="auto-place-button">
+                    Export KML
+                  </button>
+                  <select
+                    value={geoImportType}
+                    onChange={e => setGeoImportType(e.target.value as typeof geoImportType)}
+                    className="ruler-unit-select"
+                  >
+                    <option value="exclusion">as {ZONE_TYPE_LABELS.exclusion} Zones</option>
+                    <option value="regular">as {ZONE_TYPE_LABELS.regular} Zones</option>
+                  </select>
+                  <label className="auto-place-button">
+                    Import GeoJSON
+                    <input
+                      type="file"
+                      accept=".geojson,.json,application/geo+json"
+                      onChange={handleImportGeoJson}
+                      hidden
+                    />
+                  </label>
+                </div>
+              </>
+            ) : (
+              <p className="valve-hint">Add another control point to place the plan on a map.</p>
+            )}
+          </div>
+        )}
+        {shapes.length > 0 && (
+          <div className="zone-areas">
+            <h3>Zone Areas</h3>
+            <div className="zone-area-item regular">
+              <span className="zone-label">Regular Zones:</span>
+              <span className="zone-value">{formatArea(calculateTotalArea('regular'))}</span>
+            </div>
+            <div className="zone-area-item drip">
+              <span className="zone-label">Drip Zones:</span>
+              <span className="zone-value">{formatArea(calculateTotalArea('drip'))}</span>
+            </div>
+            <div className="zone-area-item exclusion">
+              <span className="zone-label">Exclusion Zones:</span>
+              <span className="zone-value">{formatArea(calculateTotalArea('exclusion'))}</span>
+            </div>
+            {shapes.length > 0 && (
+              <>
+                <h4>Zones</h4>
+                {skippedShapes.length > 0 && (
+                  <p className="valve-hint">
+                    {skippedShapes.map(getShapeLabel).join(', ')} could not be combined with the other zones and{' '}
+                    {skippedShapes.length === 1 ? 'is' : 'are'} left out of the areas and coverage. Edit or redraw{' '}
+                    {skippedShapes.length === 1 ? 'its outline' : 'their outlines'}.
+                  </p>
+                )}
+                {shapes.map((shape, index) => (
+                  <div
+                    key={index}
+                    className={`zone-area-item ${shape.type} selectable ${index === selectedShapeIndex ? 'active' : ''}`}
+                    onClick={() => setSelectedShapeIndex(index)}
+                  >
+                    <span className="zone-label">
+                      {getShapeLabel(index)}
+                      {describeZone(shape) && <span className="zone-attributes">{describeZone(shape)}</span>}
+                    </span>
+                    <span className="zone-value">
+                      {formatArea(shape.area)}
+                      {skippedShapes.includes(index) && ' (left out)'}
+                    </span>
+                  </div>
+                ))}
+              </>
+            )}
+            {headCoverage.length > 0 && (
+              <>
+                <h4>Coverage and Precipitation</h4>
+                {zoneRegions
+                  .map((region, index) => ({ region, coverage: headCoverage[index], precipitation: zonePrecipitation[index] }))
+                  .filter(({ region }) => region.type === 'regular')
+                  .map(({ coverage, precipitation }, index) => (
+                    <div key={index} className="zone-area-item regular">
+                      <span className="zone-label">Regular Region {index + 1}:</span>
+                      <span className="zone-value">
+                        {formatCoverage(coverage)}
+                        {precipitation &&
+                          `, ${formatPrecipitation(precipitation.precipitationRate)}, DU ${(
+                            precipitation.distributionUniformity * 100
+                          ).toFixed(0)}%`}
+                      </span>
+                    </div>
+                  ))}
+              </>
+            )}
+          </div>
+        )}
+
+        {image && (
+          <div className="print-export">
+            <h3>Print and Export</h3>
+            <p className="valve-hint">
+              The plan with its legend, scale bar, north arrow and zone areas. PDFs fit the plan on one page and list
+              the areas on the pages after it.
+            </p>
+            <div className="print-export-buttons">
+              <button onClick={handleExportSvg} className="auto-place-button">
+                Export SVG
+              </button>
+              <button onClick={handleExportPng} className="auto-place-button">
+                Export PNG
+              </button>
+              <button onClick={handleExportPdf} className="auto-place-button">
+                Export PDF
+              </button>
+              <button
+                onClick={handleExportDxf}
+                disabled={!pixelRatio || shapes.length === 0}
+                className="auto-place-button"
+                title="Zone outlines in real units, one layer per zone type"
+              >
+                Export DXF
+              </button>
+            </div>
+          </div>
+        )}
+
+        {bomItems.length > 0 && (
+          <div className="bill-of-materials">
+            <h3>Bill of Materials</h3>
+            <table className="bom-table">
+              <thead>
+                <tr>
+                  <th>Item</th>
+                  <th>Qty</th>
+                  <th>Unit Price</th>
+                  <th>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bomItems.map(item => (
+                  <tr key={item.id}>
+                    <td>{item.description}</td>
+                    <td>
+                      {item.quantity} {item.unit}
+                    </td>
+                    <td>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={unitPrices[item.id] ?? ''}
+                        readOnly={viewerMode}
+                        onChange={e => handleUnitPriceChange(item.id, e.target.value)}
+                        className="bom-price-input"
+                      />
+                    </td>
+                    <td>{(item.quantity * (unitPrices[item.id] ?? 0)).toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td colSpan={3}>Estimated Cost</td>
+                  <td>{calculateBomTotal(bomItems, unitPrices).toFixed(2)}</td>
+                </tr>
+              </tfoot>
+            </table>
+            <button onClick={handleDownloadBom} className="auto-place-button">
+              Download CSV
+            </button>
+          </div>
+        )}
+      </div>
+
+      {(heads.length > 0 || shapes.some(shape => shape.type === 'drip')) && (
+        <div className="valve-zones">
+          <h3>Valve Zones</h3>
+          <div className="supply-settings">
+            <label className="head-setting">
+              Static Pressure ({PRESSURE_UNITS[displayUnit]})
+              <input
+                type="number"
+                min="0"
+                value={supply.staticPressure === null ? '' : toDisplayInput(supply.staticPressure, 'pressure')}
+                readOnly={viewerMode}
+                onChange={e =>
+                  setSupply(prev => ({ ...prev, staticPressure: parseQuantitySetting(e.target.value, 'pressure') }))
+                }
+              />
+            </label>
+            <label className="head-setting">
+              Available Flow ({FLOW_UNITS[displayUnit]})
+              <input
+                type="number"
+                min="0"
+                value={supply.availableFlow === null ? '' : toDisplayInput(supply.availableFlow, 'flow')}
+                readOnly={viewerMode}
+                onChange={e =>
+                  setSupply(prev => ({ ...prev, availableFlow: parseQuantitySetting(e.target.value, 'flow') }))
+                }
+              />
+            </label>
+            <label className="head-setting">
+              Emitter Flow ({EMITTER_FLOW_UNITS[displayUnit]})
+              <input
+                type="number"
+                min="0"
+                value={toDisplayInput(drip.emitterFlow, 'flow')}
+                readOnly={viewerMode}
+                onChange={e =>
+                  setDrip(prev => ({ ...prev, emitterFlow: parseQuantitySetting(e.target.value, 'flow') ?? 0 }))
+                }
+              />
+            </label>
+            <label className="head-setting">
+              Emitter Spacing ({displayUnit})
+              <input
+                type="number"
+                min="0"
+                value={toDisplayInput(drip.emitterSpacing, 'length')}
+                readOnly={viewerMode}
+                onChange={e =>
+                  setDrip(prev => ({ ...prev, emitterSpacing: parseQuantitySetting(e.target.value, 'length') ?? 0 }))
+                }
+              />
+            </label>
           </div>
-          <div className="zone-area-item drip">
-            <span className="zone-label">Drip Zones:</span>
-            <span className="zone-value">{formatArea(calculateTotalArea('drip'))}</span>
+          {!viewerMode && (
+            <div className="valve-seed">
+              <select value={valveSeed} onChange={e => setValveSeed(e.target.value)} className="head-type-select">
+                <option value="">Seed from a zone</option>
+                {seedableShapes.map(({ shape, index }) => (
+                  <option key={shape.id} value={shape.id}>
+                    {getShapeLabel(index)}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleCreateValveZone}
+                disabled={!shapes.some(shape => shape.id === valveSeed)}
+                className="auto-place-button"
+              >
+                Create Valve Zone
+              </button>
+            </div>
+          )}
+          {unassignedHeadCount > 0 && (
+            <p className="valve-hint">{unassignedHeadCount} heads are not assigned to a valve.</p>
+          )}
+          {valveZones.map((valve, index) => {
+            const flow = valveFlows[index];
+            const overloaded = supply.availableFlow !== null && flow > supply.availableFlow;
+            return (
+              <div
+                key={valve.id}
+                className={`valve-zone-item ${overloaded ? 'overloaded' : ''} ${
+                  activeValveId === valve.id && selectedTool === 'valve' ? 'active' : ''
+                }`}
+              >
+                <input
+                  value={valve.name}
+                  readOnly={viewerMode}
+                  onChange={e => handleRenameValveZone(valve.id, e.target.value)}
+                  className="valve-name-input"
+                />
+                <span className="zone-label">
+                  {valve.headIds.length} heads,{' '}
+                  {getValveShapes(valve, shapes).filter(shape => shape.type === 'drip').length} drip areas
+                </span>
+                <span className="zone-value">
+                  {pixelRatio ? formatFlow(flow) : 'Set ruler first'}
+                  {pixelRatio && supply.availableFlow !== null && ` of ${formatFlow(supply.availableFlow)}`}
+                  {overloaded && ' (overloaded)'}
+                </span>
+                {!viewerMode && (
+                  <>
+                    <button onClick={() => handleAssignHeads(valve.id)} className="valve-button">
+                      Assign Heads
+                    </button>
+                    <button onClick={() => handleDeleteValveZone(valve.id)} className="valve-button">
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {pipes.length > 0 && (
+        <div className="pipe-runs">
+          <h3>Pipes</h3>
+          {supply.staticPressure === null && (
+            <p className="valve-hint">Enter the static pressure under Valve Zones to check pressure at the far head.</p>
+          )}
+          {pipes.map((pipe, index) => {
+            const analysis = pipeAnalyses[index];
+            return (
+              <div key={pipe.id} className={`pipe-run-item ${analysis?.belowMinimum ? 'low-pressure' : ''}`}>
+                <span className="zone-label">
+                  {PIPE_KIND_LABELS[pipe.kind]} {index + 1}
+                </span>
+                <select
+                  value={pipe.material}
+                  disabled={viewerMode}
+                  onChange={e => {
+                    const material = e.target.value as PipeMaterial;
+                    const sizes = PIPE_MATERIALS[material].sizes;
+                    handleUpdatePipe(pipe.id, {
+                      material,
+                      size: pipe.size in sizes ? pipe.size : Object.keys(sizes)[0],
+                    });
+                  }}
+                  className="head-type-select"
+                >
+                  {(Object.keys(PIPE_MATERIALS) as PipeMaterial[]).map(material => (
+                    <option key={material} value={material}>
+                      {PIPE_MATERIALS[material].label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={pipe.size}
+                  disabled={viewerMode}
+                  onChange={e => handleUpdatePipe(pipe.id, { size: e.target.value })}
+                  className="head-type-select"
+                >
+                  {Object.keys(PIPE_MATERIALS[pipe.material].sizes).map(size => (
+                    <option key={size} value={size}>
+                      {size}"
+                    </option>
+                  ))}
+                </select>
+                {analysis ? (
+                  <span className="zone-value">
+                    {formatLength(analysis.length)}, {formatFlow(analysis.flow)}, loss {formatPressure(analysis.loss)}
+                    {analysis.pressureAtEnd !== null &&
+                      `, ${formatPressure(analysis.pressureAtEnd)} at ${
+                        pipe.kind === 'lateral' ? 'far head' : 'end'
+                      }`}
+                    {analysis.belowMinimum && ' (below nozzle minimum)'}
+                  </span>
+                ) : (
+                  <span className="zone-value">Set ruler first</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {valveZones.length > 0 && (
+        <div className="watering-schedule">
+          <h3>Watering Schedule</h3>
+          <div className="supply-settings">
+            <select
+              value={scheduleSettings.method}
+              disabled={viewerMode}
+              onChange={e => updateSchedule({ method: e.target.value as ScheduleSettings['method'] })}
+              className="head-type-select"
+            >
+              <option value="requirement">Weekly water requirement</option>
+              <option value="et">ET and plant factor</option>
+            </select>
+            {scheduleSettings.method === 'requirement' ? (
+              <label className="head-setting">
+                Water per Week ({DEPTH_UNITS[displayUnit]})
+                <input
+                  type="number"
+                  min="0"
+                  value={toDisplayInput(scheduleSettings.weeklyRequirement, 'depth')}
+                  readOnly={viewerMode}
+                  onChange={e =>
+                    updateSchedule({ weeklyRequirement: parseQuantitySetting(e.target.value, 'depth') ?? 0 })
+                  }
+                />
+              </label>
+            ) : (
+              <>
+                <label className="head-setting">
+                  ET per Week ({DEPTH_UNITS[displayUnit]})
+                  <input
+                    type="number"
+                    min="0"
+                    value={toDisplayInput(scheduleSettings.weeklyEt, 'depth')}
+                    readOnly={viewerMode}
+                    onChange={e => updateSchedule({ weeklyEt: parseQuantitySetting(e.target.value, 'depth') ?? 0 })}
+                  />
+                </label>
+                <label className="head-setting">
+                  Plant Factor, Regular
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={scheduleSettings.plantFactors.regular}
+                    readOnly={viewerMode}
+                    onChange={e =>
+                      updateSchedule({
+                        plantFactors: { ...scheduleSettings.plantFactors, regular: parseSetting(e.target.value) ?? 0 },
+                      })
+                    }
+                  />
+                </label>
+                <label className="head-setting">
+                  Plant Factor, Drip
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    value={scheduleSettings.plantFactors.drip}
+                    readOnly={viewerMode}
+                    onChange={e =>
+                      updateSchedule({
+                        plantFactors: { ...scheduleSettings.plantFactors, drip: parseSetting(e.target.value) ?? 0 },
+                      })
+                    }
+                  />
+                </label>
+              </>
+            )}
+            <label className="head-setting">
+              Soil Infiltration ({PRECIPITATION_UNITS[displayUnit]})
+              <input
+                type="number"
+                min="0"
+                value={toDisplayInput(scheduleSettings.infiltrationRate, 'depth')}
+                readOnly={viewerMode}
+                onChange={e =>
+                  updateSchedule({ infiltrationRate: parseQuantitySetting(e.target.value, 'depth') ?? 0 })
+                }
+              />
+            </label>
+            <label className="head-setting">
+              Start Time
+              <input
+                type="time"
+                value={scheduleSettings.startTime}
+                readOnly={viewerMode}
+                onChange={e => updateSchedule({ startTime: e.target.value })}
+              />
+            </label>
+            <label className="head-setting">
+              Soak (min)
+              <input
+                type="number"
+                min="0"
+                value={scheduleSettings.soakMinutes}
+                readOnly={viewerMode}
+                onChange={e => updateSchedule({ soakMinutes: parseSetting(e.target.value) ?? 0 })}
+              />
+            </label>
           </div>
-          <div className="zone-area-item exclusion">
-            <span className="zone-label">Exclusion Zones:</span>
-            <span className="zone-value">{formatArea(calculateTotalArea('exclusion'))}</span>
+          <div className="schedule-days">
+            {DAY_NAMES.map((name, day) => (
+              <label key={name} className="schedule-day">
+                <input
+                  type="checkbox"
+                  checked={scheduleSettings.days.includes(day)}
+                  disabled={viewerMode}
+                  onChange={() => handleToggleWateringDay(day)}
+                />
+                {name}
+              </label>
+            ))}
           </div>
+          {pixelRatio ? (
+            <>
+              <table className="bom-table">
+                <thead>
+                  <tr>
+                    <th>Valve</th>
+                    <th>Rate</th>
+                    <th>Min/Week</th>
+                    <th>Min/Day</th>
+                    <th>Cycles</th>
+                    <th>Starts</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {wateringSchedule.map(valve => (
+                    <tr key={valve.valveId}>
+                      <td>{valve.name}</td>
+                      <td>{formatPrecipitation(valve.precipitationRate)}</td>
+                      <td>{valve.weeklyMinutes}</td>
+                      <td>{valve.minutesPerDay}</td>
+                      <td>
+                        {valve.cycles > 0 ? `${valve.cycles} × ${valve.cycleMinutes} min` : '-'}
+                      </td>
+                      <td>
+                        {wateringRuns
+                          .filter(run => run.valveId === valve.valveId)
+                          .map(run => formatTime(run.start))
+                          .join(', ')}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="valve-seed">
+                <button onClick={handleDownloadScheduleJson} className="auto-place-button">
+                  Download JSON
+                </button>
+                <button onClick={handleDownloadScheduleIcs} className="auto-place-button">
+                  Download ICS
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="valve-hint">Set the scale with the ruler to compute run times.</p>
+          )}
         </div>
       )}
     </div>
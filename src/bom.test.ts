@@ -0,0 +1,102 @@
+import { calculateBomTotal, generateBillOfMaterials, toBomCsv } from './bom';
+import { Pipe, SprinklerHead } from './types';
+
+const makeHead = (id: string, x: number, y: number): SprinklerHead => ({
+  id,
+  position: { x, y },
+  type: 'spray',
+  radius: 12,
+  arc: 360,
+  rotation: 0,
+  nozzleId: 'spray-12',
+});
+
+const makePipe = (id: string, kind: Pipe['kind'], size: string, points: [number, number][]): Pipe => ({
+  id,
+  kind,
+  material: 'pvc-40',
+  size,
+  points: points.map(([x, y]) => ({ x, y })),
+});
+
+const baseInput = {
+  heads: [] as SprinklerHead[],
+  pipes: [] as Pipe[],
+  valveZones: [],
+  dripPixelArea: 0,
+  drip: { emitterFlow: 1, emitterSpacing: 1 },
+  pixelRatio: 1,
+  unit: 'ft' as const,
+  displayUnit: 'ft' as const,
+  threshold: 5,
+};
+
+test('heads, pipes, emitters and valves are counted', () => {
+  const items = generateBillOfMaterials({
+    ...baseInput,
+    heads: [makeHead('a', 0, 0), makeHead('b', 100, 0)],
+    pipes: [makePipe('p', 'lateral', '3/4', [[0, 0], [100, 0]])],
+    valveZones: [{ id: 'v', name: 'Valve 1', headIds: ['a', 'b'], shapeIds: [] }],
+    dripPixelArea: 50,
+  });
+
+  expect(items).toEqual(
+    expect.arrayContaining([
+      expect.objectContaining({ id: 'head-spray-12', quantity: 2 }),
+      expect.objectContaining({ id: 'swing-joint', quantity: 2 }),
+      expect.objectContaining({ id: 'pipe-pvc-40-3/4-ft', quantity: 100, unit: 'ft' }),
+      expect.objectContaining({ id: 'drip-emitter', quantity: 50 }),
+      expect.objectContaining({ id: 'valve', quantity: 1 }),
+    ])
+  );
+});
+
+test('pipe lengths and descriptions are listed in the display unit', () => {
+  const items = generateBillOfMaterials({
+    ...baseInput,
+    heads: [{ ...makeHead('a', 0, 0), nozzleId: undefined }],
+    pipes: [makePipe('p', 'lateral', '3/4', [[0, 0], [100, 0]])],
+    displayUnit: 'm',
+  });
+
+  expect(items).toEqual(
+    expect.arrayContaining([
+      expect.objectContaining({ id: 'head-spray-12', description: 'Fixed Spray head, 3.7 m radius' }),
+      expect.objectContaining({ id: 'pipe-pvc-40-3/4-m', quantity: 31, unit: 'm' }),
+    ])
+  );
+});
+
+test('fittings are implied by pipe junctions, bends and heads along a run', () => {
+  const items = generateBillOfMaterials({
+    ...baseInput,
+    heads: [makeHead('a', 50, 0)],
+    pipes: [
+      makePipe('main', 'mainline', '1', [[0, 0], [100, 0], [100, 100]]),
+      makePipe('branch', 'lateral', '3/4', [[50, 0], [50, 80]]),
+      makePipe('extension', 'lateral', '3/4', [[50, 80], [50, 150]]),
+    ],
+  });
+  const quantity = (id: string) => items.find(item => item.id === id)?.quantity;
+
+  expect(quantity('fitting-elbow-1')).toBe(1);
+  // The head on the mainline and the branch teeing into it.
+  expect(quantity('fitting-tee-1')).toBe(2);
+  expect(quantity('fitting-coupling-3/4')).toBe(1);
+});
+
+test('costs and CSV use the edited unit prices', () => {
+  const items = [
+    { id: 'valve', description: 'Zone valve', quantity: 2, unit: 'ea' },
+    { id: 'pipe', description: '3/4" pipe', quantity: 10, unit: 'ft' },
+  ];
+  const prices = { valve: 25, pipe: 0.5 };
+
+  expect(calculateBomTotal(items, prices)).toBe(55);
+  expect(toBomCsv(items, prices).split('\n')).toEqual([
+    'Item,Quantity,Unit,Unit Price,Total',
+    'Zone valve,2,ea,25.00,50.00',
+    '"3/4"" pipe",10,ft,0.50,5.00',
+    'Total,,,,55.00',
+  ]);
+});
@@ -0,0 +1,171 @@
+import { DripSettings, Pipe, SprinklerHead, ValveZone } from './types';
+import { calculatePixelDistance } from './geometry';
+import { HEAD_LABELS, NOZZLE_CATALOG } from './heads';
+import { calculateEmitterCount, EMITTER_FLOW_UNITS } from './hydraulics';
+import { PIPE_MATERIALS, calculatePipeLength, isPointNearPipe } from './pipes';
+import { convertQuantity } from './units';
+
+export interface BomItem {
+  id: string;
+  description: string;
+  quantity: number;
+  unit: string;
+}
+
+export interface BomInput {
+  heads: SprinklerHead[];
+  pipes: Pipe[];
+  valveZones: ValveZone[];
+  dripPixelArea: number;
+  drip: DripSettings;
+  pixelRatio: number;
+  unit: 'ft' | 'm';
+  // Unit pipe lengths and the sizes in descriptions are listed in.
+  displayUnit: 'ft' | 'm';
+  // Distance in pixels within which pipes and heads count as connected.
+  threshold: number;
+}
+
+type FittingKind = 'tee' | 'elbow' | 'coupling';
+
+const FITTING_LABELS: Record<FittingKind, string> = {
+  tee: 'tee',
+  elbow: 'elbow',
+  coupling: 'coupling',
+};
+
+const addItem = (items: Map<string, BomItem>, item: BomItem) => {
+  const existing = items.get(item.id);
+  items.set(item.id, existing ? { ...existing, quantity: existing.quantity + item.quantity } : item);
+};
+
+// Rounds a converted amount for a description without trailing zeros.
+const roundAmount = (value: number): number => Math.round(value * 10) / 10;
+
+const describeHead = (
+  head: SprinklerHead,
+  unit: 'ft' | 'm',
+  displayUnit: 'ft' | 'm'
+): { id: string; description: string } => {
+  const nozzle = NOZZLE_CATALOG.find(entry => entry.id === head.nozzleId);
+  if (nozzle) return { id: `head-${nozzle.id}`, description: `${nozzle.name} head` };
+  const radius = roundAmount(convertQuantity(head.radius, 'length', unit, displayUnit));
+  return {
+    id: `head-${head.type}-${head.radius}`,
+    description: `${HEAD_LABELS[head.type]} head, ${radius} ${displayUnit} radius`,
+  };
+};
+
+// Fittings follow from how pipes meet: a pipe ending on another pipe's run
+// needs a tee, two pipes meeting end to end a coupling, a bend an elbow, and
+// a head part way along a pipe a tee.
+const countFittings = (pipes: Pipe[], heads: SprinklerHead[], threshold: number): Map<string, BomItem> => {
+  const fittings = new Map<string, BomItem>();
+  const addFitting = (kind: FittingKind, size: string) =>
+    addItem(fittings, { id: `fitting-${kind}-${size}`, description: `${size}" ${FITTING_LABELS[kind]}`, quantity: 1, unit: 'ea' });
+
+  pipes.forEach((pipe, pipeIndex) => {
+    const ends = [pipe.points[0], pipe.points[pipe.points.length - 1]];
+    const isNearEnd = (point: { x: number; y: number }) =>
+      ends.some(end => calculatePixelDistance(end, point) <= threshold);
+
+    pipe.points.slice(1, -1).forEach(point => {
+      if (!heads.some(head => calculatePixelDistance(head.position, point) <= threshold)) {
+        addFitting('elbow', pipe.size);
+      }
+    });
+
+    heads
+      .filter(head => isPointNearPipe(head.position, pipe, threshold) && !isNearEnd(head.position))
+      .forEach(() => addFitting('tee', pipe.size));
+
+    ends.forEach(end => {
+      pipes.forEach((other, otherIndex) => {
+        if (otherIndex === pipeIndex || !isPointNearPipe(end, other, threshold)) return;
+
+        const otherEnds = [other.points[0], other.points[other.points.length - 1]];
+        if (otherEnds.some(otherEnd => calculatePixelDistance(otherEnd, end) <= threshold)) {
+          // Count each end-to-end joint once, from the earlier pipe.
+          if (pipeIndex < otherIndex) addFitting('coupling', pipe.size);
+        } else {
+          addFitting('tee', other.size);
+        }
+      });
+    });
+  });
+
+  return fittings;
+};
+
+export const generateBillOfMaterials = ({
+  heads,
+  pipes,
+  valveZones,
+  dripPixelArea,
+  drip,
+  pixelRatio,
+  unit,
+  displayUnit,
+  threshold,
+}: BomInput): BomItem[] => {
+  const items = new Map<string, BomItem>();
+
+  heads.forEach(head => {
+    addItem(items, { ...describeHead(head, unit, displayUnit), quantity: 1, unit: 'ea' });
+  });
+  if (heads.length > 0) {
+    addItem(items, { id: 'swing-joint', description: 'Swing joint', quantity: heads.length, unit: 'ea' });
+  }
+
+  // Pipe is priced per foot or per meter, so each unit is its own item.
+  const pipeLengths = new Map<string, BomItem>();
+  pipes.forEach(pipe => {
+    addItem(pipeLengths, {
+      id: `pipe-${pipe.material}-${pipe.size}-${displayUnit}`,
+      description: `${pipe.size}" ${PIPE_MATERIALS[pipe.material].label} pipe`,
+      quantity: convertQuantity(calculatePipeLength(pipe.points, pixelRatio), 'length', unit, displayUnit),
+      unit: displayUnit,
+    });
+  });
+  pipeLengths.forEach(item => items.set(item.id, { ...item, quantity: Math.ceil(item.quantity) }));
+
+  countFittings(pipes, heads, threshold).forEach(item => items.set(item.id, item));
+
+  const emitters = calculateEmitterCount(dripPixelArea, pixelRatio, drip);
+  if (emitters > 0) {
+    addItem(items, {
+      id: 'drip-emitter',
+      description: `Drip emitter, ${roundAmount(convertQuantity(drip.emitterFlow, 'flow', unit, displayUnit))} ${
+        EMITTER_FLOW_UNITS[displayUnit]
+      }`,
+      quantity: emitters,
+      unit: 'ea',
+    });
+  }
+
+  if (valveZones.length > 0) {
+    addItem(items, { id: 'valve', description: 'Zone valve', quantity: valveZones.length, unit: 'ea' });
+  }
+
+  return Array.from(items.values());
+};
+
+export const calculateBomTotal = (items: BomItem[], prices: Record<string, number>): number =>
+  items.reduce((total, item) => total + item.quantity * (prices[item.id] ?? 0), 0);
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toBomCsv = (items: BomItem[], prices: Record<string, number>): string => {
+  const rows: (string | number)[][] = [
+    ['Item', 'Quantity', 'Unit', 'Unit Price', 'Total'],
+    ...items.map(item => {
+      const price = prices[item.id] ?? 0;
+      return [item.description, item.quantity, item.unit, price.toFixed(2), (item.quantity * price).toFixed(2)];
+    }),
+    ['Total', '', '', '', calculateBomTotal(items, prices).toFixed(2)],
+  ];
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\n');
+};
@@ -0,0 +1,78 @@
+import { checkReference, fitPlanScale, fitScale, getStraighteningMap, measureLength } from './calibration';
+import { applyAffine } from './transform';
+
+// A photo squashed vertically: 0.1 ft per pixel across, 0.12 ft per pixel down.
+const reference = (dx: number, dy: number) => ({
+  start: { x: 10, y: 20 },
+  end: { x: 10 + dx, y: 20 + dy },
+  length: Math.hypot(dx * 0.1, dy * 0.12),
+});
+
+test('a single reference gives a uniform scale', () => {
+  const fit = fitScale([{ start: { x: 0, y: 0 }, end: { x: 100, y: 0 }, length: 20 }]);
+
+  expect(fit).toMatchObject({ model: 'uniform', pixelRatio: 0.2, anisotropy: 0 });
+  expect(fitScale([{ start: { x: 0, y: 0 }, end: { x: 0, y: 0 }, length: 20 }])).toBeNull();
+});
+
+test('one reference per axis fits separate scales that keep areas exact', () => {
+  const fit = fitScale([reference(200, 0), reference(0, 100)])!;
+
+  expect(fit.model).toBe('axes');
+  expect(fit.pixelRatio ** 2).toBeCloseTo(0.1 * 0.12, 12);
+  expect(fit.anisotropy).toBeCloseTo(0.2, 9);
+  expect(measureLength(fit.metric, { x: 0, y: 0 }, { x: 30, y: 40 })).toBeCloseTo(reference(30, 40).length, 9);
+});
+
+test('references in three directions fit a rotated stretch', () => {
+  // The same photo rotated by 30 degrees.
+  const angle = Math.PI / 6;
+  const rotated = (dx: number, dy: number) => {
+    const { length } = reference(dx, dy);
+    const x = dx * Math.cos(angle) - dy * Math.sin(angle);
+    const y = dx * Math.sin(angle) + dy * Math.cos(angle);
+    return { start: { x: 0, y: 0 }, end: { x, y }, length };
+  };
+  const fit = fitScale([rotated(100, 0), rotated(0, 100), rotated(100, 100), rotated(100, -50)])!;
+
+  expect(fit.model).toBe('affine');
+  expect(fit.anisotropy).toBeCloseTo(0.2, 9);
+  expect(checkReference(fit, rotated(60, 80)).relativeError).toBeCloseTo(0, 9);
+});
+
+test('residuals show how far off each reference is', () => {
+  const fit = fitScale([{ start: { x: 0, y: 0 }, end: { x: 100, y: 0 }, length: 10 }])!;
+  const check = checkReference(fit, { start: { x: 0, y: 0 }, end: { x: 0, y: 50 }, length: 4 });
+
+  expect(check.measured).toBeCloseTo(5, 9);
+  expect(check.error).toBeCloseTo(1, 9);
+  expect(check.relativeError).toBeCloseTo(0.25, 9);
+});
+
+test('straightening makes the scale uniform without changing pixel areas', () => {
+  const fit = fitScale([reference(200, 0), reference(0, 100), reference(100, 100)])!;
+  const map = getStraighteningMap(fit);
+
+  expect(map.a * map.d - map.b * map.c).toBeCloseTo(1, 9);
+  [reference(30, 40), reference(-70, 10), reference(0, 90)].forEach(({ start, end, length }) => {
+    const a = applyAffine(map, start);
+    const b = applyAffine(map, end);
+    expect(Math.hypot(b.x - a.x, b.y - a.y) * fit.pixelRatio).toBeCloseTo(length, 9);
+  });
+});
+
+test('plan scales are fitted in the plan unit, leaving verification references out', () => {
+  const ruler = { start: { x: 0, y: 0 }, end: { x: 100, y: 0 }, length: 10, unit: 'ft' as const };
+  const fit = fitPlanScale(
+    ruler,
+    [
+      { id: 'a', start: { x: 0, y: 0 }, end: { x: 0, y: 100 }, length: 3.048, unit: 'm', verifyOnly: false },
+      { id: 'b', start: { x: 0, y: 0 }, end: { x: 0, y: 100 }, length: 50, unit: 'ft', verifyOnly: true },
+    ],
+    'ft'
+  )!;
+
+  expect(fit.model).toBe('axes');
+  expect(fit.metric.yy).toBeCloseTo(0.01, 6);
+  expect(fitPlanScale(ruler, [], 'm')!.pixelRatio).toBeCloseTo(0.03048, 6);
+});
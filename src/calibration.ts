@@ -0,0 +1,136 @@
+import { Point, Ruler, ScaleReference } from './types';
+import { AffineMap } from './transform';
+import { convertQuantity } from './units';
+import { solveLinearSystem } from './geometry';
+
+// Squared real length of a pixel offset (dx, dy):
+// xx·dx² + 2·xy·dx·dy + yy·dy².
+export interface ScaleMetric {
+  xx: number;
+  xy: number;
+  yy: number;
+}
+
+// Uniform: one scale in every direction. Axes: separate scales along x and
+// y. Affine: scales along any pair of perpendicular directions.
+export type ScaleModel = 'uniform' | 'axes' | 'affine';
+
+export interface ScaleFit {
+  model: ScaleModel;
+  metric: ScaleMetric;
+  // Units per pixel that keep areas exact.
+  pixelRatio: number;
+  // How much farther a pixel reaches along the most stretched direction than
+  // along the least stretched one, e.g. 0.03 for 3%.
+  anisotropy: number;
+}
+
+export interface ReferenceCheck {
+  // Length under the fitted scale, in the reference's unit.
+  measured: number;
+  error: number;
+  relativeError: number;
+}
+
+type Reference = Pick<Ruler, 'start' | 'end' | 'length'>;
+
+// Normal matrices less well conditioned than this mean the references don't
+// pin down the model, e.g. every reference runs in the same direction.
+const MIN_CONDITION = 1e-3;
+
+const MODELS: { model: ScaleModel; terms: (dx: number, dy: number) => number[] }[] = [
+  { model: 'affine', terms: (dx, dy) => [dx * dx, 2 * dx * dy, dy * dy] },
+  { model: 'axes', terms: (dx, dy) => [dx * dx, dy * dy] },
+  { model: 'uniform', terms: (dx, dy) => [dx * dx + dy * dy] },
+];
+
+const toMetric = (model: ScaleModel, values: number[]): ScaleMetric => {
+  if (model === 'affine') return { xx: values[0], xy: values[1], yy: values[2] };
+  if (model === 'axes') return { xx: values[0], xy: 0, yy: values[1] };
+  return { xx: values[0], xy: 0, yy: values[0] };
+};
+
+const getDeterminant = (metric: ScaleMetric): number => metric.xx * metric.yy - metric.xy * metric.xy;
+
+const getDeterminantOf = (matrix: number[][]): number => {
+  if (matrix.length === 1) return matrix[0][0];
+  return matrix[0].reduce((sum, value, column) => {
+    const minor = matrix.slice(1).map(row => row.filter((_, j) => j !== column));
+    return sum + (column % 2 === 0 ? 1 : -1) * value * getDeterminantOf(minor);
+  }, 0);
+};
+
+export const measureLength = (metric: ScaleMetric, start: Point, end: Point): number => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  return Math.sqrt(Math.max(0, metric.xx * dx * dx + 2 * metric.xy * dx * dy + metric.yy * dy * dy));
+};
+
+// Fits the richest model the references support, by least squares on the
+// relative error of each squared length, or null without a usable reference.
+export const fitScale = (references: Reference[]): ScaleFit | null => {
+  const usable = references.filter(
+    reference => reference.length > 0 && (reference.start.x !== reference.end.x || reference.start.y !== reference.end.y)
+  );
+  if (usable.length === 0) return null;
+
+  for (const { model, terms } of MODELS) {
+    const rows = usable.map(({ start, end, length }) =>
+      terms(end.x - start.x, end.y - start.y).map(term => term / (length * length))
+    );
+    const size = rows[0].length;
+    if (usable.length < size) continue;
+
+    const normal = Array.from({ length: size }, (_, i) =>
+      Array.from({ length: size }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0))
+    );
+    const averageDiagonal = normal.reduce((sum, row, i) => sum + row[i], 0) / size;
+    if (getDeterminantOf(normal) / Math.pow(averageDiagonal, size) < MIN_CONDITION) continue;
+
+    const values = solveLinearSystem(normal, normal.map((_, i) => rows.reduce((sum, row) => sum + row[i], 0)));
+    const metric = toMetric(model, values);
+    if (metric.xx <= 0 || metric.yy <= 0 || getDeterminant(metric) <= 0) continue;
+
+    // The metric's eigenvalues are the squared scales along its principal axes.
+    const mean = (metric.xx + metric.yy) / 2;
+    const spread = Math.sqrt(((metric.xx - metric.yy) / 2) ** 2 + metric.xy ** 2);
+    return {
+      model,
+      metric,
+      pixelRatio: Math.pow(getDeterminant(metric), 0.25),
+      anisotropy: Math.sqrt((mean + spread) / (mean - spread)) - 1,
+    };
+  }
+  return null;
+};
+
+export const convertLength = (length: number, from: Ruler['unit'], to: Ruler['unit']): number =>
+  convertQuantity(length, 'length', from, to);
+
+// Fits the plan's scale in the plan's unit from the ruler and every
+// reference that isn't only there to verify it.
+export const fitPlanScale = (ruler: Ruler, references: ScaleReference[], unit: Ruler['unit']): ScaleFit | null =>
+  fitScale(
+    [ruler, ...references.filter(reference => !reference.verifyOnly)].map(reference => ({
+      ...reference,
+      length: convertLength(reference.length, reference.unit, unit),
+    }))
+  );
+
+export const checkReference = (fit: ScaleFit, reference: Reference): ReferenceCheck => {
+  const measured = measureLength(fit.metric, reference.start, reference.end);
+  const error = measured - reference.length;
+  return { measured, error, relativeError: reference.length > 0 ? error / reference.length : 0 };
+};
+
+// Linear map that makes the fitted scale the same in every direction while
+// keeping areas in pixels unchanged, so lengths measured on the straightened
+// image all use the fit's pixelRatio.
+export const getStraighteningMap = (fit: ScaleFit): AffineMap => {
+  const { xx, xy, yy } = fit.metric;
+  // Square root of the metric, scaled down to unit determinant.
+  const root = Math.sqrt(getDeterminant(fit.metric));
+  const trace = Math.sqrt(xx + yy + 2 * root);
+  const scale = trace * fit.pixelRatio;
+  return { a: (xx + root) / scale, b: xy / scale, c: xy / scale, d: (yy + root) / scale, e: 0, f: 0 };
+};
@@ -0,0 +1,67 @@
+import {
+  FLATTEN_TOLERANCE,
+  calculateOutlineArea,
+  createOutlineShape,
+  fitQuadraticControl,
+  flattenOutline,
+  getEllipseOutline,
+  getQuadraticPoint,
+  getSquareCorner,
+} from './curves';
+import { calculatePixelArea } from './geometry';
+import { ShapeOutline } from './types';
+
+test('ellipses have the exact area and flatten to within tolerance', () => {
+  const ellipse = getEllipseOutline({ x: 0, y: 0 }, { x: 200, y: 100 });
+
+  expect(ellipse).toEqual({ kind: 'ellipse', center: { x: 100, y: 50 }, radiusX: 100, radiusY: 50 });
+  expect(calculateOutlineArea(ellipse)).toBeCloseTo(Math.PI * 5000, 6);
+  // Flattening loses at most a tolerance-wide strip along the perimeter (under 500 pixels).
+  const lost = calculateOutlineArea(ellipse) - calculatePixelArea(flattenOutline(ellipse));
+  expect(lost).toBeGreaterThan(0);
+  expect(lost).toBeLessThan(500 * FLATTEN_TOLERANCE);
+});
+
+test('a curved edge adds two thirds of its control triangle to the polygon area', () => {
+  // A 10 by 10 square whose top edge bows outwards through a control point 10 above it.
+  const outline: ShapeOutline = {
+    kind: 'path',
+    vertices: [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+      { x: 0, y: 10 },
+    ],
+    controls: [{ x: 5, y: -10 }, null, null, null],
+  };
+
+  expect(calculateOutlineArea(outline)).toBeCloseTo(100 + (2 / 3) * 50, 9);
+  const lost = calculateOutlineArea(outline) - calculatePixelArea(flattenOutline(outline));
+  expect(lost).toBeLessThan(30 * FLATTEN_TOLERANCE);
+});
+
+test('paths without curved edges stay plain polygons', () => {
+  const shape = createOutlineShape(
+    { kind: 'path', vertices: [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 0, y: 3 }], controls: [null, null, null] },
+    'drip'
+  );
+
+  expect(shape).toEqual({ points: [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 0, y: 3 }, { x: 0, y: 0 }], area: 6, type: 'drip' });
+});
+
+test('the control point is recovered from a trail traced along the curve', () => {
+  const a = { x: 0, y: 0 };
+  const b = { x: 100, y: 0 };
+  const control = { x: 50, y: 40 };
+  const trail = [0.2, 0.4, 0.5, 0.6, 0.8].map(t => getQuadraticPoint(a, control, b, t));
+
+  const fitted = fitQuadraticControl(a, b, trail, 2);
+  expect(fitted!.x).toBeCloseTo(50, 6);
+  expect(fitted!.y).toBeCloseTo(40, 6);
+
+  expect(fitQuadraticControl(a, b, [{ x: 50, y: 1 }], 2)).toBeNull();
+});
+
+test('square corners keep the drag direction', () => {
+  expect(getSquareCorner({ x: 10, y: 10 }, { x: -20, y: 15 })).toEqual({ x: 5, y: 15 });
+});
@@ -0,0 +1,155 @@
+import { Point, Shape, ShapeOutline } from './types';
+import { calculatePixelArea } from './geometry';
+
+// Largest gap in pixels between a curve and the polygon it is flattened to.
+export const FLATTEN_TOLERANCE = 0.05;
+
+const MIN_ELLIPSE_SEGMENTS = 16;
+const MAX_SEGMENTS = 720;
+
+const clamp = (value: number, min: number, max: number): number => Math.max(min, Math.min(max, value));
+
+const lerp = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+const cross = (a: Point, b: Point): number => a.x * b.y - a.y * b.x;
+
+export const getQuadraticPoint = (a: Point, control: Point, b: Point, t: number): Point =>
+  lerp(lerp(a, control, t), lerp(control, b, t), t);
+
+// Points along a quadratic edge after its start. Chords across n equal steps
+// stray from the curve by at most |a - 2·control + b| / (4n²).
+export const flattenQuadratic = (a: Point, control: Point, b: Point): Point[] => {
+  const bend = Math.hypot(a.x - 2 * control.x + b.x, a.y - 2 * control.y + b.y);
+  const segments = clamp(Math.ceil(Math.sqrt(bend / (4 * FLATTEN_TOLERANCE))), 1, MAX_SEGMENTS);
+  return Array.from({ length: segments }, (_, i) => getQuadraticPoint(a, control, b, (i + 1) / segments));
+};
+
+// Flattens a run of edges; controls[i] bends the edge from vertex i to the
+// next one.
+export const flattenEdges = (vertices: Point[], controls: (Point | null | undefined)[]): Point[] => {
+  const points = vertices.slice(0, 1);
+  vertices.slice(1).forEach((next, i) => {
+    const control = controls[i];
+    if (control) points.push(...flattenQuadratic(vertices[i], control, next));
+    else points.push(next);
+  });
+  return points;
+};
+
+// Closed polygon following the outline, first point repeated at the end.
+export const flattenOutline = (outline: ShapeOutline): Point[] => {
+  if (outline.kind === 'path') return flattenEdges([...outline.vertices, outline.vertices[0]], outline.controls);
+
+  // Chords across n steps of a circle of radius r miss it by about rπ²/(2n²).
+  const { center, radiusX, radiusY } = outline;
+  const radius = Math.max(radiusX, radiusY);
+  const segments = clamp(
+    Math.ceil(Math.PI * Math.sqrt(radius / (2 * FLATTEN_TOLERANCE))),
+    MIN_ELLIPSE_SEGMENTS,
+    MAX_SEGMENTS
+  );
+  const points = Array.from({ length: segments }, (_, i) => {
+    const angle = (2 * Math.PI * i) / segments;
+    return { x: center.x + radiusX * Math.cos(angle), y: center.y + radiusY * Math.sin(angle) };
+  });
+  return [...points, points[0]];
+};
+
+// Green's theorem edge by edge: a straight edge contributes a × b, and a
+// quadratic one adds two thirds of the triangle between its chord and its
+// control point.
+export const calculateOutlineArea = (outline: ShapeOutline): number => {
+  if (outline.kind === 'ellipse') return Math.PI * outline.radiusX * outline.radiusY;
+
+  const { vertices, controls } = outline;
+  const doubled = vertices.reduce((sum, a, i) => {
+    const b = vertices[(i + 1) % vertices.length];
+    const control = controls[i];
+    const chord = cross(a, b);
+    return sum + (control ? chord + (2 / 3) * (cross(a, control) + cross(control, b) - chord) : chord);
+  }, 0);
+  return Math.abs(doubled) / 2;
+};
+
+// Paths without a single curved edge are kept as plain polygons. The caller
+// gives new shapes their id.
+export const createOutlineShape = (outline: ShapeOutline, type: Shape['type']): Omit<Shape, 'id'> => {
+  if (outline.kind === 'path' && !outline.controls.some(control => control)) {
+    const points = [...outline.vertices, outline.vertices[0]];
+    return { points, area: calculatePixelArea(points), type };
+  }
+  return { points: flattenOutline(outline), area: calculateOutlineArea(outline), type, outline };
+};
+
+export const getRectanglePoints = (a: Point, b: Point): Point[] => [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }, a];
+
+// The ellipse inscribed in the box with corners a and b.
+export const getEllipseOutline = (a: Point, b: Point): ShapeOutline => ({
+  kind: 'ellipse',
+  center: lerp(a, b, 0.5),
+  radiusX: Math.abs(b.x - a.x) / 2,
+  radiusY: Math.abs(b.y - a.y) / 2,
+});
+
+// Opposite corner of the largest square from `anchor` inside the box
+// reaching to `point`.
+export const getSquareCorner = (anchor: Point, point: Point): Point => {
+  const dx = point.x - anchor.x;
+  const dy = point.y - anchor.y;
+  const size = Math.min(Math.abs(dx), Math.abs(dy));
+  return { x: anchor.x + Math.sign(dx) * size, y: anchor.y + Math.sign(dy) * size };
+};
+
+// Fits the control point of a quadratic edge from a to b to the pointer
+// trail traced along it, by least squares with each trail point placed on the
+// curve by its projection onto the chord. Edges bulging less than
+// `minBulge` pixels stay straight.
+export const fitQuadraticControl = (a: Point, b: Point, trail: Point[], minBulge: number): Point | null => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return null;
+
+  let sumX = 0;
+  let sumY = 0;
+  let weight = 0;
+  trail.forEach(point => {
+    const t = ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared;
+    if (t <= 0 || t >= 1) return;
+
+    const w = 2 * t * (1 - t);
+    sumX += w * (point.x - (1 - t) * (1 - t) * a.x - t * t * b.x);
+    sumY += w * (point.y - (1 - t) * (1 - t) * a.y - t * t * b.y);
+    weight += w * w;
+  });
+  if (weight === 0) return null;
+
+  const control = { x: sumX / weight, y: sumY / weight };
+  // The curve passes furthest from its chord halfway to the control point.
+  const midpoint = lerp(a, b, 0.5);
+  const bulge = Math.hypot(control.x - midpoint.x, control.y - midpoint.y) / 2;
+  return bulge < minBulge ? null : control;
+};
+
+// Splits a quadratic edge at t, returning the control points of both halves.
+export const splitQuadratic = (a: Point, control: Point, b: Point, t: number): [Point, Point] => [
+  lerp(a, control, t),
+  lerp(control, b, t),
+];
+
+export const traceOutline = (ctx: CanvasRenderingContext2D, outline: ShapeOutline) => {
+  ctx.beginPath();
+  if (outline.kind === 'ellipse') {
+    ctx.ellipse(outline.center.x, outline.center.y, outline.radiusX, outline.radiusY, 0, 0, Math.PI * 2);
+  } else {
+    const { vertices, controls } = outline;
+    ctx.moveTo(vertices[0].x, vertices[0].y);
+    vertices.forEach((vertex, i) => {
+      const next = vertices[(i + 1) % vertices.length];
+      const control = controls[i];
+      if (control) ctx.quadraticCurveTo(control.x, control.y, next.x, next.y);
+      else ctx.lineTo(next.x, next.y);
+    });
+  }
+  ctx.closePath();
+};
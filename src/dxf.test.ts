@@ -0,0 +1,109 @@
+import { DxfError, getDxfShapes, guessLayerType, parseDxf, toDxf } from './dxf';
+import { Shape } from './types';
+
+const square: Shape = {
+  id: 'square',
+  points: [
+    { x: 10, y: 10 },
+    { x: 110, y: 10 },
+    { x: 110, y: 110 },
+    { x: 10, y: 110 },
+    { x: 10, y: 10 },
+  ],
+  area: 10000,
+  type: 'exclusion',
+};
+
+const dimensions = { width: 800, height: 600 };
+
+test('zones export as closed polylines in real units on their type layer', () => {
+  const dxf = toDxf([square], 0.1, 'm');
+
+  expect(dxf).toContain('$INSUNITS\n70\n6\n');
+  expect(dxf).toContain('0\nPOLYLINE\n8\nEXCLUSION-ZONES\n');
+  expect(dxf.match(/\nVERTEX\n/g)).toHaveLength(4);
+  expect(dxf).toContain('10\n11\n20\n-11\n');
+  expect(dxf.endsWith('0\nEOF\n')).toBe(true);
+});
+
+test('exported zones import back where they were', () => {
+  const drawing = parseDxf(toDxf([square], 0.1, 'ft'));
+
+  expect(drawing.unit).toBe(2);
+  expect(drawing.polylines).toHaveLength(1);
+  const [shape] = getDxfShapes(drawing, { 'EXCLUSION-ZONES': 'exclusion' }, 0.1, 'ft', dimensions);
+  expect(shape.type).toBe('exclusion');
+  expect(shape.area).toBeCloseTo(10000, 6);
+  shape.points.forEach((point, i) => {
+    expect(point.x).toBeCloseTo(square.points[i].x, 6);
+    expect(point.y).toBeCloseTo(square.points[i].y, 6);
+  });
+});
+
+test('closed lightweight polylines are read from any layer', () => {
+  const dxf = [
+    '0', 'SECTION', '2', 'ENTITIES',
+    '0', 'LWPOLYLINE', '8', 'Planting Beds', '90', '3', '70', '1',
+    '10', '0', '20', '0', '10', '4', '20', '0', '10', '4', '20', '3',
+    '0', 'LWPOLYLINE', '8', 'Paths', '90', '2', '70', '0',
+    '10', '0', '20', '0', '10', '4', '20', '0',
+    '0', 'ENDSEC', '0', 'EOF',
+  ].join('\r\n');
+  const drawing = parseDxf(dxf);
+
+  expect(drawing).toEqual({
+    unit: null,
+    polylines: [
+      {
+        layer: 'Planting Beds',
+        points: [
+          { x: 0, y: 0 },
+          { x: 4, y: 0 },
+          { x: 4, y: 3 },
+        ],
+      },
+    ],
+  });
+});
+
+test('drawings off the image are centered on it in plan units', () => {
+  const drawing = {
+    unit: 6 as const,
+    polylines: [
+      {
+        layer: 'BEDS',
+        points: [
+          { x: 5000, y: 5000 },
+          { x: 5010, y: 5000 },
+          { x: 5010, y: 5010 },
+        ],
+      },
+    ],
+  };
+  const [shape] = getDxfShapes(drawing, { BEDS: 'drip' }, 0.5, 'ft', dimensions);
+
+  const xs = shape.points.map(point => point.x);
+  const ys = shape.points.map(point => point.y);
+  expect((Math.min(...xs) + Math.max(...xs)) / 2).toBeCloseTo(400, 6);
+  expect((Math.min(...ys) + Math.max(...ys)) / 2).toBeCloseTo(300, 6);
+  // 10 m is 32.8 ft, or 65.6 pixels at 0.5 ft per pixel.
+  expect(Math.max(...xs) - Math.min(...xs)).toBeCloseTo(65.6168, 3);
+  expect(getDxfShapes(drawing, { BEDS: 'skip' }, 0.5, 'ft', dimensions)).toEqual([]);
+});
+
+test('drawings with more vertices than a call takes are still placed', () => {
+  const points = Array.from({ length: 200000 }, (_, i) => ({ x: 5000 + (i % 100), y: 5000 + Math.floor(i / 100) }));
+  const [shape] = getDxfShapes({ unit: 6, polylines: [{ layer: 'LAWN', points }] }, { LAWN: 'regular' }, 0.5, 'm', dimensions);
+
+  expect(shape.points).toHaveLength(points.length + 1);
+});
+
+test('layer names suggest zone types', () => {
+  expect(guessLayerType('EXCLUSION-ZONES')).toBe('exclusion');
+  expect(guessLayerType('L-DRIP-AREA')).toBe('drip');
+  expect(guessLayerType('Lawn')).toBe('regular');
+});
+
+test('files that are not DXF are rejected', () => {
+  expect(() => parseDxf('{"version": 4}')).toThrow(DxfError);
+});
@@ -0,0 +1,241 @@
+import { Point, Shape } from './types';
+import { calculatePixelArea } from './geometry';
+import { convertQuantity } from './units';
+import { createId } from './utils';
+
+type Unit = 'ft' | 'm';
+type ZoneType = Exclude<Shape['type'], 'delete'>;
+
+// What a DXF layer's polylines become on import.
+export type DxfLayerType = ZoneType | 'skip';
+
+export interface DxfPolyline {
+  layer: string;
+  // Drawing coordinates, y up, without repeating the first point.
+  points: Point[];
+}
+
+export interface DxfDrawing {
+  // The drawing's $INSUNITS, when it is one we can convert.
+  unit: DxfUnit | null;
+  polylines: DxfPolyline[];
+}
+
+export class DxfError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DxfError';
+  }
+}
+
+// Layers zones are exported on, one per zone type.
+export const DXF_LAYERS: Record<ZoneType, string> = {
+  regular: 'REGULAR-ZONES',
+  drip: 'DRIP-ZONES',
+  exclusion: 'EXCLUSION-ZONES',
+};
+
+// AutoCAD color index of each layer.
+const DXF_LAYER_COLORS: Record<ZoneType, number> = { regular: 3, drip: 5, exclusion: 1 };
+
+// $INSUNITS codes and the meters in one of each.
+const DXF_UNIT_METERS = { 1: 0.0254, 2: 0.3048, 4: 0.001, 5: 0.01, 6: 1 } as const;
+type DxfUnit = keyof typeof DXF_UNIT_METERS;
+
+const DXF_UNIT_CODES: Record<Unit, DxfUnit> = { ft: 2, m: 6 };
+
+// Polyline flags.
+const CLOSED = 1;
+const SPLINE_FRAME = 16;
+const MESH = 16 | 32 | 64;
+
+const formatCoordinate = (value: number): string => String(Math.round(value * 10000) / 10000);
+
+// Shapes repeat their first point to close; DXF closes with a flag.
+const getOpenRing = (points: Point[]): Point[] => {
+  const last = points[points.length - 1];
+  return points.length > 1 && last.x === points[0].x && last.y === points[0].y ? points.slice(0, -1) : points;
+};
+
+// An R12 drawing, which every CAD package reads, with each zone as a closed
+// polyline in real units on its type's layer. The y axis is flipped to point
+// up as CAD drawings expect.
+export const toDxf = (shapes: Shape[], pixelRatio: number, unit: Unit): string => {
+  const groups: [number, string | number][] = [];
+  const add = (...pairs: [number, string | number][]) => groups.push(...pairs);
+
+  add([0, 'SECTION'], [2, 'HEADER'], [9, '$ACADVER'], [1, 'AC1009'], [9, '$INSUNITS'], [70, DXF_UNIT_CODES[unit]]);
+  add([0, 'ENDSEC']);
+
+  const layers = Object.keys(DXF_LAYERS) as ZoneType[];
+  add([0, 'SECTION'], [2, 'TABLES']);
+  add([0, 'TABLE'], [2, 'LTYPE'], [70, 1]);
+  add([0, 'LTYPE'], [2, 'CONTINUOUS'], [70, 0], [3, 'Solid line'], [72, 65], [73, 0], [40, 0]);
+  add([0, 'ENDTAB']);
+  add([0, 'TABLE'], [2, 'LAYER'], [70, layers.length]);
+  layers.forEach(type =>
+    add([0, 'LAYER'], [2, DXF_LAYERS[type]], [70, 0], [62, DXF_LAYER_COLORS[type]], [6, 'CONTINUOUS'])
+  );
+  add([0, 'ENDTAB'], [0, 'ENDSEC']);
+
+  add([0, 'SECTION'], [2, 'ENTITIES']);
+  shapes.forEach(shape => {
+    if (shape.type === 'delete') return;
+    const layer = DXF_LAYERS[shape.type];
+    add([0, 'POLYLINE'], [8, layer], [66, 1], [10, 0], [20, 0], [30, 0], [70, CLOSED]);
+    getOpenRing(shape.points).forEach(point =>
+      add(
+        [0, 'VERTEX'],
+        [8, layer],
+        [10, formatCoordinate(point.x * pixelRatio)],
+        [20, formatCoordinate(-point.y * pixelRatio)],
+        [30, 0]
+      )
+    );
+    add([0, 'SEQEND'], [8, layer]);
+  });
+  add([0, 'ENDSEC'], [0, 'EOF']);
+
+  return groups.map(([code, value]) => `${code}\n${value}\n`).join('');
+};
+
+const readGroups = (text: string): { code: number; value: string }[] => {
+  const lines = text.split(/\r?\n/);
+  const groups: { code: number; value: string }[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = Number(lines[i].trim());
+    if (lines[i].trim() === '' || !Number.isInteger(code)) {
+      throw new DxfError('This is not a DXF file.');
+    }
+    groups.push({ code, value: lines[i + 1].trim() });
+  }
+  return groups;
+};
+
+// Vertices from consecutive 10/20 groups.
+const readPoints = (groups: { code: number; value: string }[]): Point[] => {
+  const points: Point[] = [];
+  groups.forEach(({ code, value }) => {
+    if (code === 10) points.push({ x: Number(value), y: 0 });
+    if (code === 20 && points.length > 0) points[points.length - 1].y = Number(value);
+  });
+  return points;
+};
+
+const getFlags = (groups: { code: number; value: string }[]): number =>
+  Number(groups.find(group => group.code === 70)?.value ?? 0);
+
+// Closed polylines, and open ones that end where they start, from the
+// ENTITIES section. Bulges are read as straight edges.
+export const parseDxf = (text: string): DxfDrawing => {
+  const groups = readGroups(text);
+  if (!groups.some(group => group.code === 0 && group.value === 'SECTION')) {
+    throw new DxfError('This is not a DXF file.');
+  }
+
+  const unitIndex = groups.findIndex(group => group.code === 9 && group.value === '$INSUNITS');
+  const unitCode = unitIndex >= 0 ? Number(groups[unitIndex + 1]?.value) : 0;
+  const unit = unitCode in DXF_UNIT_METERS ? (unitCode as DxfUnit) : null;
+
+  // Split the entities section into records starting at each 0 group.
+  const start = groups.findIndex(
+    (group, i) => group.code === 2 && group.value === 'ENTITIES' && groups[i - 1]?.value === 'SECTION'
+  );
+  const entities: { type: string; groups: { code: number; value: string }[] }[] = [];
+  for (let i = start + 1; start >= 0 && i < groups.length; i++) {
+    const group = groups[i];
+    if (group.code === 0) {
+      if (group.value === 'ENDSEC') break;
+      entities.push({ type: group.value, groups: [] });
+    } else if (entities.length > 0) {
+      entities[entities.length - 1].groups.push(group);
+    }
+  }
+
+  const polylines: DxfPolyline[] = [];
+  const addPolyline = (layer: string, flags: number, points: Point[]) => {
+    if (flags & MESH) return;
+    const last = points[points.length - 1];
+    const endsAtStart = points.length > 3 && last.x === points[0].x && last.y === points[0].y;
+    if (!(flags & CLOSED) && !endsAtStart) return;
+    const ring = endsAtStart ? points.slice(0, -1) : points;
+    if (ring.length >= 3 && ring.every(point => Number.isFinite(point.x) && Number.isFinite(point.y))) {
+      polylines.push({ layer, points: ring });
+    }
+  };
+  const getLayer = (groups: { code: number; value: string }[]) =>
+    groups.find(group => group.code === 8)?.value || '0';
+
+  entities.forEach((entity, i) => {
+    if (entity.type === 'LWPOLYLINE') {
+      addPolyline(getLayer(entity.groups), getFlags(entity.groups), readPoints(entity.groups));
+    } else if (entity.type === 'POLYLINE') {
+      const vertices: Point[] = [];
+      for (let j = i + 1; j < entities.length && entities[j].type === 'VERTEX'; j++) {
+        if (!(getFlags(entities[j].groups) & SPLINE_FRAME)) vertices.push(...readPoints(entities[j].groups));
+      }
+      addPolyline(getLayer(entity.groups), getFlags(entity.groups), vertices);
+    }
+  });
+
+  return { unit, polylines };
+};
+
+// Layers named for a zone type import as that type, anything else as a
+// regular zone.
+export const guessLayerType = (layer: string): DxfLayerType => {
+  const name = layer.toLowerCase();
+  if (name.includes('excl')) return 'exclusion';
+  if (name.includes('drip')) return 'drip';
+  return 'regular';
+};
+
+// Zones for the polylines on mapped layers, scaled to the plan. Drawings
+// that don't overlap the image, such as ones in site coordinates, are
+// centered on it instead.
+export const getDxfShapes = (
+  drawing: DxfDrawing,
+  layerTypes: Record<string, DxfLayerType>,
+  pixelRatio: number,
+  unit: Unit,
+  dimensions: { width: number; height: number }
+): Shape[] => {
+  // Drawings without units are taken to be in the plan's unit.
+  const toPlanUnits =
+    drawing.unit && drawing.unit !== DXF_UNIT_CODES[unit]
+      ? convertQuantity(DXF_UNIT_METERS[drawing.unit], 'length', 'm', unit)
+      : 1;
+  const scale = toPlanUnits / pixelRatio;
+  const polylines = drawing.polylines
+    .filter(polyline => (layerTypes[polyline.layer] ?? 'skip') !== 'skip')
+    .map(polyline => ({
+      type: layerTypes[polyline.layer] as ZoneType,
+      points: polyline.points.map(point => ({ x: point.x * scale, y: -point.y * scale })),
+    }));
+  if (polylines.length === 0) return [];
+
+  // Large drawings have too many vertices to spread into Math.min.
+  const { minX, maxX, minY, maxY } = polylines.reduce(
+    (bounds, polyline) =>
+      polyline.points.reduce(
+        (inner, point) => ({
+          minX: Math.min(inner.minX, point.x),
+          maxX: Math.max(inner.maxX, point.x),
+          minY: Math.min(inner.minY, point.y),
+          maxY: Math.max(inner.maxY, point.y),
+        }),
+        bounds
+      ),
+    { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity }
+  );
+  const overlaps = maxX > 0 && minX < dimensions.width && maxY > 0 && minY < dimensions.height;
+  const offset = overlaps
+    ? { x: 0, y: 0 }
+    : { x: (dimensions.width - minX - maxX) / 2, y: (dimensions.height - minY - maxY) / 2 };
+
+  return polylines.map(polyline => {
+    const points = polyline.points.map(point => ({ x: point.x + offset.x, y: point.y + offset.y }));
+    const closed = [...points, points[0]];
+    return { id: createId(), points: closed, area: calculatePixelArea(closed), type: polyline.type };
+  });
+};
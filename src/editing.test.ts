@@ -0,0 +1,77 @@
+import { findEdgeAt, findVertexAt, insertVertex, moveVertex, removeVertex } from './editing';
+import { createOutlineShape } from './curves';
+import { Shape } from './types';
+
+const square: Shape = {
+  id: 'square',
+  points: [
+    { x: 0, y: 0 },
+    { x: 10, y: 0 },
+    { x: 10, y: 10 },
+    { x: 0, y: 10 },
+    { x: 0, y: 0 },
+  ],
+  area: 100,
+  type: 'regular',
+};
+
+test('vertices and edges are found within the threshold', () => {
+  expect(findVertexAt([square], { x: 9, y: 1 }, 2)).toEqual({ shapeIndex: 0, vertexIndex: 1 });
+  expect(findVertexAt([square], { x: 5, y: 5 }, 2)).toBeNull();
+  expect(findEdgeAt([square], { x: 5, y: 11 }, 2)).toEqual({ shapeIndex: 0, edgeIndex: 2 });
+});
+
+test('only the shapes in the search order are found', () => {
+  expect(findVertexAt([square, square], { x: 0, y: 0 }, 2)).toEqual({ shapeIndex: 1, vertexIndex: 0 });
+  expect(findVertexAt([square, square], { x: 0, y: 0 }, 2, [0])).toEqual({ shapeIndex: 0, vertexIndex: 0 });
+  expect(findEdgeAt([square, square], { x: 5, y: 11 }, 2, [])).toBeNull();
+});
+
+test('moving the first vertex keeps the shape closed and updates its area', () => {
+  const moved = moveVertex(square, 0, { x: -10, y: 0 });
+
+  expect(moved.points[0]).toEqual({ x: -10, y: 0 });
+  expect(moved.points[moved.points.length - 1]).toEqual({ x: -10, y: 0 });
+  expect(moved.area).toBe(150);
+});
+
+test('vertices can be inserted on an edge and removed again', () => {
+  const inserted = insertVertex(square, 0, { x: 5, y: -5 });
+
+  expect(inserted.points).toHaveLength(6);
+  expect(inserted.points[1]).toEqual({ x: 5, y: -5 });
+  expect(inserted.area).toBe(125);
+  expect(removeVertex(inserted, 1)).toEqual(square);
+});
+
+test('shapes keep at least three vertices', () => {
+  const triangle = removeVertex(square, 3);
+  expect(triangle.points).toHaveLength(4);
+  expect(removeVertex(triangle, 0)).toBe(triangle);
+});
+
+test('curved edges keep their bend through edits', () => {
+  const outline = createOutlineShape(
+    {
+      kind: 'path',
+      vertices: [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+        { x: 0, y: 10 },
+      ],
+      controls: [{ x: 5, y: -10 }, null, null, null],
+    },
+    'regular'
+  );
+  const bowed = { id: 'bowed', ...outline };
+
+  expect(findEdgeAt([bowed], { x: 5, y: -5 }, 1)).toEqual({ shapeIndex: 0, edgeIndex: 0 });
+
+  const split = insertVertex(bowed, 0, { x: 5, y: -5 });
+  expect(split.outline).toMatchObject({ controls: [{ x: 2.5, y: -5 }, { x: 7.5, y: -5 }, null, null, null] });
+  expect(split.area).toBeCloseTo(bowed.area, 9);
+
+  expect(moveVertex(bowed, 2, { x: 20, y: 10 }).outline).toMatchObject({ controls: [{ x: 5, y: -10 }, null, null, null] });
+  expect(removeVertex(bowed, 1).outline).toBeUndefined();
+});
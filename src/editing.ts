@@ -0,0 +1,115 @@
+import { Point, Shape } from './types';
+import { calculatePixelArea, calculatePixelDistance, distanceToSegment, getShapeVertices } from './geometry';
+import { createOutlineShape, flattenEdges, flattenQuadratic, splitQuadratic } from './curves';
+
+export interface VertexRef {
+  shapeIndex: number;
+  vertexIndex: number;
+}
+
+export interface EdgeRef {
+  shapeIndex: number;
+  // Edges run from vertex `edgeIndex` to the next one.
+  edgeIndex: number;
+}
+
+const withVertices = (shape: Shape, vertices: Point[]): Shape => {
+  const points = [...vertices, vertices[0]];
+  return { ...shape, points, area: calculatePixelArea(points) };
+};
+
+const withPath = (shape: Shape, vertices: Point[], controls: (Point | null)[]): Shape => {
+  const { outline, ...rest } = shape;
+  return { ...rest, ...createOutlineShape({ kind: 'path', vertices, controls }, shape.type) };
+};
+
+// Corners of a shape the user can drag; ellipses have none.
+export const getEditableVertices = (shape: Shape): Point[] => {
+  if (shape.outline?.kind === 'ellipse') return [];
+  if (shape.outline?.kind === 'path') return shape.outline.vertices;
+  return getShapeVertices(shape.points);
+};
+
+// Points along each edge, following curved edges.
+const getEdgePaths = (shape: Shape): Point[][] => {
+  const vertices = getEditableVertices(shape);
+  const controls = shape.outline?.kind === 'path' ? shape.outline.controls : [];
+  return vertices.map((vertex, i) => flattenEdges([vertex, vertices[(i + 1) % vertices.length]], [controls[i]]));
+};
+
+// Shape indices from the last drawn to the first.
+const topmostFirst = (shapes: Shape[]): number[] => shapes.map((_, index) => index).reverse();
+
+// Shapes are searched in `order`, topmost first unless given.
+export const findVertexAt = (
+  shapes: Shape[],
+  point: Point,
+  threshold: number,
+  order: number[] = topmostFirst(shapes)
+): VertexRef | null => {
+  for (const shapeIndex of order) {
+    const vertexIndex = getEditableVertices(shapes[shapeIndex]).findIndex(
+      vertex => calculatePixelDistance(vertex, point) <= threshold
+    );
+    if (vertexIndex !== -1) return { shapeIndex, vertexIndex };
+  }
+  return null;
+};
+
+export const findEdgeAt = (
+  shapes: Shape[],
+  point: Point,
+  threshold: number,
+  order: number[] = topmostFirst(shapes)
+): EdgeRef | null => {
+  for (const shapeIndex of order) {
+    const edgeIndex = getEdgePaths(shapes[shapeIndex]).findIndex(path =>
+      path.slice(1).some((end, i) => distanceToSegment(point, path[i], end) <= threshold)
+    );
+    if (edgeIndex !== -1) return { shapeIndex, edgeIndex };
+  }
+  return null;
+};
+
+export const moveVertex = (shape: Shape, vertexIndex: number, point: Point): Shape => {
+  const vertices = getEditableVertices(shape).map((vertex, i) => (i === vertexIndex ? point : vertex));
+  if (shape.outline?.kind === 'path') return withPath(shape, vertices, shape.outline.controls);
+  return withVertices(shape, vertices);
+};
+
+// A curved edge is split where it passes closest to the new vertex, so both
+// halves keep its bend.
+export const insertVertex = (shape: Shape, edgeIndex: number, point: Point): Shape => {
+  const vertices = getEditableVertices(shape);
+  const inserted = [...vertices.slice(0, edgeIndex + 1), point, ...vertices.slice(edgeIndex + 1)];
+  if (shape.outline?.kind !== 'path') return withVertices(shape, inserted);
+
+  const { controls } = shape.outline;
+  const control = controls[edgeIndex];
+  let halves: (Point | null)[] = [null, null];
+  if (control) {
+    const start = vertices[edgeIndex];
+    const end = vertices[(edgeIndex + 1) % vertices.length];
+    const samples = flattenQuadratic(start, control, end);
+    const distances = samples.map(sample => calculatePixelDistance(sample, point));
+    const t = (distances.indexOf(Math.min(...distances)) + 1) / samples.length;
+    halves = splitQuadratic(start, control, end, t);
+  }
+  return withPath(shape, inserted, [...controls.slice(0, edgeIndex), ...halves, ...controls.slice(edgeIndex + 1)]);
+};
+
+// Shapes keep at least three vertices; removing one more leaves them as is.
+// The two edges meeting at a removed vertex become one straight edge.
+export const removeVertex = (shape: Shape, vertexIndex: number): Shape => {
+  const vertices = getEditableVertices(shape);
+  if (vertices.length <= 3) return shape;
+
+  const remaining = vertices.filter((_, i) => i !== vertexIndex);
+  if (shape.outline?.kind !== 'path') return withVertices(shape, remaining);
+
+  const previous = (vertexIndex - 1 + vertices.length) % vertices.length;
+  const controls = shape.outline.controls
+    .map((control, i) => (i === previous ? null : control))
+    .filter((_, i) => i !== vertexIndex);
+  return withPath(shape, remaining, controls);
+};
@@ -0,0 +1,139 @@
+import {
+  GeoJsonError,
+  fitGeoreference,
+  geoPolygonsToShapes,
+  geoToPixel,
+  getGeoResiduals,
+  getMetersPerPixel,
+  getNorthAngle,
+  parseGeoJson,
+  pixelToGeo,
+  toGeoJson,
+  toKml,
+} from './geo';
+import { GeoControlPoint, Point } from './types';
+
+const METERS_PER_DEGREE = (6378137 * Math.PI) / 180;
+const origin = { lat: 45, lon: -122 };
+
+// A position the given meters east and north of the origin.
+const offset = (east: number, north: number) => ({
+  lat: origin.lat + north / METERS_PER_DEGREE,
+  lon: origin.lon + east / (METERS_PER_DEGREE * Math.cos((origin.lat * Math.PI) / 180)),
+});
+
+const controlPoint = (id: string, point: Point, east: number, north: number): GeoControlPoint => ({
+  id,
+  point,
+  ...offset(east, north),
+});
+
+// North up at 0.1 m per pixel.
+const northUp = [controlPoint('a', { x: 0, y: 100 }, 0, 0), controlPoint('b', { x: 100, y: 0 }, 10, 10)];
+
+const square = [
+  { x: 0, y: 0 },
+  { x: 100, y: 0 },
+  { x: 100, y: 100 },
+  { x: 0, y: 100 },
+  { x: 0, y: 0 },
+];
+
+test('two control points fix the scale, rotation and position', () => {
+  const geo = fitGeoreference(northUp)!;
+
+  expect(getMetersPerPixel(geo)).toBeCloseTo(0.1, 6);
+  expect(getNorthAngle(geo)).toBeCloseTo(0, 3);
+  const position = pixelToGeo(geo, { x: 50, y: 50 });
+  const expected = offset(5, 5);
+  expect(position.lat).toBeCloseTo(expected.lat, 9);
+  expect(position.lon).toBeCloseTo(expected.lon, 9);
+  const back = geoToPixel(geo, position);
+  expect(back.x).toBeCloseTo(50, 6);
+  expect(back.y).toBeCloseTo(50, 6);
+  expect(fitGeoreference(northUp.slice(0, 1))).toBeNull();
+});
+
+test('the north arrow follows a rotated image', () => {
+  // North points right, so east points down the image.
+  const geo = fitGeoreference([controlPoint('a', { x: 0, y: 0 }, 0, 0), controlPoint('b', { x: 100, y: 100 }, 10, 10)])!;
+
+  expect(getNorthAngle(geo)).toBeCloseTo(90, 3);
+  expect(getMetersPerPixel(geo)).toBeCloseTo(0.1, 6);
+});
+
+test('extra control points are averaged and their errors reported', () => {
+  const points = [...northUp, controlPoint('c', { x: 100, y: 100 }, 10.3, 0)];
+  const geo = fitGeoreference(points)!;
+  const residuals = getGeoResiduals(geo, points);
+
+  expect(residuals).toHaveLength(3);
+  expect(Math.max(...residuals)).toBeGreaterThan(0.05);
+  expect(Math.max(...residuals)).toBeLessThan(0.3);
+  getGeoResiduals(fitGeoreference(northUp)!, northUp).forEach(residual => expect(residual).toBeCloseTo(0, 6));
+});
+
+test('zones export as counterclockwise GeoJSON polygons with their type and area', () => {
+  const geo = fitGeoreference(northUp)!;
+  const collection = JSON.parse(toGeoJson([{ name: 'Lawn', type: 'regular', points: square, area: 107.64 }], geo, 'ft²'));
+  const [feature] = collection.features;
+
+  expect(feature.properties).toEqual({ name: 'Lawn', type: 'regular', area: 107.64, areaUnit: 'ft²' });
+  const ring: [number, number][] = feature.geometry.coordinates[0];
+  expect(ring).toHaveLength(5);
+  expect(ring[4]).toEqual(ring[0]);
+  const signedArea = ring.slice(0, -1).reduce((sum, [x, y], i) => sum + x * ring[i + 1][1] - ring[i + 1][0] * y, 0);
+  expect(signedArea).toBeGreaterThan(0);
+});
+
+test('KML placemarks carry a style per zone type', () => {
+  const geo = fitGeoreference(northUp)!;
+  const kml = toKml(
+    [{ name: 'Beds & Borders', type: 'drip', points: square, area: null }],
+    geo,
+    'm²',
+    'Front Yard',
+    { regular: { stroke: '#2ecc71' }, drip: { stroke: '#9b59b6' }, exclusion: { stroke: '#e74c3c' } }
+  );
+
+  expect(kml).toContain('<name>Beds &amp; Borders</name>');
+  expect(kml).toContain('<styleUrl>#drip</styleUrl>');
+  expect(kml).toContain('<color>ffb6599b</color>');
+  expect(kml).toContain('<Data name="type"><value>drip</value></Data>');
+  expect(kml.match(/,0 /g)).toHaveLength(4);
+});
+
+test('polygons are read from GeoJSON and placed on the image', () => {
+  const geo = fitGeoreference(northUp)!;
+  const ring = [offset(0, 0), offset(10, 0), offset(10, 10), offset(0, 0)].map(({ lat, lon }) => [lon, lat]);
+  const polygons = parseGeoJson(
+    JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: { NAME: 'Parcel 12' }, geometry: { type: 'Polygon', coordinates: [ring] } },
+        { type: 'Feature', properties: {}, geometry: { type: 'MultiPolygon', coordinates: [[ring], [ring]] } },
+        { type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: ring[0] } },
+      ],
+    })
+  );
+
+  expect(polygons).toHaveLength(3);
+  expect(polygons[0].name).toBe('Parcel 12');
+  expect(polygons[0].ring).toHaveLength(3);
+
+  const [shape] = geoPolygonsToShapes(polygons, geo, 'exclusion');
+  expect(shape.type).toBe('exclusion');
+  expect(shape.name).toBe('Parcel 12');
+  expect(shape.points).toHaveLength(4);
+  expect(shape.points[1].x).toBeCloseTo(100, 4);
+  expect(shape.points[1].y).toBeCloseTo(100, 4);
+  expect(shape.area).toBeCloseTo(5000, 1);
+});
+
+test('GeoJSON that is not longitude and latitude is rejected', () => {
+  const projected = { type: 'Polygon', coordinates: [[[500000, 4980000], [500010, 4980000], [500010, 4980010]]] };
+
+  expect(() => parseGeoJson(JSON.stringify(projected))).toThrow('Coordinates must be longitude and latitude (WGS 84).');
+  expect(() => parseGeoJson('{"type": "FeatureCollection", "features": []}')).toThrow(GeoJsonError);
+  expect(() => parseGeoJson('<kml/>')).toThrow('The file is not valid JSON.');
+});
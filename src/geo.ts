@@ -0,0 +1,275 @@
+import { GeoControlPoint, Point, Shape } from './types';
+import { calculatePixelArea, solveLinearSystem } from './geometry';
+import { escapeXml } from './print';
+import { createId } from './utils';
+
+type ZoneType = Exclude<Shape['type'], 'delete'>;
+
+export interface GeoPosition {
+  lat: number;
+  lon: number;
+}
+
+// Places image pixels on the ground around `origin`, in meters east and
+// north of it: east = a·x + b·y + c, north = b·x − a·y + d. That is a
+// rotation, uniform scale and shift, with the y axis flipped because image
+// rows run south.
+export interface Georeference {
+  origin: GeoPosition;
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+}
+
+// A zone as it is exported, with its area already in display units.
+export interface GeoZone {
+  name: string;
+  type: ZoneType;
+  points: Point[];
+  area: number | null;
+}
+
+export interface GeoPolygon {
+  name?: string;
+  // Outer boundary, without repeating the first position.
+  ring: GeoPosition[];
+}
+
+export class GeoJsonError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeoJsonError';
+  }
+}
+
+// WGS 84 equatorial radius in meters.
+const EARTH_RADIUS = 6378137;
+const RADIANS_PER_DEGREE = Math.PI / 180;
+
+// Equirectangular projection around the origin, accurate to well under a
+// centimeter across a property.
+const toLocal = (origin: GeoPosition, position: GeoPosition): { east: number; north: number } => ({
+  east: (position.lon - origin.lon) * RADIANS_PER_DEGREE * EARTH_RADIUS * Math.cos(origin.lat * RADIANS_PER_DEGREE),
+  north: (position.lat - origin.lat) * RADIANS_PER_DEGREE * EARTH_RADIUS,
+});
+
+const fromLocal = (origin: GeoPosition, east: number, north: number): GeoPosition => ({
+  lat: origin.lat + north / EARTH_RADIUS / RADIANS_PER_DEGREE,
+  lon: origin.lon + east / (EARTH_RADIUS * Math.cos(origin.lat * RADIANS_PER_DEGREE)) / RADIANS_PER_DEGREE,
+});
+
+// Least-squares fit through the control points; two are enough, and more
+// average out errors in where they were clicked or measured.
+export const fitGeoreference = (points: GeoControlPoint[]): Georeference | null => {
+  if (points.length < 2) return null;
+  const origin = {
+    lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+    lon: points.reduce((sum, point) => sum + point.lon, 0) / points.length,
+  };
+
+  // Normal equations for [a, b, c, d].
+  const normal = [0, 1, 2, 3].map(() => [0, 0, 0, 0]);
+  const rhs = [0, 0, 0, 0];
+  points.forEach(({ point, ...position }) => {
+    const { east, north } = toLocal(origin, position);
+    const rows: [number[], number][] = [
+      [[point.x, point.y, 1, 0], east],
+      [[-point.y, point.x, 0, 1], north],
+    ];
+    rows.forEach(([row, value]) => {
+      row.forEach((entry, i) => {
+        rhs[i] += entry * value;
+        row.forEach((other, j) => (normal[i][j] += entry * other));
+      });
+    });
+  });
+  const [a, b, c, d] = solveLinearSystem(normal, rhs);
+  if (![a, b, c, d].every(Number.isFinite) || Math.hypot(a, b) < 1e-12) return null;
+  return { origin, a, b, c, d };
+};
+
+export const pixelToGeo = (geo: Georeference, point: Point): GeoPosition =>
+  fromLocal(geo.origin, geo.a * point.x + geo.b * point.y + geo.c, geo.b * point.x - geo.a * point.y + geo.d);
+
+export const geoToPixel = (geo: Georeference, position: GeoPosition): Point => {
+  const { east, north } = toLocal(geo.origin, position);
+  const scale = geo.a * geo.a + geo.b * geo.b;
+  return {
+    x: (geo.a * (east - geo.c) + geo.b * (north - geo.d)) / scale,
+    y: (geo.b * (east - geo.c) - geo.a * (north - geo.d)) / scale,
+  };
+};
+
+export const getMetersPerPixel = (geo: Georeference): number => Math.hypot(geo.a, geo.b);
+
+// Degrees clockwise from the top of the image to north.
+export const getNorthAngle = (geo: Georeference): number => Math.atan2(geo.b, geo.a) / RADIANS_PER_DEGREE;
+
+// How far, in meters, the fit puts each control point from where it was
+// said to be.
+export const getGeoResiduals = (geo: Georeference, points: GeoControlPoint[]): number[] =>
+  points.map(({ point, ...position }) => {
+    const fitted = toLocal(geo.origin, pixelToGeo(geo, point));
+    const given = toLocal(geo.origin, position);
+    return Math.hypot(fitted.east - given.east, fitted.north - given.north);
+  });
+
+const roundDegrees = (value: number): number => Math.round(value * 1e7) / 1e7;
+
+// Closed ring of [lon, lat] positions, counterclockwise as GeoJSON asks.
+const toRing = (geo: Georeference, points: Point[]): [number, number][] => {
+  const last = points[points.length - 1];
+  const open = last.x === points[0].x && last.y === points[0].y ? points.slice(0, -1) : points;
+  const ring = open.map(point => {
+    const { lat, lon } = pixelToGeo(geo, point);
+    return [roundDegrees(lon), roundDegrees(lat)] as [number, number];
+  });
+  const signedArea = ring.reduce((sum, [x, y], i) => {
+    const [nextX, nextY] = ring[(i + 1) % ring.length];
+    return sum + x * nextY - nextX * y;
+  }, 0);
+  if (signedArea < 0) ring.reverse();
+  return [...ring, ring[0]];
+};
+
+export const toGeoJson = (zones: GeoZone[], geo: Georeference, areaUnit: string): string =>
+  JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: zones.map(zone => ({
+        type: 'Feature',
+        properties: { name: zone.name, type: zone.type, area: zone.area, areaUnit },
+        geometry: { type: 'Polygon', coordinates: [toRing(geo, zone.points)] },
+      })),
+    },
+    null,
+    2
+  );
+
+// KML colors are aabbggrr.
+const toKmlColor = (hex: string, alpha: string): string =>
+  `${alpha}${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`.toLowerCase();
+
+export const toKml = (
+  zones: GeoZone[],
+  geo: Georeference,
+  areaUnit: string,
+  title: string,
+  colors: Record<ZoneType, { stroke: string }>
+): string => {
+  const styles = (Object.keys(colors) as ZoneType[]).map(
+    type =>
+      `    <Style id="${type}"><LineStyle><color>${toKmlColor(colors[type].stroke, 'ff')}</color><width>2</width></LineStyle>` +
+      `<PolyStyle><color>${toKmlColor(colors[type].stroke, '55')}</color></PolyStyle></Style>`
+  );
+  const placemarks = zones.map(zone => {
+    const coordinates = toRing(geo, zone.points)
+      .map(([lon, lat]) => `${lon},${lat},0`)
+      .join(' ');
+    const data = [
+      ['type', zone.type],
+      ['area', zone.area === null ? '' : String(zone.area)],
+      ['areaUnit', areaUnit],
+    ]
+      .map(([name, value]) => `<Data name="${name}"><value>${escapeXml(value)}</value></Data>`)
+      .join('');
+    return [
+      '    <Placemark>',
+      `      <name>${escapeXml(zone.name)}</name>`,
+      `      <styleUrl>#${zone.type}</styleUrl>`,
+      `      <ExtendedData>${data}</ExtendedData>`,
+      `      <Polygon><outerBoundaryIs><LinearRing><coordinates>${coordinates}</coordinates></LinearRing></outerBoundaryIs></Polygon>`,
+      '    </Placemark>',
+    ].join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(title)}</name>`,
+    ...styles,
+    ...placemarks,
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readRing = (value: unknown): GeoPosition[] => {
+  if (!Array.isArray(value) || !Array.isArray(value[0])) {
+    throw new GeoJsonError('A polygon has no outer ring.');
+  }
+  const ring = (value[0] as unknown[]).map(position => {
+    if (!Array.isArray(position) || typeof position[0] !== 'number' || typeof position[1] !== 'number') {
+      throw new GeoJsonError('A polygon has a position that is not a pair of numbers.');
+    }
+    const [lon, lat] = position;
+    if (Math.abs(lon) > 180 || Math.abs(lat) > 90) {
+      throw new GeoJsonError('Coordinates must be longitude and latitude (WGS 84).');
+    }
+    return { lat, lon };
+  });
+  const last = ring[ring.length - 1];
+  return last && last.lat === ring[0].lat && last.lon === ring[0].lon ? ring.slice(0, -1) : ring;
+};
+
+const readGeometry = (geometry: unknown, name: string | undefined, polygons: GeoPolygon[]) => {
+  if (!isObject(geometry)) return;
+  if (geometry.type === 'Polygon') {
+    polygons.push({ name, ring: readRing(geometry.coordinates) });
+  } else if (geometry.type === 'MultiPolygon' && Array.isArray(geometry.coordinates)) {
+    geometry.coordinates.forEach(polygon => polygons.push({ name, ring: readRing(polygon) }));
+  } else if (geometry.type === 'GeometryCollection' && Array.isArray(geometry.geometries)) {
+    geometry.geometries.forEach(part => readGeometry(part, name, polygons));
+  }
+};
+
+const readFeatureName = (properties: unknown): string | undefined => {
+  if (!isObject(properties)) return undefined;
+  const key = ['name', 'Name', 'NAME'].find(candidate => typeof properties[candidate] === 'string');
+  return key && (properties[key] as string);
+};
+
+// Outer rings of every polygon in a GeoJSON file, named after their feature.
+// Holes and other geometry are left out.
+export const parseGeoJson = (text: string): GeoPolygon[] => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new GeoJsonError('The file is not valid JSON.');
+  }
+  if (!isObject(document)) throw new GeoJsonError('The file does not contain GeoJSON.');
+
+  const polygons: GeoPolygon[] = [];
+  const features =
+    document.type === 'FeatureCollection' && Array.isArray(document.features)
+      ? document.features
+      : document.type === 'Feature'
+      ? [document]
+      : [{ geometry: document }];
+  features.forEach(feature => {
+    if (isObject(feature)) readGeometry(feature.geometry, readFeatureName(feature.properties), polygons);
+  });
+
+  const usable = polygons.filter(polygon => polygon.ring.length >= 3);
+  if (usable.length === 0) throw new GeoJsonError('It has no polygons.');
+  return usable;
+};
+
+export const geoPolygonsToShapes = (polygons: GeoPolygon[], geo: Georeference, type: ZoneType): Shape[] =>
+  polygons.map(polygon => {
+    const ring = polygon.ring.map(position => geoToPixel(geo, position));
+    const points = [...ring, ring[0]];
+    return {
+      id: createId(),
+      points,
+      area: calculatePixelArea(points),
+      type,
+      ...(polygon.name ? { name: polygon.name } : {}),
+    };
+  });
@@ -0,0 +1,80 @@
+import { Point } from './types';
+
+export const calculatePixelArea = (points: Point[]): number => {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const j = (i + 1) % points.length;
+    area += points[i].x * points[j].y;
+    area -= points[j].x * points[i].y;
+  }
+  return Math.abs(area) / 2;
+};
+
+export const calculatePixelDistance = (p1: Point, p2: Point): number => {
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+export const isPointInShape = (point: Point, shape: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = shape.length - 1; i < shape.length; j = i++) {
+    const xi = shape[i].x,
+      yi = shape[i].y;
+    const xj = shape[j].x,
+      yj = shape[j].y;
+
+    if (((yi > point.y) !== (yj > point.y)) && point.x < ((xj - xi) * (point.y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const closestPointOnSegment = (point: Point, a: Point, b: Point): Point => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return a;
+
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+};
+
+export const distanceToSegment = (point: Point, a: Point, b: Point): number =>
+  calculatePixelDistance(point, closestPointOnSegment(point, a, b));
+
+// Closed shapes repeat their first point at the end; strip it so each
+// vertex is visited once.
+export const getShapeVertices = (points: Point[]): Point[] => {
+  if (points.length > 1) {
+    const first = points[0];
+    const last = points[points.length - 1];
+    if (first.x === last.x && first.y === last.y) return points.slice(0, -1);
+  }
+  return points;
+};
+
+// Gaussian elimination with partial pivoting on a small square system.
+export const solveLinearSystem = (matrix: number[][], vector: number[]): number[] => {
+  const rows = matrix.map((row, i) => [...row, vector[i]]);
+  const size = rows.length;
+  for (let column = 0; column < size; column++) {
+    const pivot = rows.reduce(
+      (best, row, i) => (i >= column && Math.abs(row[column]) > Math.abs(rows[best][column]) ? i : best),
+      column
+    );
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+    for (let i = column + 1; i < size; i++) {
+      const factor = rows[i][column] / rows[column][column];
+      for (let j = column; j <= size; j++) rows[i][j] -= factor * rows[column][j];
+    }
+  }
+
+  const solution = new Array<number>(size).fill(0);
+  for (let i = size - 1; i >= 0; i--) {
+    const known = rows[i].slice(i + 1, size).reduce((sum, value, j) => sum + value * solution[i + 1 + j], 0);
+    solution[i] = (rows[i][size] - known) / rows[i][i];
+  }
+  return solution;
+};
@@ -0,0 +1,52 @@
+import { calculateRegionCoverage, isPointCoveredByHead } from './heads';
+import { SprinklerHead } from './types';
+
+const makeHead = (overrides: Partial<SprinklerHead> = {}): SprinklerHead => ({
+  id: 'head',
+  position: { x: 0, y: 0 },
+  type: 'spray',
+  radius: 10,
+  arc: 360,
+  rotation: 0,
+  ...overrides,
+});
+
+test('full circle heads cover points within their radius', () => {
+  const head = makeHead();
+  expect(isPointCoveredByHead({ x: 5, y: 5 }, head, 1)).toBe(true);
+  expect(isPointCoveredByHead({ x: 8, y: 8 }, head, 1)).toBe(false);
+});
+
+test('radius is converted to pixels through the pixel ratio', () => {
+  const head = makeHead();
+  expect(isPointCoveredByHead({ x: 15, y: 0 }, head, 0.5)).toBe(true);
+  expect(isPointCoveredByHead({ x: 25, y: 0 }, head, 0.5)).toBe(false);
+});
+
+test('part circle heads only cover their sector clockwise from the rotation', () => {
+  const head = makeHead({ arc: 90, rotation: 0 });
+  expect(isPointCoveredByHead({ x: 5, y: 5 }, head, 1)).toBe(true);
+  expect(isPointCoveredByHead({ x: -5, y: 5 }, head, 1)).toBe(false);
+  expect(isPointCoveredByHead({ x: 5, y: -5 }, head, 1)).toBe(false);
+});
+
+test('strip nozzles cover a narrow rectangle along the rotation', () => {
+  const head = makeHead({ type: 'strip', radius: 15, rotation: 90 });
+  expect(isPointCoveredByHead({ x: 1, y: 14 }, head, 1)).toBe(true);
+  expect(isPointCoveredByHead({ x: 3, y: 14 }, head, 1)).toBe(false);
+  expect(isPointCoveredByHead({ x: 0, y: -1 }, head, 1)).toBe(false);
+});
+
+test('region coverage is the share of sampled points reached by any head', () => {
+  const region = {
+    type: 'regular' as const,
+    points: [
+      { x: 0, y: 0 },
+      { x: 5, y: 0 },
+      { x: 20, y: 0 },
+      { x: 40, y: 0 },
+    ],
+  };
+  expect(calculateRegionCoverage(region, [makeHead()], 1)).toBe(0.5);
+  expect(calculateRegionCoverage(region, [makeHead(), makeHead({ position: { x: 30, y: 0 } })], 1)).toBe(1);
+});
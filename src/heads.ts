@@ -0,0 +1,132 @@
+import { HeadType, Nozzle, Point, Region, SprinklerHead } from './types';
+import { normalizeAngle, toRadians } from './utils';
+
+export const HEAD_LABELS: Record<HeadType, string> = {
+  rotor: 'Rotor',
+  spray: 'Fixed Spray',
+  strip: 'Strip Nozzle',
+};
+
+export const HEAD_DEFAULTS: Record<HeadType, { radius: { ft: number; m: number }; arc: number }> = {
+  rotor: { radius: { ft: 30, m: 9 }, arc: 360 },
+  spray: { radius: { ft: 12, m: 3.5 }, arc: 360 },
+  strip: { radius: { ft: 15, m: 4.5 }, arc: 0 },
+};
+
+export const NOZZLE_CATALOG: Nozzle[] = [
+  { id: 'spray-8', name: "8' Spray", type: 'spray', radius: { ft: 8, m: 2.4 }, arcs: [90, 180, 270, 360] },
+  { id: 'spray-10', name: "10' Spray", type: 'spray', radius: { ft: 10, m: 3 }, arcs: [90, 180, 270, 360] },
+  { id: 'spray-12', name: "12' Spray", type: 'spray', radius: { ft: 12, m: 3.7 }, arcs: [90, 180, 270, 360] },
+  { id: 'spray-15', name: "15' Spray", type: 'spray', radius: { ft: 15, m: 4.6 }, arcs: [90, 180, 270, 360] },
+  { id: 'rotor-25', name: "25' Rotor", type: 'rotor', radius: { ft: 25, m: 7.6 }, arcs: [90, 180, 270, 360] },
+  { id: 'rotor-35', name: "35' Rotor", type: 'rotor', radius: { ft: 35, m: 10.7 }, arcs: [90, 180, 270, 360] },
+];
+
+// Strip nozzles throw a rectangle rather than a sector; the standard
+// pattern is 4 units wide for every 15 units of throw.
+export const STRIP_WIDTH_RATIO = 4 / 15;
+
+// Radius in image pixels of the dot marking the head position.
+export const HEAD_MARKER_RADIUS = 4;
+
+export const HEAD_COLORS = {
+  fill: 'rgba(52, 152, 219, 0.15)',
+  stroke: '#2980b9',
+} as const;
+
+export const getHeadPixelRadius = (head: SprinklerHead, pixelRatio: number): number =>
+  head.radius / pixelRatio;
+
+export const isPointCoveredByHead = (point: Point, head: SprinklerHead, pixelRatio: number): boolean => {
+  const radius = getHeadPixelRadius(head, pixelRatio);
+  const dx = point.x - head.position.x;
+  const dy = point.y - head.position.y;
+
+  if (head.type === 'strip') {
+    const angle = toRadians(head.rotation);
+    const along = dx * Math.cos(angle) + dy * Math.sin(angle);
+    const across = -dx * Math.sin(angle) + dy * Math.cos(angle);
+    return along >= 0 && along <= radius && Math.abs(across) <= (radius * STRIP_WIDTH_RATIO) / 2;
+  }
+
+  if (dx * dx + dy * dy > radius * radius) return false;
+  if (head.arc >= 360) return true;
+
+  const angle = normalizeAngle((Math.atan2(dy, dx) * 180) / Math.PI - head.rotation);
+  return angle <= head.arc;
+};
+
+export const isPointNearHead = (point: Point, head: SprinklerHead, threshold: number): boolean => {
+  const dx = point.x - head.position.x;
+  const dy = point.y - head.position.y;
+  return Math.sqrt(dx * dx + dy * dy) <= threshold;
+};
+
+export const calculateRegionCoverage = (
+  region: Pick<Region, 'points'>,
+  heads: SprinklerHead[],
+  pixelRatio: number
+): number => {
+  if (region.points.length === 0) return 0;
+
+  const bounds = heads.map(head => {
+    const radius = getHeadPixelRadius(head, pixelRatio);
+    return {
+      head,
+      minX: head.position.x - radius,
+      maxX: head.position.x + radius,
+      minY: head.position.y - radius,
+      maxY: head.position.y + radius,
+    };
+  });
+
+  const covered = region.points.filter(point =>
+    bounds.some(
+      ({ head, minX, maxX, minY, maxY }) =>
+        point.x >= minX &&
+        point.x <= maxX &&
+        point.y >= minY &&
+        point.y <= maxY &&
+        isPointCoveredByHead(point, head, pixelRatio)
+    )
+  );
+
+  return covered.length / region.points.length;
+};
+
+// `zoom` is the view scale; outlines and markers keep their on-screen size.
+export const drawHead = (ctx: CanvasRenderingContext2D, head: SprinklerHead, pixelRatio: number, zoom = 1) => {
+  const radius = getHeadPixelRadius(head, pixelRatio);
+  const { x, y } = head.position;
+
+  ctx.fillStyle = HEAD_COLORS.fill;
+  ctx.strokeStyle = HEAD_COLORS.stroke;
+  ctx.lineWidth = 2 / zoom;
+  ctx.beginPath();
+
+  if (head.type === 'strip') {
+    const angle = toRadians(head.rotation);
+    const halfWidth = (radius * STRIP_WIDTH_RATIO) / 2;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    ctx.moveTo(x - sin * halfWidth, y + cos * halfWidth);
+    ctx.lineTo(x + cos * radius - sin * halfWidth, y + sin * radius + cos * halfWidth);
+    ctx.lineTo(x + cos * radius + sin * halfWidth, y + sin * radius - cos * halfWidth);
+    ctx.lineTo(x + sin * halfWidth, y - cos * halfWidth);
+    ctx.closePath();
+  } else if (head.arc >= 360) {
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+  } else {
+    ctx.moveTo(x, y);
+    ctx.arc(x, y, radius, toRadians(head.rotation), toRadians(head.rotation + head.arc));
+    ctx.closePath();
+  }
+
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.fillStyle = HEAD_COLORS.stroke;
+  ctx.beginPath();
+  ctx.arc(x, y, HEAD_MARKER_RADIUS / zoom, 0, Math.PI * 2);
+  ctx.fill();
+};
@@ -0,0 +1,42 @@
+import { EMPTY_HISTORY, MAX_HISTORY, PlanSnapshot, recordHistory, redoHistory, undoHistory } from './history';
+
+const snapshot = (pixelRatio: number): PlanSnapshot => ({
+  shapes: [],
+  ruler: null,
+  scaleReferences: [],
+  pixelRatio,
+  heads: [],
+  pipes: [],
+  valveZones: [],
+  measurements: [],
+  geoPoints: [],
+});
+
+test('undo and redo walk back and forth through recorded edits', () => {
+  const history = recordHistory(recordHistory(EMPTY_HISTORY, snapshot(1)), snapshot(2));
+
+  const undone = undoHistory(history, snapshot(3));
+  expect(undone?.snapshot.pixelRatio).toBe(2);
+
+  const redone = redoHistory(undone!.history, undone!.snapshot);
+  expect(redone?.snapshot.pixelRatio).toBe(3);
+  expect(redone?.history.past.map(entry => entry.pixelRatio)).toEqual([1, 2]);
+});
+
+test('a new edit clears the redo stack', () => {
+  const undone = undoHistory(recordHistory(EMPTY_HISTORY, snapshot(1)), snapshot(2));
+  const history = recordHistory(undone!.history, snapshot(1));
+
+  expect(history.future).toHaveLength(0);
+  expect(redoHistory(history, snapshot(4))).toBeNull();
+});
+
+test('history keeps a bounded number of edits', () => {
+  let history = EMPTY_HISTORY;
+  for (let i = 0; i < MAX_HISTORY + 10; i++) {
+    history = recordHistory(history, snapshot(i));
+  }
+
+  expect(history.past).toHaveLength(MAX_HISTORY);
+  expect(history.past[0].pixelRatio).toBe(10);
+});
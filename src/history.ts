@@ -0,0 +1,62 @@
+import { GeoControlPoint, Measurement, Pipe, Ruler, ScaleReference, Shape, SprinklerHead, ValveZone } from './types';
+
+export interface PlanSnapshot {
+  shapes: Shape[];
+  ruler: Ruler | null;
+  scaleReferences: ScaleReference[];
+  pixelRatio: number | null;
+  heads: SprinklerHead[];
+  pipes: Pipe[];
+  valveZones: ValveZone[];
+  measurements: Measurement[];
+  geoPoints: GeoControlPoint[];
+}
+
+export interface History {
+  past: PlanSnapshot[];
+  future: PlanSnapshot[];
+}
+
+export const MAX_HISTORY = 50;
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+export const isSameSnapshot = (a: PlanSnapshot, b: PlanSnapshot): boolean =>
+  a.shapes === b.shapes &&
+  a.ruler === b.ruler &&
+  a.scaleReferences === b.scaleReferences &&
+  a.pixelRatio === b.pixelRatio &&
+  a.heads === b.heads &&
+  a.pipes === b.pipes &&
+  a.valveZones === b.valveZones &&
+  a.measurements === b.measurements &&
+  a.geoPoints === b.geoPoints;
+
+// Records the plan as it was before an edit; a new edit discards anything
+// that could have been redone.
+export const recordHistory = (history: History, previous: PlanSnapshot): History => ({
+  past: [...history.past, previous].slice(-MAX_HISTORY),
+  future: [],
+});
+
+export const undoHistory = (
+  history: History,
+  current: PlanSnapshot
+): { history: History; snapshot: PlanSnapshot } | null => {
+  if (history.past.length === 0) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [current, ...history.future] },
+    snapshot: history.past[history.past.length - 1],
+  };
+};
+
+export const redoHistory = (
+  history: History,
+  current: PlanSnapshot
+): { history: History; snapshot: PlanSnapshot } | null => {
+  if (history.future.length === 0) return null;
+  return {
+    history: { past: [...history.past, current], future: history.future.slice(1) },
+    snapshot: history.future[0],
+  };
+};
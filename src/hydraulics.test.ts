@@ -0,0 +1,75 @@
+import {
+  calculateEmitterCount,
+  calculateValveFlow,
+  createValveZone,
+  removeValveHeads,
+  removeValveShapes,
+  toggleValveHead,
+} from './hydraulics';
+import { Shape, SprinklerHead } from './types';
+
+const drip = { emitterFlow: 1, emitterSpacing: 1 };
+
+const makeHead = (id: string, x: number, y: number, flow?: number): SprinklerHead => ({
+  id,
+  position: { x, y },
+  type: 'spray',
+  radius: 10,
+  arc: 360,
+  rotation: 0,
+  flow,
+});
+
+const square = (type: Shape['type']): Shape => ({
+  id: type,
+  points: [
+    { x: 0, y: 0 },
+    { x: 10, y: 0 },
+    { x: 10, y: 10 },
+    { x: 0, y: 10 },
+    { x: 0, y: 0 },
+  ],
+  area: 100,
+  type,
+});
+
+test('emitter count covers the drip area at the emitter spacing', () => {
+  expect(calculateEmitterCount(100, 0.5, drip)).toBe(25);
+  expect(calculateEmitterCount(100, 0.5, { ...drip, emitterSpacing: 0 })).toBe(0);
+});
+
+test('valve zones seeded from a regular polygon group the heads inside it', () => {
+  const heads = [makeHead('a', 5, 5), makeHead('b', 20, 5)];
+  const valve = createValveZone('Valve 1', square('regular'), heads);
+
+  expect(valve.headIds).toEqual(['a']);
+  expect(valve.shapeIds).toEqual(['regular']);
+});
+
+test('valve flow adds head flows and drip emitter flow', () => {
+  const heads = [makeHead('a', 5, 5, 2), makeHead('b', 20, 5, 3)];
+  const valve = { id: 'v', name: 'Valve 1', headIds: ['a', 'b'], shapeIds: ['drip'] };
+
+  // 100 emitters at 1 GPH each add 100 / 60 GPM.
+  expect(calculateValveFlow(valve, heads, [square('drip')], 1, drip, 'ft')).toBeCloseTo(5 + 100 / 60);
+  expect(calculateValveFlow(valve, heads, [], 1, drip, 'ft')).toBeCloseTo(5);
+});
+
+test('assigning a head to a valve removes it from other valves', () => {
+  const valves = [
+    { id: 'v1', name: 'Valve 1', headIds: ['a'], shapeIds: [] },
+    { id: 'v2', name: 'Valve 2', headIds: [], shapeIds: [] },
+  ];
+  const [first, second] = toggleValveHead(valves, 'v2', 'a');
+
+  expect(first.headIds).toEqual([]);
+  expect(second.headIds).toEqual(['a']);
+  expect(toggleValveHead([second], 'v2', 'a')[0].headIds).toEqual([]);
+});
+
+test('deleted heads and shapes leave their valve zones', () => {
+  const valves = [{ id: 'v1', name: 'Valve 1', headIds: ['a', 'b'], shapeIds: ['lawn', 'bed'] }];
+
+  expect(removeValveHeads(valves, ['a'])[0].headIds).toEqual(['b']);
+  expect(removeValveShapes(valves, ['bed'])[0].shapeIds).toEqual(['lawn']);
+});
@@ -0,0 +1,86 @@
+import { DripSettings, Shape, SprinklerHead, ValveZone } from './types';
+import { isPointInShape } from './geometry';
+import { createId } from './utils';
+import { estimateHeadFlow } from './precipitation';
+
+export const FLOW_UNITS = { ft: 'GPM', m: 'LPM' } as const;
+
+export const PRESSURE_UNITS = { ft: 'PSI', m: 'bar' } as const;
+
+export const EMITTER_FLOW_UNITS = { ft: 'GPH', m: 'LPH' } as const;
+
+export const DRIP_DEFAULTS: Record<'ft' | 'm', DripSettings> = {
+  ft: { emitterFlow: 1, emitterSpacing: 1.5 },
+  m: { emitterFlow: 4, emitterSpacing: 0.45 },
+};
+
+export const getHeadFlow = (head: SprinklerHead, unit: 'ft' | 'm'): number =>
+  head.flow ?? estimateHeadFlow(head, unit);
+
+export const calculateEmitterCount = (pixelArea: number, pixelRatio: number, drip: DripSettings): number => {
+  if (drip.emitterSpacing <= 0) return 0;
+  const realArea = pixelArea * pixelRatio * pixelRatio;
+  return Math.ceil(realArea / (drip.emitterSpacing * drip.emitterSpacing));
+};
+
+// Emitters are rated per hour, valves per minute.
+export const calculateDripFlow = (pixelArea: number, pixelRatio: number, drip: DripSettings): number =>
+  (calculateEmitterCount(pixelArea, pixelRatio, drip) * drip.emitterFlow) / 60;
+
+export const getValveHeads = (valve: ValveZone, heads: SprinklerHead[]): SprinklerHead[] =>
+  heads.filter(head => valve.headIds.includes(head.id));
+
+export const getValveShapes = (valve: ValveZone, shapes: Shape[]): Shape[] =>
+  shapes.filter(shape => valve.shapeIds.includes(shape.id));
+
+export const calculateValveFlow = (
+  valve: ValveZone,
+  heads: SprinklerHead[],
+  shapes: Shape[],
+  pixelRatio: number,
+  drip: DripSettings,
+  unit: 'ft' | 'm'
+): number => {
+  const headFlow = getValveHeads(valve, heads).reduce((total, head) => total + getHeadFlow(head, unit), 0);
+  const dripFlow = getValveShapes(valve, shapes)
+    .filter(shape => shape.type === 'drip')
+    .reduce((total, shape) => total + calculateDripFlow(shape.area, pixelRatio, drip), 0);
+  return headFlow + dripFlow;
+};
+
+// Seeds a valve zone from a drawn polygon: heads inside a regular polygon are
+// grouped into it, and a drip polygon becomes one of its drip areas.
+export const createValveZone = (name: string, seed: Shape, heads: SprinklerHead[]): ValveZone => ({
+  id: createId(),
+  name,
+  headIds:
+    seed.type === 'regular' ? heads.filter(head => isPointInShape(head.position, seed.points)).map(head => head.id) : [],
+  shapeIds: [seed.id],
+});
+
+// A head is watered by a single valve, so assigning it removes it from any
+// other valve zone.
+export const toggleValveHead = (valveZones: ValveZone[], valveId: string, headId: string): ValveZone[] =>
+  valveZones.map(valve => {
+    if (valve.id === valveId) {
+      return {
+        ...valve,
+        headIds: valve.headIds.includes(headId)
+          ? valve.headIds.filter(id => id !== headId)
+          : [...valve.headIds, headId],
+      };
+    }
+    return { ...valve, headIds: valve.headIds.filter(id => id !== headId) };
+  });
+
+// Heads and shapes leave every valve zone when they are deleted.
+export const removeValveHeads = (valveZones: ValveZone[], headIds: string[]): ValveZone[] =>
+  valveZones.map(valve => ({ ...valve, headIds: valve.headIds.filter(id => !headIds.includes(id)) }));
+
+export const removeValveShapes = (valveZones: ValveZone[], shapeIds: string[]): ValveZone[] =>
+  valveZones.map(valve => ({ ...valve, shapeIds: valve.shapeIds.filter(id => !shapeIds.includes(id)) }));
+
+export const claimValveHeads = (valveZones: ValveZone[], valve: ValveZone): ValveZone[] => [
+  ...valveZones.map(other => ({ ...other, headIds: other.headIds.filter(id => !valve.headIds.includes(id)) })),
+  valve,
+];
@@ -0,0 +1,56 @@
+import {
+  DEFAULT_LAYERS,
+  getEditableLayerIds,
+  getEditableShapeIndices,
+  getLayerLockMessage,
+  getToolLayer,
+  isLayerEditable,
+  moveLayer,
+  updateLayer,
+} from './layers';
+import { Shape } from './types';
+
+const zone = (type: Shape['type']): Shape => ({
+  id: type,
+  points: [
+    { x: 0, y: 0 },
+    { x: 10, y: 0 },
+    { x: 10, y: 10 },
+    { x: 0, y: 0 },
+  ],
+  area: 50,
+  type,
+});
+
+test('layers move one step at a time and stop at either end', () => {
+  const raised = moveLayer(DEFAULT_LAYERS, 'zones', 1);
+
+  expect(raised.map(layer => layer.id)).toEqual(['exclusions', 'zones', 'pipes', 'heads', 'notes']);
+  expect(moveLayer(DEFAULT_LAYERS, 'zones', -1)).toBe(DEFAULT_LAYERS);
+  expect(moveLayer(DEFAULT_LAYERS, 'notes', 1)).toBe(DEFAULT_LAYERS);
+});
+
+test('hidden and locked layers are left out of hit-testing, topmost first', () => {
+  const layers = updateLayer(updateLayer(DEFAULT_LAYERS, 'pipes', { visible: false }), 'heads', { locked: true });
+
+  expect(getEditableLayerIds(layers)).toEqual(['notes', 'exclusions', 'zones']);
+  expect(isLayerEditable(layers, 'heads')).toBe(false);
+  expect(isLayerEditable(layers, 'zones')).toBe(true);
+});
+
+test('tools are refused on hidden or locked layers', () => {
+  const layers = updateLayer(updateLayer(DEFAULT_LAYERS, 'notes', { visible: false }), 'pipes', { locked: true });
+
+  expect(getLayerLockMessage(layers, getToolLayer('measure')!)).toBe('The Notes layer is hidden. Show it to draw on it.');
+  expect(getLayerLockMessage(layers, getToolLayer('pipe')!)).toBe('The Pipes layer is locked. Unlock it to draw on it.');
+  expect(getLayerLockMessage(layers, getToolLayer('drip')!)).toBeNull();
+  expect(getToolLayer('ruler')).toBeNull();
+});
+
+test('shapes are searched by layer, then from the last drawn', () => {
+  const shapes = [zone('exclusion'), zone('regular'), zone('drip'), zone('exclusion')];
+
+  expect(getEditableShapeIndices(shapes, DEFAULT_LAYERS)).toEqual([3, 0, 2, 1]);
+  expect(getEditableShapeIndices(shapes, moveLayer(DEFAULT_LAYERS, 'zones', 1))).toEqual([2, 1, 3, 0]);
+  expect(getEditableShapeIndices(shapes, updateLayer(DEFAULT_LAYERS, 'exclusions', { locked: true }))).toEqual([2, 1]);
+});
@@ -0,0 +1,79 @@
+import { DrawingTool, Layer, LayerId, Shape } from './types';
+
+export const LAYER_LABELS: Record<LayerId, string> = {
+  zones: 'Zones',
+  exclusions: 'Exclusions',
+  pipes: 'Pipes',
+  heads: 'Heads',
+  notes: 'Notes',
+};
+
+export const LAYER_IDS = Object.keys(LAYER_LABELS) as LayerId[];
+
+// Bottom to top, in the order the plan was drawn before it had layers.
+export const DEFAULT_LAYERS: Layer[] = LAYER_IDS.map(id => ({ id, visible: true, locked: false, opacity: 1 }));
+
+// Zones and the regions cut from them share a layer by type.
+export const getShapeLayer = (shape: Pick<Shape, 'type'>): LayerId =>
+  shape.type === 'exclusion' ? 'exclusions' : 'zones';
+
+export const getLayer = (layers: Layer[], id: LayerId): Layer =>
+  layers.find(layer => layer.id === id) ?? DEFAULT_LAYERS.find(layer => layer.id === id)!;
+
+export const isLayerVisible = (layers: Layer[], id: LayerId): boolean => getLayer(layers, id).visible;
+
+// Hidden and locked layers are skipped when picking what a click lands on.
+export const isLayerEditable = (layers: Layer[], id: LayerId): boolean => {
+  const layer = getLayer(layers, id);
+  return layer.visible && !layer.locked;
+};
+
+// Why nothing can be added to a layer, or null when it can be.
+export const getLayerLockMessage = (layers: Layer[], id: LayerId): string | null => {
+  const layer = getLayer(layers, id);
+  if (!layer.visible) return `The ${LAYER_LABELS[id]} layer is hidden. Show it to draw on it.`;
+  if (layer.locked) return `The ${LAYER_LABELS[id]} layer is locked. Unlock it to draw on it.`;
+  return null;
+};
+
+// The layer each drawing tool adds to; the other tools add nothing.
+const TOOL_LAYERS: Partial<Record<DrawingTool, LayerId>> = {
+  regular: 'zones',
+  drip: 'zones',
+  exclusion: 'exclusions',
+  head: 'heads',
+  pipe: 'pipes',
+  measure: 'notes',
+};
+
+export const getToolLayer = (tool: DrawingTool): LayerId | null => TOOL_LAYERS[tool] ?? null;
+
+export const updateLayer = (layers: Layer[], id: LayerId, changes: Partial<Omit<Layer, 'id'>>): Layer[] =>
+  layers.map(layer => (layer.id === id ? { ...layer, ...changes } : layer));
+
+// Swaps a layer with its neighbour; positive offsets move it up.
+export const moveLayer = (layers: Layer[], id: LayerId, offset: 1 | -1): Layer[] => {
+  const index = layers.findIndex(layer => layer.id === id);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= layers.length) return layers;
+  const moved = [...layers];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
+
+// Editable layers, topmost first, in the order clicks should reach them.
+export const getEditableLayerIds = (layers: Layer[]): LayerId[] =>
+  layers
+    .filter(layer => layer.visible && !layer.locked)
+    .map(layer => layer.id)
+    .reverse();
+
+// Indices of shapes a click can reach, topmost first: by layer, then by the
+// order they were drawn in.
+export const getEditableShapeIndices = (shapes: Shape[], layers: Layer[]): number[] =>
+  getEditableLayerIds(layers).flatMap(id =>
+    shapes
+      .map((shape, index) => (getShapeLayer(shape) === id ? index : -1))
+      .filter(index => index !== -1)
+      .reverse()
+  );
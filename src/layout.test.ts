@@ -0,0 +1,48 @@
+import { suggestHeadLayout } from './layout';
+import { NOZZLE_CATALOG } from './heads';
+import { Shape } from './types';
+
+const nozzle = { ...NOZZLE_CATALOG[0], radius: { ft: 10, m: 3 } };
+
+const rectangle = (x: number, y: number, width: number, height: number, type: Shape['type']): Shape => ({
+  id: `${type} ${x} ${y}`,
+  points: [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height },
+    { x, y },
+  ],
+  area: width * height,
+  type,
+});
+
+test('square layout puts quarter arcs on corners, half arcs on edges and full circles inside', () => {
+  const heads = suggestHeadLayout(rectangle(0, 0, 40, 30, 'regular'), [], nozzle, 'square', 1, 'ft');
+
+  expect(heads.filter(head => head.arc === 90)).toHaveLength(4);
+  expect(heads.filter(head => head.arc === 180)).toHaveLength(10);
+  expect(heads.filter(head => head.arc === 360)).toHaveLength(6);
+
+  const corner = heads.find(head => head.position.x === 0 && head.position.y === 0);
+  expect(corner).toMatchObject({ arc: 90, rotation: 0, radius: 10, nozzleId: nozzle.id });
+
+  const topEdge = heads.find(head => head.position.x === 10 && head.position.y === 0);
+  expect(topEdge).toMatchObject({ arc: 180, rotation: 0 });
+});
+
+test('triangular layout offsets every other row', () => {
+  const heads = suggestHeadLayout(rectangle(0, 0, 60, 60, 'regular'), [], nozzle, 'triangular', 1, 'ft');
+  const interior = heads.filter(head => head.arc === 360);
+
+  expect(interior.some(head => head.position.x === 15)).toBe(true);
+  expect(interior.some(head => head.position.x === 20)).toBe(true);
+});
+
+test('no heads are placed inside exclusion areas', () => {
+  const exclusion = rectangle(5, 5, 30, 20, 'exclusion');
+  const heads = suggestHeadLayout(rectangle(0, 0, 40, 30, 'regular'), [exclusion], nozzle, 'square', 1, 'ft');
+
+  expect(heads.filter(head => head.arc === 360)).toHaveLength(0);
+  expect(heads).toHaveLength(14);
+});
@@ -0,0 +1,115 @@
+import { Nozzle, Point, Shape, SprinklerHead } from './types';
+import { calculatePixelDistance, distanceToSegment, getShapeVertices, isPointInShape } from './geometry';
+import { createId, normalizeAngle, toDegrees, toRadians } from './utils';
+
+export type LayoutPattern = 'square' | 'triangular';
+
+// Distance in pixels used to probe which side of an edge or corner lies
+// inside the zone.
+const PROBE_DISTANCE = 2;
+
+const angleBetween = (from: Point, to: Point): number => normalizeAngle(toDegrees(Math.atan2(to.y - from.y, to.x - from.x)));
+
+const probe = (origin: Point, degrees: number): Point => ({
+  x: origin.x + Math.cos(toRadians(degrees)) * PROBE_DISTANCE,
+  y: origin.y + Math.sin(toRadians(degrees)) * PROBE_DISTANCE,
+});
+
+const snapArc = (arc: number, arcs: number[]): number =>
+  arcs.reduce((best, candidate) => (Math.abs(candidate - arc) < Math.abs(best - arc) ? candidate : best), arcs[0]);
+
+// Returns the sector of a corner that opens into the zone, centered on the
+// corner bisector once snapped to an arc the nozzle is available in.
+const getCornerSector = (vertex: Point, prev: Point, next: Point, zone: Point[], arcs: number[]) => {
+  const toNext = angleBetween(vertex, next);
+  const toPrev = angleBetween(vertex, prev);
+  let rotation = toNext;
+  let sweep = normalizeAngle(toPrev - toNext);
+
+  if (!isPointInShape(probe(vertex, rotation + sweep / 2), zone)) {
+    rotation = toPrev;
+    sweep = normalizeAngle(toNext - toPrev);
+  }
+
+  const arc = snapArc(sweep, arcs);
+  return { rotation: normalizeAngle(rotation + sweep / 2 - arc / 2), arc };
+};
+
+const getEdgeRotation = (midpoint: Point, edgeAngle: number, zone: Point[]): number =>
+  isPointInShape(probe(midpoint, edgeAngle + 90), zone) ? edgeAngle : normalizeAngle(edgeAngle + 180);
+
+const getGridPoints = (vertices: Point[], spacing: number, pattern: LayoutPattern): Point[] => {
+  const xs = vertices.map(point => point.x);
+  const ys = vertices.map(point => point.y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  const rowSpacing = pattern === 'triangular' ? (spacing * Math.sqrt(3)) / 2 : spacing;
+  const points: Point[] = [];
+
+  for (let row = 0, y = minY; y <= maxY; row++, y += rowSpacing) {
+    const offset = pattern === 'triangular' && row % 2 === 1 ? spacing / 2 : 0;
+    for (let x = minX + offset; x <= maxX; x += spacing) {
+      points.push({ x, y });
+    }
+  }
+
+  return points;
+};
+
+export const suggestHeadLayout = (
+  zone: Shape,
+  exclusions: Shape[],
+  nozzle: Nozzle,
+  pattern: LayoutPattern,
+  pixelRatio: number,
+  unit: 'ft' | 'm'
+): SprinklerHead[] => {
+  const radius = nozzle.radius[unit];
+  const spacing = radius / pixelRatio;
+  const vertices = getShapeVertices(zone.points);
+  if (vertices.length < 3 || spacing <= 0) return [];
+
+  const createHead = (position: Point, rotation: number, arc: number): SprinklerHead => ({
+    id: createId(),
+    position,
+    type: nozzle.type,
+    radius,
+    arc,
+    rotation,
+    nozzleId: nozzle.id,
+  });
+
+  const heads: SprinklerHead[] = [];
+
+  vertices.forEach((vertex, i) => {
+    const prev = vertices[(i - 1 + vertices.length) % vertices.length];
+    const next = vertices[(i + 1) % vertices.length];
+    const { rotation, arc } = getCornerSector(vertex, prev, next, zone.points, nozzle.arcs);
+    heads.push(createHead(vertex, rotation, arc));
+
+    const edgeLength = calculatePixelDistance(vertex, next);
+    const segments = Math.ceil(edgeLength / spacing);
+    const edgeAngle = angleBetween(vertex, next);
+    const halfArc = snapArc(180, nozzle.arcs);
+    for (let k = 1; k < segments; k++) {
+      const position = {
+        x: vertex.x + ((next.x - vertex.x) * k) / segments,
+        y: vertex.y + ((next.y - vertex.y) * k) / segments,
+      };
+      const rotation = getEdgeRotation(position, edgeAngle, zone.points);
+      heads.push(createHead(position, normalizeAngle(rotation + 90 - halfArc / 2), halfArc));
+    }
+  });
+
+  const fullArc = snapArc(360, nozzle.arcs);
+  getGridPoints(vertices, spacing, pattern)
+    .filter(point => isPointInShape(point, zone.points))
+    .filter(point =>
+      vertices.every((vertex, i) => distanceToSegment(point, vertex, vertices[(i + 1) % vertices.length]) >= spacing / 2)
+    )
+    .forEach(point => heads.push(createHead(point, 0, fullArc)));
+
+  return heads.filter(head => !exclusions.some(exclusion => isPointInShape(head.position, exclusion.points)));
+};
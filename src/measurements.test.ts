@@ -0,0 +1,41 @@
+import {
+  formatMeasurementLabel,
+  getMeasurementLength,
+  getPathMidpoint,
+  isPointNearMeasurement,
+} from './measurements';
+import { Measurement } from './types';
+
+const hoseRun: Measurement = {
+  id: 'm1',
+  label: 'Hose run',
+  points: [
+    { x: 0, y: 0 },
+    { x: 30, y: 40 },
+    { x: 30, y: 90 },
+  ],
+};
+
+test('measurements add up every segment of the path', () => {
+  expect(getMeasurementLength(hoseRun, 0.1)).toBeCloseTo(10, 6);
+});
+
+test('points near any segment hit the measurement', () => {
+  expect(isPointNearMeasurement({ x: 33, y: 60 }, hoseRun, 5)).toBe(true);
+  expect(isPointNearMeasurement({ x: 0, y: 60 }, hoseRun, 5)).toBe(false);
+});
+
+test('labels sit halfway along the path', () => {
+  const middle = getPathMidpoint(hoseRun.points)!;
+
+  expect(middle.point.x).toBeCloseTo(30, 6);
+  expect(middle.point.y).toBeCloseTo(40, 6);
+  expect(middle.angle).toBeCloseTo(Math.atan2(40, 30), 6);
+  expect(getPathMidpoint([{ x: 5, y: 5 }])).toBeNull();
+});
+
+test('labels name the measurement when it has a name', () => {
+  expect(formatMeasurementLabel(hoseRun, '10.0 ft')).toBe('Hose run: 10.0 ft');
+  expect(formatMeasurementLabel({ ...hoseRun, label: ' ' }, '10.0 ft')).toBe('10.0 ft');
+  expect(formatMeasurementLabel(hoseRun, null)).toBe('Hose run');
+});
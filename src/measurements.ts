@@ -0,0 +1,93 @@
+import { Measurement, Point } from './types';
+import { calculatePixelDistance, distanceToSegment } from './geometry';
+
+export const MEASUREMENT_COLOR = '#16a085';
+
+// Length of the end ticks across a measurement, in screen pixels.
+const TICK_SIZE = 10;
+
+export const calculatePathPixelLength = (points: Point[]): number =>
+  points.slice(1).reduce((total, point, i) => total + calculatePixelDistance(points[i], point), 0);
+
+// Length in ruler units.
+export const getMeasurementLength = (measurement: Measurement, pixelRatio: number): number =>
+  calculatePathPixelLength(measurement.points) * pixelRatio;
+
+export const isPointNearMeasurement = (point: Point, measurement: Measurement, threshold: number): boolean =>
+  measurement.points.slice(1).some((end, i) => distanceToSegment(point, measurement.points[i], end) <= threshold);
+
+// Point halfway along the path, and the direction of the segment it lies on.
+export const getPathMidpoint = (points: Point[]): { point: Point; angle: number } | null => {
+  const total = calculatePathPixelLength(points);
+  if (points.length < 2 || total === 0) return null;
+
+  let remaining = total / 2;
+  for (let i = 1; i < points.length; i++) {
+    const start = points[i - 1];
+    const end = points[i];
+    const length = calculatePixelDistance(start, end);
+    if (length > 0 && remaining <= length) {
+      const t = remaining / length;
+      return {
+        point: { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t },
+        angle: Math.atan2(end.y - start.y, end.x - start.x),
+      };
+    }
+    remaining -= length;
+  }
+  return null;
+};
+
+export const formatMeasurementLabel = (measurement: Measurement, length: string | null): string =>
+  [measurement.label.trim(), length].filter(Boolean).join(': ');
+
+const drawTick = (ctx: CanvasRenderingContext2D, at: Point, from: Point, size: number) => {
+  const length = calculatePixelDistance(at, from);
+  if (length === 0) return;
+  const nx = (-(at.y - from.y) / length) * (size / 2);
+  const ny = ((at.x - from.x) / length) * (size / 2);
+  ctx.moveTo(at.x - nx, at.y - ny);
+  ctx.lineTo(at.x + nx, at.y + ny);
+};
+
+// Drawn as a dimension line with ticks at both ends and the label halfway
+// along it. `zoom` is the view scale; line widths and labels keep their
+// on-screen size.
+export const drawMeasurement = (ctx: CanvasRenderingContext2D, points: Point[], label: string, zoom = 1) => {
+  if (points.length < 2) return;
+
+  ctx.strokeStyle = MEASUREMENT_COLOR;
+  ctx.lineWidth = 2 / zoom;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.setLineDash([6 / zoom, 4 / zoom]);
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  points.forEach(point => ctx.lineTo(point.x, point.y));
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  ctx.beginPath();
+  drawTick(ctx, points[0], points[1], TICK_SIZE / zoom);
+  drawTick(ctx, points[points.length - 1], points[points.length - 2], TICK_SIZE / zoom);
+  ctx.stroke();
+
+  const middle = getPathMidpoint(points);
+  if (!label || !middle) return;
+
+  ctx.font = `${13 / zoom}px Arial`;
+  const width = ctx.measureText(label).width;
+  const height = 16 / zoom;
+  // Keep the text upright whichever way the path was drawn.
+  const angle = Math.abs(middle.angle) > Math.PI / 2 ? middle.angle + Math.PI : middle.angle;
+  ctx.save();
+  ctx.translate(middle.point.x, middle.point.y);
+  ctx.rotate(angle);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+  ctx.fillRect(-width / 2 - 3 / zoom, -height - 2 / zoom, width + 6 / zoom, height);
+  ctx.fillStyle = MEASUREMENT_COLOR;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(label, 0, -4 / zoom);
+  ctx.restore();
+};
@@ -0,0 +1,36 @@
+import { binaryToBytes, createPdf, escapePdfText, pdfText } from './pdf';
+
+test('text is escaped and encoded for the standard fonts', () => {
+  expect(escapePdfText('Lawn (front) \\ 12 ft²')).toBe('Lawn \\(front\\) \\\\ 12 ft\xb2');
+  expect(escapePdfText('Bed – 3 m²')).toBe('Bed \x96 3 m\xb2');
+  expect(escapePdfText('花壇')).toBe('??');
+  expect(pdfText(10, 20, 12, 'Zone', 'bold')).toBe('BT /F2 12 Tf 10.00 20.00 Td (Zone) Tj ET\n');
+});
+
+test('the cross-reference table points at every object', () => {
+  const pdf = createPdf([
+    { width: 792, height: 612, content: pdfText(36, 576, 18, 'Plan'), images: [] },
+    {
+      width: 792,
+      height: 612,
+      content: 'q 100 0 0 50 36 36 cm /Im0 Do Q\n',
+      images: [{ data: '\xff\xd8\xff\xd9', width: 2, height: 1 }],
+    },
+  ]);
+
+  const xref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+  expect(pdf.slice(xref, xref + 4)).toBe('xref');
+  const offsets = pdf
+    .slice(xref)
+    .split('\n')
+    .filter(line => / 00000 n $/.test(line))
+    .map(line => Number(line.slice(0, 10)));
+  offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  expect(pdf).toContain('/Count 2');
+  expect(pdf).toContain('/Filter /DCTDecode /Length 4 >>\nstream\n\xff\xd8\xff\xd9\nendstream');
+  expect(pdf.endsWith('%%EOF\n')).toBe(true);
+});
+
+test('binary strings become one byte per character', () => {
+  expect(Array.from(binaryToBytes('A\xff'))).toEqual([65, 255]);
+});
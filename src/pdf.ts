@@ -0,0 +1,117 @@
+// Minimal PDF writer: pages of text in the standard Helvetica fonts and JPEG
+// images, enough for printable plan sheets without a PDF library. Documents
+// are built as binary strings, one character per byte.
+
+export interface PdfImage {
+  // JPEG file contents as a binary string.
+  data: string;
+  width: number;
+  height: number;
+}
+
+export interface PdfPage {
+  // Size in points, 72 to the inch.
+  width: number;
+  height: number;
+  // Content stream operators; images are drawn as /Im0, /Im1, … in the order
+  // they are listed.
+  content: string;
+  images: PdfImage[];
+}
+
+// Page sizes in points, landscape.
+export const PAGE_SIZES = {
+  letter: { width: 792, height: 612 },
+  a4: { width: 842, height: 595 },
+} as const;
+
+export const PDF_FONTS = { regular: 'F1', bold: 'F2' } as const;
+
+// Characters WinAnsiEncoding places outside Latin-1.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+// A string literal in WinAnsiEncoding; characters the standard fonts can't
+// show become question marks.
+export const escapePdfText = (text: string): string =>
+  Array.from(text)
+    .map(char => {
+      const code = char.charCodeAt(0);
+      if (char === '\\' || char === '(' || char === ')') return `\\${char}`;
+      if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return char;
+      if (char in WIN_ANSI_EXTRAS) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+      return '?';
+    })
+    .join('');
+
+// Text with its baseline starting at (x, y), measured up from the bottom of
+// the page.
+export const pdfText = (
+  x: number,
+  y: number,
+  size: number,
+  text: string,
+  font: keyof typeof PDF_FONTS = 'regular'
+): string => `BT /${PDF_FONTS[font]} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfText(text)}) Tj ET\n`;
+
+// Rough Helvetica width, for laying out columns.
+export const estimateTextWidth = (text: string, size: number): number => text.length * size * 0.52;
+
+export const createPdf = (pages: PdfPage[]): string => {
+  const objects: string[] = [];
+  const addObject = (body: string): number => {
+    objects.push(body);
+    return objects.length;
+  };
+  const stream = (dictionary: string, data: string) =>
+    `<< ${dictionary} /Length ${data.length} >>\nstream\n${data}\nendstream`;
+
+  // Catalog and page tree first, so their numbers are known up front.
+  addObject('<< /Type /Catalog /Pages 2 0 R >>');
+  addObject('');
+  const regular = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const bold = addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  const pageIds = pages.map(page => {
+    const imageIds = page.images.map(image =>
+      addObject(
+        stream(
+          `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+          image.data
+        )
+      )
+    );
+    const contentId = addObject(stream('', page.content));
+    const xObjects = imageIds.map((id, i) => `/Im${i} ${id} 0 R`).join(' ');
+    return addObject(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] /Resources << /Font << /${PDF_FONTS.regular} ${regular} 0 R /${PDF_FONTS.bold} ${bold} 0 R >> /XObject << ${xObjects} >> >> /Contents ${contentId} 0 R >>`
+    );
+  });
+  objects[1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  // The comment's high bytes mark the file as binary.
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((body, i) => {
+    const offset = output.length;
+    output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return output;
+};
+
+export const binaryToBytes = (binary: string): Uint8Array => Uint8Array.from(binary, char => char.charCodeAt(0));
+
+export const dataUrlToBinary = (dataUrl: string): string => atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
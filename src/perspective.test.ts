@@ -0,0 +1,114 @@
+import {
+  applyHomography,
+  computeHomography,
+  getRectification,
+  invertHomography,
+  isInFrontOfHorizon,
+} from './perspective';
+
+const expectClose = (actual: { x: number; y: number }, expected: { x: number; y: number }) => {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+};
+
+// A 20 × 10 patio photographed from above one long side: the far edge looks
+// shorter and closer to the near one than it is.
+const patio = [
+  { x: 130, y: 100 },
+  { x: 270, y: 100 },
+  { x: 300, y: 180 },
+  { x: 100, y: 180 },
+];
+
+test('homographies take each point onto its target and invert back', () => {
+  const targets = [
+    { x: 0, y: 0 },
+    { x: 20, y: 0 },
+    { x: 20, y: 10 },
+    { x: 0, y: 10 },
+  ];
+  const homography = computeHomography(patio, targets)!;
+
+  patio.forEach((corner, i) => expectClose(applyHomography(homography, corner), targets[i]));
+  const inverse = invertHomography(homography);
+  targets.forEach((target, i) => expectClose(applyHomography(inverse, target), patio[i]));
+});
+
+test('corners on one line have no homography', () => {
+  const collinear = [
+    { x: 0, y: 0 },
+    { x: 1, y: 1 },
+    { x: 2, y: 2 },
+    { x: 3, y: 3 },
+  ];
+  expect(computeHomography(collinear, patio)).toBeNull();
+});
+
+test('rectified rectangles are square-cornered with the measured proportions', () => {
+  const rectification = getRectification(patio, 20, 10, { width: 400, height: 300 })!;
+  const [a, b, c, d] = rectification.corners;
+
+  patio.forEach((corner, i) => expectClose(applyHomography(rectification.homography, corner), rectification.corners[i]));
+  expect((b.x - a.x) * rectification.pixelRatio).toBeCloseTo(20, 6);
+  expect((c.y - b.y) * rectification.pixelRatio).toBeCloseTo(10, 6);
+  expect(d.x).toBeCloseTo(a.x, 6);
+  expect(c.y).toBeCloseTo(d.y, 6);
+  // As many pixels across the rectangle as in the photo.
+  expect((b.x - a.x) * (c.y - b.y)).toBeCloseTo(((140 + 200) / 2) * 80, 6);
+});
+
+test('rectangles marked counterclockwise are not mirrored', () => {
+  const reversed = [patio[0], patio[3], patio[2], patio[1]];
+  const rectification = getRectification(reversed, 10, 20, { width: 400, height: 300 })!;
+  const [a, b, , d] = rectification.corners;
+
+  // The first edge runs down the image as it did in the photo.
+  expect(b.y).toBeGreaterThan(a.y);
+  expect(b.x).toBeCloseTo(a.x, 6);
+  expect(d.x).toBeGreaterThan(a.x);
+});
+
+test('the rectified image is cropped around the rectangle when the photo reaches the horizon', () => {
+  // The sides of this rectangle meet 80 pixels down the photo.
+  const steep = [
+    { x: 180, y: 100 },
+    { x: 220, y: 100 },
+    { x: 300, y: 180 },
+    { x: 100, y: 180 },
+  ];
+  const rectification = getRectification(steep, 20, 10, { width: 400, height: 300 })!;
+  const inverse = invertHomography(rectification.homography);
+  const top = applyHomography(inverse, { x: rectification.dimensions.width / 2, y: 0 });
+
+  expect(rectification.dimensions.width).toBeLessThanOrEqual(4000);
+  expect(rectification.dimensions.height).toBe(4000);
+  expect(top.y).toBeGreaterThan(80);
+  expect(top.y).toBeLessThan(100);
+});
+
+test('degenerate rectangles cannot be rectified', () => {
+  expect(getRectification(patio.slice(0, 3), 20, 10, { width: 400, height: 300 })).toBeNull();
+  expect(getRectification(patio, 0, 10, { width: 400, height: 300 })).toBeNull();
+  expect(
+    getRectification(
+      [
+        { x: 0, y: 0 },
+        { x: 5, y: 0 },
+        { x: 5, y: 5 },
+        { x: 0, y: 5 },
+      ],
+      20,
+      10,
+      { width: 400, height: 300 }
+    )
+  ).toBeNull();
+});
+
+test('points past the horizon of a rectification are told apart', () => {
+  const { homography } = getRectification(patio, 20, 10, { width: 400, height: 300 })!;
+
+  expect(isInFrontOfHorizon(homography, { x: 200, y: 0 })).toBe(true);
+  // The patio's sides meet about 87 pixels above the top of the photo.
+  expect(isInFrontOfHorizon(homography, { x: 200, y: -87 })).toBe(false);
+  expect(isInFrontOfHorizon(homography, { x: 200, y: -200 })).toBe(false);
+});
@@ -0,0 +1,242 @@
+import { Point } from './types';
+import { solveLinearSystem } from './geometry';
+
+// 3×3 projective matrix in row-major order. Points are in front of its
+// horizon where the last row gives them a positive depth.
+export type Homography = number[];
+
+export interface Rectification {
+  // Maps image pixels to pixels of the rectified image.
+  homography: Homography;
+  dimensions: { width: number; height: number };
+  // Real units per pixel of the rectified image, in the unit the rectangle
+  // was measured in.
+  pixelRatio: number;
+  // The marked corners once rectified, in the order they were marked.
+  corners: Point[];
+}
+
+// Longest side of a rectified image. Points near the horizon of a photo
+// taken at a low angle map arbitrarily far away, so the output is cropped to
+// this window around the rectangle.
+export const MAX_RECTIFIED_SIZE = 4000;
+
+// Corners of the rectangle must enclose at least this many square pixels.
+const MIN_CORNER_AREA = 100;
+
+// Pixels a point must lie in front of the horizon to be projected.
+const MIN_DEPTH = 1e-9;
+
+const getDepth = (h: Homography, point: Point): number => h[6] * point.x + h[7] * point.y + h[8];
+
+export const applyHomography = (h: Homography, point: Point): Point => {
+  const w = getDepth(h, point);
+  return { x: (h[0] * point.x + h[1] * point.y + h[2]) / w, y: (h[3] * point.x + h[4] * point.y + h[5]) / w };
+};
+
+// Points on or beyond the horizon have no image, or one mirrored through it.
+export const isInFrontOfHorizon = (h: Homography, point: Point): boolean => getDepth(h, point) > MIN_DEPTH;
+
+// The point's image, or null where it lies on or beyond the horizon.
+const projectPoint = (h: Homography, point: Point): Point | null =>
+  isInFrontOfHorizon(h, point) ? applyHomography(h, point) : null;
+
+// Homography taking each of four points onto its target, or null when three
+// of them lie on a line.
+export const computeHomography = (from: Point[], to: Point[]): Homography | null => {
+  const matrix: number[][] = [];
+  const vector: number[] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    matrix.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    vector.push(u);
+    matrix.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    vector.push(v);
+  });
+  const h = [...solveLinearSystem(matrix, vector), 1];
+  return h.every(Number.isFinite) ? h : null;
+};
+
+export const invertHomography = (h: Homography): Homography => {
+  const [a, b, c, d, e, f, g, k, l] = h;
+  const adjugate = [
+    e * l - f * k,
+    c * k - b * l,
+    b * f - c * e,
+    f * g - d * l,
+    a * l - c * g,
+    c * d - a * f,
+    d * k - e * g,
+    b * g - a * k,
+    a * e - b * d,
+  ];
+  // Dividing by the determinant keeps points in front of the horizon there.
+  const determinant = a * adjugate[0] + b * adjugate[3] + c * adjugate[6];
+  return adjugate.map(value => value / determinant);
+};
+
+// Twice the signed area of an open polygon; positive when it runs clockwise
+// on screen.
+const getSignedArea = (points: Point[]): number =>
+  points.reduce((sum, a, i) => {
+    const b = points[(i + 1) % points.length];
+    return sum + a.x * b.y - b.x * a.y;
+  }, 0);
+
+// Turns clockwise on screen.
+const rotateQuarterTurns = (point: Point, turns: number): Point => {
+  const quarter = ((turns % 4) + 4) % 4;
+  if (quarter === 1) return { x: -point.y, y: point.x };
+  if (quarter === 2) return { x: -point.x, y: -point.y };
+  if (quarter === 3) return { x: point.y, y: -point.x };
+  return point;
+};
+
+// Top-down view of an image from four marked corners of a real rectangle,
+// `width` along the edge from the first corner to the second and `height`
+// along the next. The rectified image keeps about as many pixels across the
+// rectangle as the photo had.
+export const getRectification = (
+  corners: Point[],
+  width: number,
+  height: number,
+  dimensions: { width: number; height: number }
+): Rectification | null => {
+  if (corners.length !== 4 || !(width > 0) || !(height > 0)) return null;
+
+  const doubledArea = getSignedArea(corners);
+  if (Math.abs(doubledArea) / 2 < MIN_CORNER_AREA) return null;
+
+  // Keep the marked corners turning the same way so the view isn't mirrored,
+  // and the first edge running the way it does in the photo to the nearest
+  // quarter turn.
+  const pixelsPerUnit = Math.sqrt(Math.abs(doubledArea) / 2 / (width * height));
+  const across = width * pixelsPerUnit;
+  const down = Math.sign(doubledArea) * height * pixelsPerUnit;
+  const quarterTurns = Math.round(
+    Math.atan2(corners[1].y - corners[0].y, corners[1].x - corners[0].x) / (Math.PI / 2)
+  );
+  const targets = [
+    { x: 0, y: 0 },
+    { x: across, y: 0 },
+    { x: across, y: down },
+    { x: 0, y: down },
+  ].map(target => rotateQuarterTurns(target, quarterTurns));
+  const solved = computeHomography(corners, targets);
+  if (!solved) return null;
+  // Scale the matrix so the rectangle lies in front of the horizon, which may
+  // cross the photo; the corners of a convex quad all do together.
+  const homography = getDepth(solved, corners[0]) < 0 ? solved.map(value => -value) : solved;
+  if (corners.some(corner => !projectPoint(homography, corner))) return null;
+
+  const imageCorners = [
+    { x: 0, y: 0 },
+    { x: dimensions.width, y: 0 },
+    { x: dimensions.width, y: dimensions.height },
+    { x: 0, y: dimensions.height },
+  ].map(corner => projectPoint(homography, corner));
+  const center = { x: (targets[0].x + targets[2].x) / 2, y: (targets[0].y + targets[2].y) / 2 };
+  const reach = MAX_RECTIFIED_SIZE / 2;
+  let bounds = { minX: center.x - reach, minY: center.y - reach, maxX: center.x + reach, maxY: center.y + reach };
+  // With every corner in front of the horizon the image maps to a convex quad
+  // and can be bounded by its corners; otherwise it runs off forever.
+  if (imageCorners.every(corner => corner)) {
+    const xs = imageCorners.map(corner => corner!.x);
+    const ys = imageCorners.map(corner => corner!.y);
+    bounds = {
+      minX: Math.max(bounds.minX, Math.min(...xs)),
+      minY: Math.max(bounds.minY, Math.min(...ys)),
+      maxX: Math.min(bounds.maxX, Math.max(...xs)),
+      maxY: Math.min(bounds.maxY, Math.max(...ys)),
+    };
+  }
+
+  // Shift the view so the kept part of it starts at the origin.
+  const [a, b, c, d, e, f, g, k, l] = homography;
+  const shifted = [
+    a - bounds.minX * g,
+    b - bounds.minX * k,
+    c - bounds.minX * l,
+    d - bounds.minY * g,
+    e - bounds.minY * k,
+    f - bounds.minY * l,
+    g,
+    k,
+    l,
+  ];
+  return {
+    homography: shifted,
+    dimensions: {
+      width: Math.max(1, Math.round(bounds.maxX - bounds.minX)),
+      height: Math.max(1, Math.round(bounds.maxY - bounds.minY)),
+    },
+    pixelRatio: 1 / pixelsPerUnit,
+    corners: targets.map(target => ({ x: target.x - bounds.minX, y: target.y - bounds.minY })),
+  };
+};
+
+// Redraws an image through a homography onto a canvas of the given size,
+// sampling the source bilinearly. Pixels that fall outside the source are
+// left white.
+export const warpImage = (
+  source: string,
+  homography: Homography,
+  dimensions: { width: number; height: number }
+): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const input = document.createElement('canvas');
+      input.width = image.width;
+      input.height = image.height;
+      const output = document.createElement('canvas');
+      output.width = dimensions.width;
+      output.height = dimensions.height;
+      const inputCtx = input.getContext('2d');
+      const outputCtx = output.getContext('2d');
+      if (!inputCtx || !outputCtx) {
+        reject(new Error('Canvas is not supported.'));
+        return;
+      }
+      inputCtx.drawImage(image, 0, 0);
+      const pixels = inputCtx.getImageData(0, 0, image.width, image.height).data;
+      const warped = outputCtx.createImageData(dimensions.width, dimensions.height);
+      const data = warped.data;
+      const [a, b, c, d, e, f, g, k, l] = invertHomography(homography);
+
+      for (let y = 0; y < dimensions.height; y++) {
+        for (let x = 0; x < dimensions.width; x++) {
+          // Sample at pixel centers.
+          const w = g * (x + 0.5) + k * (y + 0.5) + l;
+          const sourceX = (a * (x + 0.5) + b * (y + 0.5) + c) / w - 0.5;
+          const sourceY = (d * (x + 0.5) + e * (y + 0.5) + f) / w - 0.5;
+          const target = (y * dimensions.width + x) * 4;
+          if (w <= 0 || sourceX < 0 || sourceY < 0 || sourceX > image.width - 1 || sourceY > image.height - 1) {
+            data.fill(255, target, target + 4);
+            continue;
+          }
+
+          const left = Math.floor(sourceX);
+          const top = Math.floor(sourceY);
+          const right = Math.min(left + 1, image.width - 1);
+          const bottom = Math.min(top + 1, image.height - 1);
+          const tx = sourceX - left;
+          const ty = sourceY - top;
+          const topLeft = (top * image.width + left) * 4;
+          const topRight = (top * image.width + right) * 4;
+          const bottomLeft = (bottom * image.width + left) * 4;
+          const bottomRight = (bottom * image.width + right) * 4;
+          for (let channel = 0; channel < 4; channel++) {
+            const upper = pixels[topLeft + channel] * (1 - tx) + pixels[topRight + channel] * tx;
+            const lower = pixels[bottomLeft + channel] * (1 - tx) + pixels[bottomRight + channel] * tx;
+            data[target + channel] = upper * (1 - ty) + lower * ty;
+          }
+        }
+      }
+
+      outputCtx.putImageData(warped, 0, 0);
+      resolve(output.toDataURL('image/jpeg', 0.92));
+    };
+    image.onerror = () => reject(new Error('The image could not be loaded.'));
+    image.src = source;
+  });
@@ -0,0 +1,52 @@
+import { analyzePipe, calculateFrictionLoss, calculatePipeLength } from './pipes';
+import { Pipe, SprinklerHead } from './types';
+
+const makeHead = (id: string, x: number, flow: number): SprinklerHead => ({
+  id,
+  position: { x, y: 0 },
+  type: 'spray',
+  radius: 10,
+  arc: 360,
+  rotation: 0,
+  flow,
+});
+
+const lateral: Pipe = {
+  id: 'pipe',
+  kind: 'lateral',
+  material: 'pvc-40',
+  size: '3/4',
+  points: [
+    { x: 0, y: 0 },
+    { x: 50, y: 0 },
+    { x: 100, y: 0 },
+  ],
+};
+
+test('pipe length follows the polyline in ruler units', () => {
+  expect(calculatePipeLength(lateral.points, 0.5)).toBe(50);
+});
+
+test('Hazen-Williams loss matches published values', () => {
+  // 10 GPM through 100 ft of 3/4" schedule 40 PVC loses about 7.6 PSI.
+  expect(calculateFrictionLoss(10, 100, 'pvc-40', '3/4', 'ft')).toBeCloseTo(7.6, 0);
+  expect(calculateFrictionLoss(37.85, 30.48, 'pvc-40', '3/4', 'm')).toBeCloseTo(7.6 / 14.5, 1);
+});
+
+test('laterals only carry the flow of downstream heads', () => {
+  const heads = [makeHead('near', 50, 5), makeHead('far', 100, 5)];
+  const analysis = analyzePipe(lateral, heads, 0, 40, 1, 10, 'ft');
+  const expectedLoss =
+    calculateFrictionLoss(10, 50, 'pvc-40', '3/4', 'ft') + calculateFrictionLoss(5, 50, 'pvc-40', '3/4', 'ft');
+
+  expect(analysis.flow).toBe(10);
+  expect(analysis.heads.map(head => head.id)).toEqual(['near', 'far']);
+  expect(analysis.loss).toBeCloseTo(expectedLoss);
+  expect(analysis.pressureAtEnd).toBeCloseTo(40 - expectedLoss);
+  expect(analysis.belowMinimum).toBe(false);
+});
+
+test('laterals warn when the far head is below its minimum pressure', () => {
+  const heads = [makeHead('near', 50, 5), makeHead('far', 100, 5)];
+  expect(analyzePipe(lateral, heads, 0, 22, 1, 10, 'ft').belowMinimum).toBe(true);
+});
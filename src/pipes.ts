@@ -0,0 +1,173 @@
+import { HeadType, Pipe, PipeKind, PipeMaterial, Point, SprinklerHead } from './types';
+import { calculatePixelDistance, distanceToSegment } from './geometry';
+import { getHeadFlow } from './hydraulics';
+import { FEET_PER_METER, LPM_PER_GPM, PSI_PER_BAR } from './units';
+
+export const PIPE_KIND_LABELS: Record<PipeKind, string> = {
+  mainline: 'Mainline',
+  lateral: 'Lateral',
+};
+
+// Inner diameters in inches and Hazen-Williams roughness coefficients.
+export const PIPE_MATERIALS: Record<PipeMaterial, { label: string; c: number; sizes: Record<string, number> }> = {
+  'pvc-40': {
+    label: 'PVC Schedule 40',
+    c: 150,
+    sizes: { '1/2': 0.622, '3/4': 0.824, '1': 1.049, '1-1/4': 1.38, '1-1/2': 1.61, '2': 2.067 },
+  },
+  'pvc-200': {
+    label: 'PVC Class 200',
+    c: 150,
+    sizes: { '1/2': 0.716, '3/4': 0.93, '1': 1.189, '1-1/4': 1.502, '1-1/2': 1.72, '2': 2.149 },
+  },
+  poly: {
+    label: 'Polyethylene',
+    c: 140,
+    sizes: { '1/2': 0.622, '3/4': 0.824, '1': 1.049, '1-1/4': 1.38, '1-1/2': 1.61, '2': 2.067 },
+  },
+};
+
+export const PIPE_COLORS: Record<PipeKind, { stroke: string; width: number }> = {
+  mainline: { stroke: '#34495e', width: 5 },
+  lateral: { stroke: '#7f8c8d', width: 3 },
+};
+
+// Minimum operating pressure at the nozzle, in PSI or bar for metric plans.
+export const MIN_OPERATING_PRESSURE: Record<HeadType, { ft: number; m: number }> = {
+  rotor: { ft: 30, m: 2.1 },
+  spray: { ft: 20, m: 1.4 },
+  strip: { ft: 20, m: 1.4 },
+};
+
+export interface PipeAnalysis {
+  // Length in ruler units.
+  length: number;
+  // Flow entering the pipe in GPM, or LPM for metric plans.
+  flow: number;
+  // Friction loss along the run in PSI, or bar for metric plans.
+  loss: number;
+  // Heads fed by the pipe, nearest to its start first.
+  heads: SprinklerHead[];
+  pressureAtEnd: number | null;
+  belowMinimum: boolean;
+}
+
+export const calculatePipeLength = (points: Point[], pixelRatio: number): number =>
+  points.slice(1).reduce((total, point, i) => total + calculatePixelDistance(points[i], point), 0) * pixelRatio;
+
+// Hazen-Williams friction loss, computed in US units and converted back for
+// metric plans.
+export const calculateFrictionLoss = (
+  flow: number,
+  length: number,
+  material: PipeMaterial,
+  size: string,
+  unit: 'ft' | 'm'
+): number => {
+  const diameter = PIPE_MATERIALS[material].sizes[size];
+  if (!diameter || flow <= 0 || length <= 0) return 0;
+
+  const gpm = unit === 'm' ? flow / LPM_PER_GPM : flow;
+  const feet = unit === 'm' ? length * FEET_PER_METER : length;
+  const c = PIPE_MATERIALS[material].c;
+  const psi = (4.52 * feet * Math.pow(gpm, 1.852)) / (Math.pow(c, 1.852) * Math.pow(diameter, 4.87));
+  return unit === 'm' ? psi / PSI_PER_BAR : psi;
+};
+
+export const isPointNearPipe = (point: Point, pipe: Pipe, threshold: number): boolean =>
+  pipe.points.slice(1).some((end, i) => distanceToSegment(point, pipe.points[i], end) <= threshold);
+
+// Distance in pixels along the pipe to the point on it closest to `point`.
+const getChainage = (point: Point, points: Point[]): number => {
+  let best = { distance: Infinity, chainage: 0 };
+  let travelled = 0;
+
+  points.slice(1).forEach((end, i) => {
+    const start = points[i];
+    const segmentLength = calculatePixelDistance(start, end);
+    const distance = distanceToSegment(point, start, end);
+    if (distance < best.distance && segmentLength > 0) {
+      const t = ((point.x - start.x) * (end.x - start.x) + (point.y - start.y) * (end.y - start.y)) / segmentLength;
+      best = { distance, chainage: travelled + Math.max(0, Math.min(segmentLength, t)) };
+    }
+    travelled += segmentLength;
+  });
+
+  return best.chainage;
+};
+
+export const analyzePipe = (
+  pipe: Pipe,
+  heads: SprinklerHead[],
+  inletFlow: number,
+  inletPressure: number | null,
+  pixelRatio: number,
+  threshold: number,
+  unit: 'ft' | 'm'
+): PipeAnalysis => {
+  const length = calculatePipeLength(pipe.points, pixelRatio);
+
+  if (pipe.kind === 'mainline') {
+    const loss = calculateFrictionLoss(inletFlow, length, pipe.material, pipe.size, unit);
+    return {
+      length,
+      flow: inletFlow,
+      loss,
+      heads: [],
+      pressureAtEnd: inletPressure === null ? null : inletPressure - loss,
+      belowMinimum: false,
+    };
+  }
+
+  // Laterals lose flow at every head, so the loss is summed between heads
+  // with only the downstream flow in each stretch.
+  const fed = heads
+    .filter(head => isPointNearPipe(head.position, pipe, threshold))
+    .map(head => ({ head, chainage: getChainage(head.position, pipe.points) * pixelRatio }))
+    .sort((a, b) => a.chainage - b.chainage);
+
+  const totalFlow = fed.reduce((total, { head }) => total + getHeadFlow(head, unit), 0);
+  let remainingFlow = totalFlow;
+  let position = 0;
+  let loss = 0;
+  fed.forEach(({ head, chainage }) => {
+    loss += calculateFrictionLoss(remainingFlow, chainage - position, pipe.material, pipe.size, unit);
+    remainingFlow -= getHeadFlow(head, unit);
+    position = chainage;
+  });
+
+  const farHead = fed.length > 0 ? fed[fed.length - 1].head : null;
+  const pressureAtEnd = inletPressure === null ? null : inletPressure - loss;
+  return {
+    length,
+    flow: totalFlow,
+    loss,
+    heads: fed.map(({ head }) => head),
+    pressureAtEnd,
+    belowMinimum:
+      pressureAtEnd !== null && farHead !== null && pressureAtEnd < MIN_OPERATING_PRESSURE[farHead.type][unit],
+  };
+};
+
+// `zoom` is the view scale; line widths and labels keep their on-screen size.
+export const drawPipe = (ctx: CanvasRenderingContext2D, pipe: Pipe, label: string | null, zoom = 1) => {
+  if (pipe.points.length < 2) return;
+
+  const color = PIPE_COLORS[pipe.kind];
+  ctx.strokeStyle = color.stroke;
+  ctx.lineWidth = color.width / zoom;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.beginPath();
+  ctx.moveTo(pipe.points[0].x, pipe.points[0].y);
+  pipe.points.forEach(point => ctx.lineTo(point.x, point.y));
+  ctx.stroke();
+
+  if (label) {
+    const middle = pipe.points[Math.floor(pipe.points.length / 2)];
+    const previous = pipe.points[Math.floor(pipe.points.length / 2) - 1];
+    ctx.fillStyle = color.stroke;
+    ctx.font = `${14 / zoom}px Arial`;
+    ctx.fillText(label, (middle.x + previous.x) / 2, (middle.y + previous.y) / 2);
+  }
+};
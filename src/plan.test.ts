@@ -0,0 +1,120 @@
+import { PLAN_VERSION, PlanFileError, parsePlanFile, toPlanFile } from './plan';
+import { DRIP_DEFAULTS } from './hydraulics';
+import { SCHEDULE_DEFAULTS } from './schedule';
+import { DEFAULT_LAYERS, moveLayer, updateLayer } from './layers';
+import { PlanDocument } from './types';
+
+const plan: Omit<PlanDocument, 'version'> = {
+  unit: 'ft',
+  image: 'data:image/png;base64,AAAA',
+  dimensions: { width: 800, height: 600 },
+  shapes: [
+    {
+      id: 's1',
+      points: [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 10 },
+        { x: 0, y: 0 },
+      ],
+      area: 50,
+      type: 'regular',
+      name: 'Front Lawn',
+      plant: 'turf',
+      soil: 'clay',
+      sun: 'full-sun',
+      slope: 4,
+    },
+  ],
+  ruler: { start: { x: 0, y: 0 }, end: { x: 100, y: 0 }, length: 20, unit: 'ft' },
+  scaleReferences: [
+    { id: 'r1', start: { x: 0, y: 0 }, end: { x: 0, y: 50 }, length: 10, unit: 'ft', verifyOnly: true },
+  ],
+  pixelRatio: 0.2,
+  heads: [{ id: 'h1', position: { x: 5, y: 5 }, type: 'spray', radius: 10, arc: 360, rotation: 0 }],
+  pipes: [{ id: 'p1', kind: 'lateral', material: 'pvc-40', size: '3/4', points: [{ x: 0, y: 0 }, { x: 5, y: 5 }] }],
+  valveZones: [{ id: 'v1', name: 'Valve 1', headIds: ['h1'], shapeIds: ['s1'] }],
+  measurements: [{ id: 'm1', label: 'Setback', points: [{ x: 0, y: 0 }, { x: 0, y: 40 }] }],
+  geoPoints: [{ id: 'g1', point: { x: 10, y: 10 }, lat: 45.5231, lon: -122.6765 }],
+  layers: updateLayer(moveLayer(DEFAULT_LAYERS, 'zones', 1), 'heads', { locked: true, opacity: 0.5 }),
+  supply: { staticPressure: 60, availableFlow: null },
+  drip: DRIP_DEFAULTS.ft,
+  unitPrices: { 'head:spray': 4.5 },
+  schedule: SCHEDULE_DEFAULTS.ft,
+};
+
+test('saved plans open unchanged', () => {
+  expect(parsePlanFile(toPlanFile(plan))).toEqual({ version: PLAN_VERSION, ...plan });
+});
+
+test('unversioned plans are migrated with default settings', () => {
+  const legacy = JSON.stringify({ shapes: plan.shapes, ruler: { ...plan.ruler!, unit: 'm' }, pixelRatio: 0.05 });
+  const opened = parsePlanFile(legacy);
+
+  expect(opened.version).toBe(PLAN_VERSION);
+  expect(opened.unit).toBe('m');
+  expect(opened.image).toBeNull();
+  expect(opened.heads).toEqual([]);
+  expect(opened.scaleReferences).toEqual([]);
+  expect(opened.measurements).toEqual([]);
+  expect(opened.geoPoints).toEqual([]);
+  expect(opened.layers).toEqual(DEFAULT_LAYERS);
+  expect(opened.drip).toEqual(DRIP_DEFAULTS.m);
+  expect(opened.schedule).toEqual(SCHEDULE_DEFAULTS.m);
+});
+
+test('malformed files are rejected with the location of the problem', () => {
+  const broken = JSON.parse(toPlanFile(plan));
+  broken.shapes[0].points[1].y = 'ten';
+
+  expect(() => parsePlanFile(JSON.stringify(broken))).toThrow(new PlanFileError('shapes[0].points[1].y must be a number.'));
+
+  const unknownPlant = JSON.parse(toPlanFile(plan));
+  unknownPlant.shapes[0].plant = 'cactus';
+  expect(() => parsePlanFile(JSON.stringify(unknownPlant))).toThrow(
+    new PlanFileError('shapes[0].plant must be one of turf, shrubs, trees, vegetables.')
+  );
+
+  const missingLayer = JSON.parse(toPlanFile(plan));
+  missingLayer.layers.pop();
+  expect(() => parsePlanFile(JSON.stringify(missingLayer))).toThrow(
+    new PlanFileError('layers must be zones, exclusions, pipes, heads, notes in some order.')
+  );
+  expect(() => parsePlanFile('not json')).toThrow('The file is not valid JSON.');
+  expect(() => parsePlanFile('[]')).toThrow('The file does not contain a plan.');
+});
+
+test('files from newer versions are refused', () => {
+  const future = JSON.stringify({ ...JSON.parse(toPlanFile(plan)), version: PLAN_VERSION + 1 });
+  expect(() => parsePlanFile(future)).toThrow(PlanFileError);
+});
+
+test('valve zones from earlier versions refer to the shapes they were seeded from', () => {
+  const { geoPoints, layers, ...earlier } = JSON.parse(toPlanFile(plan));
+  const { id, ...lawn } = plan.shapes[0];
+  const opened = parsePlanFile(
+    JSON.stringify({
+      ...earlier,
+      version: 4,
+      shapes: [lawn],
+      valveZones: [{ id: 'v1', name: 'Valve 1', headIds: ['h1'], shapes: [lawn, { ...lawn, points: [] }] }],
+    })
+  );
+
+  expect(opened.shapes[0].id).toEqual(expect.any(String));
+  expect(opened.valveZones[0].shapeIds).toEqual([opened.shapes[0].id]);
+});
+
+test('pipe prices from earlier versions keep the unit they were entered in', () => {
+  const { measurements, geoPoints, layers, ...earlier } = JSON.parse(toPlanFile(plan));
+  const opened = parsePlanFile(
+    JSON.stringify({
+      ...earlier,
+      version: 2,
+      ruler: { ...plan.ruler!, unit: 'm' },
+      unitPrices: { 'pipe-pvc-40-3/4': 1.2, valve: 25 },
+    })
+  );
+
+  expect(opened.unitPrices).toEqual({ 'pipe-pvc-40-3/4-m': 1.2, valve: 25 });
+});
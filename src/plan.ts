@@ -0,0 +1,352 @@
+import { PlanDocument } from './types';
+import { DRIP_DEFAULTS } from './hydraulics';
+import { SCHEDULE_DEFAULTS } from './schedule';
+import { PLANT_LABELS, SOIL_LABELS, SUN_LABELS } from './zones';
+import { DEFAULT_LAYERS, LAYER_IDS } from './layers';
+import { createId } from './utils';
+
+export const PLAN_VERSION = 7;
+
+export const PLAN_FILE_EXTENSION = '.irrigation.json';
+
+export class PlanFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanFileError';
+  }
+}
+
+type Json = Record<string, unknown>;
+
+// Each entry upgrades a document from its key's version to the next one.
+// Version 0 documents predate versioning and only hold the image, shapes
+// and scale.
+const MIGRATIONS: Record<number, (document: Json) => Json> = {
+  0: document => {
+    const unit = (document.ruler as { unit?: string } | null)?.unit === 'm' ? 'm' : 'ft';
+    return {
+      heads: [],
+      pipes: [],
+      valveZones: [],
+      supply: { staticPressure: null, availableFlow: null },
+      drip: DRIP_DEFAULTS[unit],
+      unitPrices: {},
+      schedule: SCHEDULE_DEFAULTS[unit],
+      ...document,
+      image: document.image ?? null,
+      dimensions: document.dimensions ?? null,
+      ruler: document.ruler ?? null,
+      pixelRatio: document.pixelRatio ?? null,
+      version: 1,
+    };
+  },
+  // Version 1 plans were scaled from their ruler alone.
+  1: document => ({ ...document, scaleReferences: [], version: 2 }),
+  2: document => ({ ...document, measurements: [], version: 3 }),
+  // Plans were kept in the unit of their ruler, which now only records how it
+  // was entered. Pipe used to be priced in the plan's own unit; each unit is
+  // its own item now that lengths can be shown in either.
+  3: document => {
+    const unit = (document.ruler as { unit?: string } | null)?.unit === 'm' ? 'm' : 'ft';
+    const unitPrices = isObject(document.unitPrices) ? document.unitPrices : {};
+    return {
+      ...document,
+      unit,
+      unitPrices: Object.fromEntries(
+        Object.entries(unitPrices).map(([id, price]) => [id.startsWith('pipe-') ? `${id}-${unit}` : id, price])
+      ),
+      version: 4,
+    };
+  },
+  4: document => ({ ...document, geoPoints: [], version: 5 }),
+  5: document => ({ ...document, layers: DEFAULT_LAYERS, version: 6 }),
+  // Valve zones kept copies of the shapes they were seeded from, which went
+  // stale as the shapes were edited or deleted; they now refer to shapes by
+  // id. Copies that no longer match a shape on the plan are dropped.
+  6: document => {
+    const shapes = Array.isArray(document.shapes)
+      ? document.shapes.map(shape => (isObject(shape) ? { ...shape, id: createId() } : shape))
+      : document.shapes;
+    const findShapeId = (seed: unknown): string[] => {
+      const match = Array.isArray(shapes)
+        ? shapes.find(
+            shape =>
+              isObject(shape) &&
+              isObject(seed) &&
+              shape.type === seed.type &&
+              JSON.stringify(shape.points) === JSON.stringify(seed.points)
+          )
+        : undefined;
+      return match ? [match.id as string] : [];
+    };
+    const valveZones = Array.isArray(document.valveZones)
+      ? document.valveZones.map(valve => {
+          if (!isObject(valve)) return valve;
+          const { shapes: seeds, ...rest } = valve;
+          return { ...rest, shapeIds: Array.isArray(seeds) ? seeds.flatMap(findShapeId) : [] };
+        })
+      : document.valveZones;
+    return { ...document, shapes, valveZones, version: 7 };
+  },
+};
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const fail = (path: string, expected: string): never => {
+  throw new PlanFileError(`${path} must be ${expected}.`);
+};
+
+const checkNumber = (value: unknown, path: string) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail(path, 'a number');
+};
+
+const checkNullableNumber = (value: unknown, path: string) => {
+  if (value !== null) checkNumber(value, path);
+};
+
+const checkString = (value: unknown, path: string) => {
+  if (typeof value !== 'string') fail(path, 'a string');
+};
+
+const checkBoolean = (value: unknown, path: string) => {
+  if (typeof value !== 'boolean') fail(path, 'true or false');
+};
+
+const checkOneOf = (value: unknown, options: readonly string[], path: string) => {
+  if (typeof value !== 'string' || !options.includes(value)) fail(path, `one of ${options.join(', ')}`);
+};
+
+const checkObject = (value: unknown, path: string): Json => {
+  if (!isObject(value)) fail(path, 'an object');
+  return value as Json;
+};
+
+const checkArray = (value: unknown, path: string, checkItem: (item: unknown, path: string) => void) => {
+  if (!Array.isArray(value)) fail(path, 'a list');
+  (value as unknown[]).forEach((item, i) => checkItem(item, `${path}[${i}]`));
+};
+
+const checkPoint = (value: unknown, path: string) => {
+  const point = checkObject(value, path);
+  checkNumber(point.x, `${path}.x`);
+  checkNumber(point.y, `${path}.y`);
+};
+
+const checkOutline = (value: unknown, path: string) => {
+  const outline = checkObject(value, path);
+  checkOneOf(outline.kind, ['ellipse', 'path'], `${path}.kind`);
+  if (outline.kind === 'ellipse') {
+    checkPoint(outline.center, `${path}.center`);
+    checkNumber(outline.radiusX, `${path}.radiusX`);
+    checkNumber(outline.radiusY, `${path}.radiusY`);
+    return;
+  }
+  checkArray(outline.vertices, `${path}.vertices`, checkPoint);
+  checkArray(outline.controls, `${path}.controls`, (control, controlPath) => {
+    if (control !== null) checkPoint(control, controlPath);
+  });
+  if ((outline.controls as unknown[]).length !== (outline.vertices as unknown[]).length) {
+    fail(`${path}.controls`, 'a list with one entry per vertex');
+  }
+};
+
+const checkShape = (value: unknown, path: string) => {
+  const shape = checkObject(value, path);
+  checkString(shape.id, `${path}.id`);
+  checkArray(shape.points, `${path}.points`, checkPoint);
+  if ((shape.points as unknown[]).length < 3) fail(`${path}.points`, 'at least 3 points');
+  checkNumber(shape.area, `${path}.area`);
+  checkOneOf(shape.type, ['regular', 'exclusion', 'drip'], `${path}.type`);
+  if (shape.outline !== undefined) checkOutline(shape.outline, `${path}.outline`);
+  if (shape.name !== undefined) checkString(shape.name, `${path}.name`);
+  if (shape.plant !== undefined) checkOneOf(shape.plant, Object.keys(PLANT_LABELS), `${path}.plant`);
+  if (shape.soil !== undefined) checkOneOf(shape.soil, Object.keys(SOIL_LABELS), `${path}.soil`);
+  if (shape.sun !== undefined) checkOneOf(shape.sun, Object.keys(SUN_LABELS), `${path}.sun`);
+  if (shape.slope !== undefined) checkNumber(shape.slope, `${path}.slope`);
+};
+
+const checkRuler = (value: unknown, path: string) => {
+  if (value === null) return;
+  const ruler = checkObject(value, path);
+  checkPoint(ruler.start, `${path}.start`);
+  checkPoint(ruler.end, `${path}.end`);
+  checkNumber(ruler.length, `${path}.length`);
+  checkOneOf(ruler.unit, ['ft', 'm'], `${path}.unit`);
+};
+
+const checkScaleReference = (value: unknown, path: string) => {
+  checkRuler(value, path);
+  const reference = checkObject(value, path);
+  checkString(reference.id, `${path}.id`);
+  checkBoolean(reference.verifyOnly, `${path}.verifyOnly`);
+};
+
+const checkHead = (value: unknown, path: string) => {
+  const head = checkObject(value, path);
+  checkString(head.id, `${path}.id`);
+  checkPoint(head.position, `${path}.position`);
+  checkOneOf(head.type, ['rotor', 'spray', 'strip'], `${path}.type`);
+  checkNumber(head.radius, `${path}.radius`);
+  checkNumber(head.arc, `${path}.arc`);
+  checkNumber(head.rotation, `${path}.rotation`);
+  if (head.nozzleId !== undefined) checkString(head.nozzleId, `${path}.nozzleId`);
+  if (head.flow !== undefined) checkNumber(head.flow, `${path}.flow`);
+};
+
+const checkPipe = (value: unknown, path: string) => {
+  const pipe = checkObject(value, path);
+  checkString(pipe.id, `${path}.id`);
+  checkOneOf(pipe.kind, ['mainline', 'lateral'], `${path}.kind`);
+  checkOneOf(pipe.material, ['pvc-40', 'pvc-200', 'poly'], `${path}.material`);
+  checkString(pipe.size, `${path}.size`);
+  checkArray(pipe.points, `${path}.points`, checkPoint);
+};
+
+const checkValveZone = (value: unknown, path: string) => {
+  const valve = checkObject(value, path);
+  checkString(valve.id, `${path}.id`);
+  checkString(valve.name, `${path}.name`);
+  checkArray(valve.headIds, `${path}.headIds`, checkString);
+  checkArray(valve.shapeIds, `${path}.shapeIds`, checkString);
+};
+
+const checkMeasurement = (value: unknown, path: string) => {
+  const measurement = checkObject(value, path);
+  checkString(measurement.id, `${path}.id`);
+  checkString(measurement.label, `${path}.label`);
+  checkArray(measurement.points, `${path}.points`, checkPoint);
+  if ((measurement.points as unknown[]).length < 2) fail(`${path}.points`, 'at least 2 points');
+};
+
+const checkGeoPoint = (value: unknown, path: string) => {
+  const geoPoint = checkObject(value, path);
+  checkString(geoPoint.id, `${path}.id`);
+  checkPoint(geoPoint.point, `${path}.point`);
+  checkNumber(geoPoint.lat, `${path}.lat`);
+  checkNumber(geoPoint.lon, `${path}.lon`);
+  if (Math.abs(geoPoint.lat as number) > 90) fail(`${path}.lat`, 'between -90 and 90');
+  if (Math.abs(geoPoint.lon as number) > 180) fail(`${path}.lon`, 'between -180 and 180');
+};
+
+const checkLayer = (value: unknown, path: string) => {
+  const layer = checkObject(value, path);
+  checkOneOf(layer.id, LAYER_IDS, `${path}.id`);
+  checkBoolean(layer.visible, `${path}.visible`);
+  checkBoolean(layer.locked, `${path}.locked`);
+  checkNumber(layer.opacity, `${path}.opacity`);
+  if ((layer.opacity as number) < 0 || (layer.opacity as number) > 1) fail(`${path}.opacity`, 'between 0 and 1');
+};
+
+const checkSchedule = (value: unknown, path: string) => {
+  const schedule = checkObject(value, path);
+  checkOneOf(schedule.method, ['requirement', 'et'], `${path}.method`);
+  checkNumber(schedule.weeklyRequirement, `${path}.weeklyRequirement`);
+  checkNumber(schedule.weeklyEt, `${path}.weeklyEt`);
+  const plantFactors = checkObject(schedule.plantFactors, `${path}.plantFactors`);
+  checkNumber(plantFactors.regular, `${path}.plantFactors.regular`);
+  checkNumber(plantFactors.drip, `${path}.plantFactors.drip`);
+  checkNumber(schedule.infiltrationRate, `${path}.infiltrationRate`);
+  checkArray(schedule.days, `${path}.days`, checkNumber);
+  checkString(schedule.startTime, `${path}.startTime`);
+  checkNumber(schedule.soakMinutes, `${path}.soakMinutes`);
+};
+
+const validatePlan = (plan: Json): PlanDocument => {
+  checkOneOf(plan.unit, ['ft', 'm'], 'unit');
+  if (plan.image !== null) checkString(plan.image, 'image');
+  if (plan.dimensions !== null) {
+    const dimensions = checkObject(plan.dimensions, 'dimensions');
+    checkNumber(dimensions.width, 'dimensions.width');
+    checkNumber(dimensions.height, 'dimensions.height');
+  }
+  checkArray(plan.shapes, 'shapes', checkShape);
+  checkRuler(plan.ruler, 'ruler');
+  checkArray(plan.scaleReferences, 'scaleReferences', checkScaleReference);
+  checkNullableNumber(plan.pixelRatio, 'pixelRatio');
+  checkArray(plan.heads, 'heads', checkHead);
+  checkArray(plan.pipes, 'pipes', checkPipe);
+  checkArray(plan.valveZones, 'valveZones', checkValveZone);
+  checkArray(plan.measurements, 'measurements', checkMeasurement);
+  checkArray(plan.geoPoints, 'geoPoints', checkGeoPoint);
+  checkArray(plan.layers, 'layers', checkLayer);
+  const layerIds = (plan.layers as { id: string }[]).map(layer => layer.id);
+  if (layerIds.length !== LAYER_IDS.length || LAYER_IDS.some(id => !layerIds.includes(id))) {
+    fail('layers', `${LAYER_IDS.join(', ')} in some order`);
+  }
+  const supply = checkObject(plan.supply, 'supply');
+  checkNullableNumber(supply.staticPressure, 'supply.staticPressure');
+  checkNullableNumber(supply.availableFlow, 'supply.availableFlow');
+  const drip = checkObject(plan.drip, 'drip');
+  checkNumber(drip.emitterFlow, 'drip.emitterFlow');
+  checkNumber(drip.emitterSpacing, 'drip.emitterSpacing');
+  const unitPrices = checkObject(plan.unitPrices, 'unitPrices');
+  Object.keys(unitPrices).forEach(key => checkNumber(unitPrices[key], `unitPrices.${key}`));
+  checkSchedule(plan.schedule, 'schedule');
+  return plan as unknown as PlanDocument;
+};
+
+export const migratePlan = (document: Json): Json => {
+  const savedVersion = document.version === undefined ? 0 : document.version;
+  if (typeof savedVersion !== 'number' || !Number.isInteger(savedVersion) || savedVersion < 0) {
+    throw new PlanFileError('version must be a whole number.');
+  }
+  if (savedVersion > PLAN_VERSION) {
+    throw new PlanFileError(
+      `This plan was saved by a newer version of the planner (format ${savedVersion}); this version opens up to format ${PLAN_VERSION}.`
+    );
+  }
+
+  let migrated = document;
+  let version = savedVersion;
+  while (version < PLAN_VERSION) {
+    migrated = MIGRATIONS[version](migrated);
+    version = migrated.version as number;
+  }
+  return migrated;
+};
+
+// Upgrades and validates a saved plan, throwing a PlanFileError that points
+// at the first problem found.
+export const readPlan = (document: unknown): PlanDocument => {
+  if (!isObject(document)) throw new PlanFileError('The file does not contain a plan.');
+  return validatePlan(migratePlan(document));
+};
+
+export const parsePlanFile = (text: string): PlanDocument => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new PlanFileError('The file is not valid JSON.');
+  }
+  return readPlan(parsed);
+};
+
+export const createEmptyPlan = (unit: 'ft' | 'm' = 'ft'): PlanDocument => ({
+  version: PLAN_VERSION,
+  unit,
+  image: null,
+  dimensions: null,
+  shapes: [],
+  ruler: null,
+  scaleReferences: [],
+  pixelRatio: null,
+  heads: [],
+  pipes: [],
+  valveZones: [],
+  measurements: [],
+  geoPoints: [],
+  layers: DEFAULT_LAYERS,
+  supply: { staticPressure: null, availableFlow: null },
+  drip: DRIP_DEFAULTS[unit],
+  unitPrices: {},
+  schedule: SCHEDULE_DEFAULTS[unit],
+});
+
+// Plans are edited immutably, so unchanged fields keep their identity.
+export const isSamePlan = (a: PlanDocument, b: PlanDocument): boolean =>
+  (Object.keys(a) as (keyof PlanDocument)[]).every(key => a[key] === b[key]);
+
+export const toPlanFile = (plan: Omit<PlanDocument, 'version'>): string =>
+  JSON.stringify({ version: PLAN_VERSION, ...plan }, null, 2);
@@ -0,0 +1,49 @@
+import {
+  calculateApplicationRate,
+  calculateDistributionUniformity,
+  calculateZonePrecipitation,
+  estimateHeadFlow,
+} from './precipitation';
+import { SprinklerHead } from './types';
+
+const makeHead = (overrides: Partial<SprinklerHead> = {}): SprinklerHead => ({
+  id: 'head',
+  position: { x: 0, y: 0 },
+  type: 'spray',
+  radius: 12,
+  arc: 360,
+  rotation: 0,
+  ...overrides,
+});
+
+test('head flow is estimated from the nominal rate over head-to-head spacing', () => {
+  expect(estimateHeadFlow(makeHead(), 'ft')).toBeCloseTo(2.39, 2);
+  expect(estimateHeadFlow(makeHead({ arc: 90 }), 'ft')).toBeCloseTo(0.6, 2);
+});
+
+test('application rate falls off linearly with distance from the head', () => {
+  const head = makeHead();
+  const near = calculateApplicationRate({ x: 3, y: 0 }, head, 1, 'ft');
+  const far = calculateApplicationRate({ x: 9, y: 0 }, head, 1, 'ft');
+
+  expect(near).toBeCloseTo(far * 3);
+  expect(calculateApplicationRate({ x: 13, y: 0 }, head, 1, 'ft')).toBe(0);
+});
+
+test('distribution uniformity compares the driest quarter to the mean', () => {
+  expect(calculateDistributionUniformity([1, 1, 1, 1])).toBe(1);
+  expect(calculateDistributionUniformity([0, 1, 1, 2])).toBe(0);
+  expect(calculateDistributionUniformity([1, 2, 2, 3])).toBe(0.5);
+});
+
+test('zone precipitation is only reported for regular regions', () => {
+  const regions = [
+    { type: 'regular' as const, points: [{ x: 2, y: 0 }, { x: 4, y: 0 }] },
+    { type: 'exclusion' as const, points: [{ x: 2, y: 2 }] },
+  ];
+  const [regular, exclusion] = calculateZonePrecipitation(regions, [makeHead()], 1, 'ft');
+
+  expect(regular?.rates).toHaveLength(2);
+  expect(regular?.precipitationRate).toBeGreaterThan(0);
+  expect(exclusion).toBeNull();
+});
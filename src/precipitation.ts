@@ -0,0 +1,104 @@
+import { HeadType, Point, Region, SprinklerHead } from './types';
+import { STRIP_WIDTH_RATIO, getHeadPixelRadius, isPointCoveredByHead } from './heads';
+
+export interface ZonePrecipitation {
+  // Application rate at each of the region's grid points.
+  rates: number[];
+  precipitationRate: number;
+  // Lower-quarter distribution uniformity, between 0 and 1.
+  distributionUniformity: number;
+}
+
+export const PRECIPITATION_UNITS = { ft: 'in/hr', m: 'mm/hr' } as const;
+
+// Converts flow over area into a precipitation rate: GPM over ft² into
+// in/hr for imperial plans, LPM over m² into mm/hr for metric ones.
+export const PRECIPITATION_FACTOR = { ft: 96.25, m: 60 } as const;
+
+// Typical matched-precipitation rates used to estimate a head's flow.
+const NOMINAL_PRECIPITATION: Record<HeadType, { ft: number; m: number }> = {
+  rotor: { ft: 0.6, m: 15 },
+  spray: { ft: 1.6, m: 40 },
+  strip: { ft: 1.6, m: 40 },
+};
+
+export const getPatternArea = (head: SprinklerHead): number => {
+  if (head.type === 'strip') return head.radius * head.radius * STRIP_WIDTH_RATIO;
+  return (Math.PI * head.radius * head.radius * Math.min(head.arc, 360)) / 360;
+};
+
+// Flow in GPM for imperial plans and LPM for metric ones. Nominal rates are
+// quoted for head-to-head spacing, where each full circle head waters a
+// square of its radius on a side.
+export const estimateHeadFlow = (head: SprinklerHead, unit: 'ft' | 'm'): number => {
+  const spacingArea =
+    head.type === 'strip' ? getPatternArea(head) : (head.radius * head.radius * Math.min(head.arc, 360)) / 360;
+  return (NOMINAL_PRECIPITATION[head.type][unit] * spacingArea) / PRECIPITATION_FACTOR[unit];
+};
+
+// Sprays and rotors put down less water the farther it is thrown; a linear
+// (triangular) profile is assumed, which averages out to the head's flow over
+// its pattern. Strip nozzles are treated as uniform.
+export const calculateApplicationRate = (
+  point: Point,
+  head: SprinklerHead,
+  pixelRatio: number,
+  unit: 'ft' | 'm'
+): number => {
+  if (!isPointCoveredByHead(point, head, pixelRatio)) return 0;
+
+  const patternArea = getPatternArea(head);
+  if (patternArea <= 0) return 0;
+
+  const averageRate = (estimateHeadFlow(head, unit) * PRECIPITATION_FACTOR[unit]) / patternArea;
+  if (head.type === 'strip') return averageRate;
+
+  const dx = point.x - head.position.x;
+  const dy = point.y - head.position.y;
+  const distance = Math.sqrt(dx * dx + dy * dy) / getHeadPixelRadius(head, pixelRatio);
+  return 3 * averageRate * (1 - distance);
+};
+
+export const calculateDistributionUniformity = (rates: number[]): number => {
+  if (rates.length === 0) return 0;
+
+  const mean = rates.reduce((sum, rate) => sum + rate, 0) / rates.length;
+  if (mean === 0) return 0;
+
+  const lowQuarter = [...rates].sort((a, b) => a - b).slice(0, Math.max(1, Math.floor(rates.length / 4)));
+  const lowQuarterMean = lowQuarter.reduce((sum, rate) => sum + rate, 0) / lowQuarter.length;
+  return lowQuarterMean / mean;
+};
+
+export const calculateZonePrecipitation = (
+  regions: Pick<Region, 'points' | 'type'>[],
+  heads: SprinklerHead[],
+  pixelRatio: number,
+  unit: 'ft' | 'm'
+): (ZonePrecipitation | null)[] =>
+  regions.map(region => {
+    if (region.type !== 'regular' || region.points.length === 0) return null;
+
+    const nearbyHeads = (point: Point) =>
+      heads.filter(head => {
+        const radius = getHeadPixelRadius(head, pixelRatio);
+        return Math.abs(point.x - head.position.x) <= radius && Math.abs(point.y - head.position.y) <= radius;
+      });
+
+    const rates = region.points.map(point =>
+      nearbyHeads(point).reduce((total, head) => total + calculateApplicationRate(point, head, pixelRatio, unit), 0)
+    );
+
+    return {
+      rates,
+      precipitationRate: rates.reduce((sum, rate) => sum + rate, 0) / rates.length,
+      distributionUniformity: calculateDistributionUniformity(rates),
+    };
+  });
+
+// Maps an application rate relative to the zone average onto red (dry),
+// green (on target) and blue (wet).
+export const getHeatmapColor = (relativeRate: number): string => {
+  const hue = Math.max(0, Math.min(2, relativeRate)) * 120;
+  return `hsla(${hue}, 80%, 50%, 0.5)`;
+};
@@ -0,0 +1,130 @@
+import { PrintSheet, getAreaTablePages, getScaleBar, renderPlanSvg } from './print';
+import { createEmptyPlan } from './plan';
+import { PAGE_SIZES } from './pdf';
+import { moveLayer, updateLayer } from './layers';
+
+const colors = {
+  regular: { fill: 'rgba(0, 255, 0, 0.3)', stroke: '#00ff00' },
+  drip: { fill: 'rgba(0, 0, 255, 0.3)', stroke: '#0000ff' },
+  exclusion: { fill: 'rgba(255, 0, 0, 0.3)', stroke: '#ff0000' },
+};
+
+const sheet: PrintSheet = {
+  plan: {
+    ...createEmptyPlan('ft'),
+    image: 'data:image/png;base64,AAAA',
+    dimensions: { width: 600, height: 400 },
+    pixelRatio: 0.1,
+    shapes: [
+      {
+        id: 's1',
+        points: [
+          { x: 10, y: 10 },
+          { x: 110, y: 10 },
+          { x: 110, y: 60 },
+        ],
+        area: 25,
+        type: 'regular',
+        name: 'Front & Side',
+      },
+      {
+        id: 's2',
+        points: [],
+        area: 0,
+        type: 'exclusion',
+        outline: { kind: 'ellipse', center: { x: 300, y: 200 }, radiusX: 40, radiusY: 20 },
+      },
+    ],
+    heads: [
+      { id: 'h1', position: { x: 50, y: 50 }, type: 'rotor', radius: 2, arc: 90, rotation: 0 },
+    ],
+    measurements: [
+      {
+        id: 'm1',
+        label: 'Fence',
+        points: [
+          { x: 0, y: 300 },
+          { x: 200, y: 300 },
+        ],
+      },
+    ],
+  },
+  title: 'Back <Yard>',
+  colors,
+  areaRows: [
+    { name: 'Front & Side', type: 'regular', area: '25.00 ft²' },
+    { name: 'Exclusion 1', type: 'exclusion', area: '12.57 ft²' },
+  ],
+  areaTotals: [{ label: 'Net Irrigated Area', area: '12.43 ft²' }],
+  measurementLabels: ['Fence: 20.00 ft'],
+  displayUnit: 'ft',
+  northAngle: 30,
+};
+
+test('the scale bar is the longest round length that fits', () => {
+  expect(getScaleBar(0.1, 'ft', 'ft', 300)).toEqual({ pixels: 200, length: 20, unit: 'ft' });
+  expect(getScaleBar(0.1, 'ft', 'ft', 100)).toEqual({ pixels: 100, length: 10, unit: 'ft' });
+
+  const metric = getScaleBar(0.1, 'ft', 'm', 300)!;
+  expect(metric.length).toBe(5);
+  expect(metric.pixels).toBeCloseTo(164.04, 2);
+  expect(getScaleBar(0, 'ft', 'ft', 300)).toBeNull();
+});
+
+test('the sheet has the plan, legend and escaped labels', () => {
+  const { svg, width, height } = renderPlanSvg(sheet);
+
+  expect(width).toBeGreaterThan(600);
+  expect(height).toBeGreaterThanOrEqual(400);
+  expect(svg).toContain('<image href="data:image/png;base64,AAAA"');
+  expect(svg).toContain('<polygon points="10,10 110,10 110,60"');
+  expect(svg).toContain('<ellipse cx="300" cy="200" rx="40" ry="20"');
+  expect(svg).toContain('A 20 20 0 0 1');
+  expect(svg).toContain('Back &lt;Yard&gt;');
+  expect(svg).toContain('Front &amp; Side');
+  expect(svg).toContain('Fence: 20.00 ft');
+  expect(svg).toContain('rotate(30)');
+  expect(svg).toContain('Exclusion Zone');
+  expect(svg).toContain('Sprinkler Head');
+  expect(svg).toContain('Net Irrigated Area');
+});
+
+test('the image source is escaped like the labels', () => {
+  const { svg } = renderPlanSvg({ ...sheet, plan: { ...sheet.plan, image: 'data:image/png;base64,"/><script/>' } });
+
+  expect(svg).toContain('<image href="data:image/png;base64,&quot;/&gt;&lt;script/&gt;"');
+  expect(svg).not.toContain('<script/>');
+});
+
+test('hidden layers are left off and the rest keep their opacity and order', () => {
+  const layers = moveLayer(
+    updateLayer(updateLayer(sheet.plan.layers, 'heads', { visible: false }), 'notes', { opacity: 0.5 }),
+    'zones',
+    1
+  );
+  const { svg } = renderPlanSvg({ ...sheet, plan: { ...sheet.plan, layers } });
+
+  expect(svg).not.toContain('A 20 20 0 0 1');
+  expect(svg).not.toContain('Sprinkler Head');
+  expect(svg).toContain('<g opacity="0.5">\n<polyline points="0,300 200,300"');
+  expect(svg.indexOf('<ellipse')).toBeLessThan(svg.indexOf('<polygon points="10,10'));
+});
+
+test('the area table can be left off the sheet', () => {
+  expect(renderPlanSvg(sheet, false).svg).not.toContain('Net Irrigated Area');
+});
+
+test('long area tables continue on more pages', () => {
+  const areaRows = Array.from({ length: 50 }, (_, i) => ({
+    name: `Zone ${i + 1}`,
+    type: 'regular' as const,
+    area: '10 ft²',
+  }));
+  const pages = getAreaTablePages({ ...sheet, areaRows }, PAGE_SIZES.letter);
+
+  expect(pages).toHaveLength(2);
+  expect(pages[0].content).toContain('Back <Yard>: Zone Areas \\(1 of 2\\)');
+  expect(pages[0].content).toContain('(Zone 1)');
+  expect(pages[1].content).toContain('(Zone 50)');
+  expect(pages[1].content).toContain('(Net Irrigated Area)');
+});
@@ -0,0 +1,453 @@
+import { LayerId, PlanDocument, Point, Shape, SprinklerHead } from './types';
+import { HEAD_COLORS, STRIP_WIDTH_RATIO, getHeadPixelRadius } from './heads';
+import { PIPE_COLORS, PIPE_KIND_LABELS } from './pipes';
+import { MEASUREMENT_COLOR, getPathMidpoint } from './measurements';
+import { ZONE_TYPE_LABELS } from './zones';
+import { convertQuantity } from './units';
+import { getShapeLayer, isLayerVisible } from './layers';
+import { PAGE_SIZES, PdfPage, createPdf, dataUrlToBinary, estimateTextWidth, pdfText } from './pdf';
+
+type ZoneType = Exclude<Shape['type'], 'delete'>;
+
+export type PrintColors = Record<ZoneType, { fill: string; stroke: string }>;
+
+export interface PrintSheet {
+  plan: PlanDocument;
+  title: string;
+  colors: PrintColors;
+  // Zone names and areas, already formatted in the display units.
+  areaRows: { name: string; type: ZoneType; area: string }[];
+  areaTotals: { label: string; area: string }[];
+  // Label of each of the plan's measurements.
+  measurementLabels: string[];
+  displayUnit: 'ft' | 'm';
+  // Degrees clockwise from the top of the image to north.
+  northAngle: number;
+}
+
+export interface ScaleBar {
+  // Length on the plan image.
+  pixels: number;
+  length: number;
+  unit: 'ft' | 'm';
+}
+
+// Largest side of a rasterized sheet; browsers refuse much bigger canvases.
+export const MAX_EXPORT_SIDE = 8192;
+
+// Pixels per sheet pixel of a PNG export, for sharp prints.
+export const PNG_SCALE = 2;
+
+// Resolution plan images are rasterized at for PDF pages.
+const PDF_DPI = 200;
+const PDF_MARGIN = 36;
+const PDF_ROW_HEIGHT = 16;
+
+const ZONE_TYPES: ZoneType[] = ['regular', 'drip', 'exclusion'];
+
+const SCALE_BAR_SEGMENTS = 4;
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+export const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatPoints = (points: Point[]): string =>
+  points.map(point => `${formatNumber(point.x)},${formatNumber(point.y)}`).join(' ');
+
+// Longest round length (1, 2 or 5 times a power of ten) that fits in
+// `maxPixels` of the plan, in the display unit.
+export const getScaleBar = (
+  pixelRatio: number,
+  planUnit: 'ft' | 'm',
+  displayUnit: 'ft' | 'm',
+  maxPixels: number
+): ScaleBar | null => {
+  const maxLength = convertQuantity(maxPixels * pixelRatio, 'length', planUnit, displayUnit);
+  if (!(maxLength > 0) || !Number.isFinite(maxLength)) return null;
+
+  const power = Math.pow(10, Math.floor(Math.log10(maxLength)));
+  const length = [5, 2, 1].map(step => step * power).find(candidate => candidate <= maxLength) ?? power;
+  return { pixels: (maxPixels * length) / maxLength, length, unit: displayUnit };
+};
+
+const getShapeElement = (shape: Shape, color: { fill: string; stroke: string }, strokeWidth: number): string => {
+  const paint = `fill="${color.fill}" stroke="${color.stroke}" stroke-width="${formatNumber(strokeWidth)}"`;
+  const { outline } = shape;
+  if (outline?.kind === 'ellipse') {
+    const { center, radiusX, radiusY } = outline;
+    return `<ellipse cx="${formatNumber(center.x)}" cy="${formatNumber(center.y)}" rx="${formatNumber(
+      radiusX
+    )}" ry="${formatNumber(radiusY)}" ${paint}/>`;
+  }
+  if (outline?.kind === 'path') {
+    const { vertices, controls } = outline;
+    const edges = vertices.map((_, i) => {
+      const next = vertices[(i + 1) % vertices.length];
+      const control = controls[i];
+      return control
+        ? `Q ${formatNumber(control.x)} ${formatNumber(control.y)} ${formatNumber(next.x)} ${formatNumber(next.y)}`
+        : `L ${formatNumber(next.x)} ${formatNumber(next.y)}`;
+    });
+    const start = `M ${formatNumber(vertices[0].x)} ${formatNumber(vertices[0].y)}`;
+    return `<path d="${start} ${edges.join(' ')} Z" ${paint} stroke-linejoin="round"/>`;
+  }
+  return `<polygon points="${formatPoints(shape.points)}" ${paint} stroke-linejoin="round"/>`;
+};
+
+// The head's pattern, matching how drawHead paints it on the canvas.
+const getHeadElement = (head: SprinklerHead, pixelRatio: number, strokeWidth: number): string => {
+  const radius = getHeadPixelRadius(head, pixelRatio);
+  const { x, y } = head.position;
+  const paint = `fill="${HEAD_COLORS.fill}" stroke="${HEAD_COLORS.stroke}" stroke-width="${formatNumber(strokeWidth)}"`;
+  const angle = (head.rotation * Math.PI) / 180;
+
+  if (head.type === 'strip') {
+    const halfWidth = (radius * STRIP_WIDTH_RATIO) / 2;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const corners = [
+      { x: x - sin * halfWidth, y: y + cos * halfWidth },
+      { x: x + cos * radius - sin * halfWidth, y: y + sin * radius + cos * halfWidth },
+      { x: x + cos * radius + sin * halfWidth, y: y + sin * radius - cos * halfWidth },
+      { x: x + sin * halfWidth, y: y - cos * halfWidth },
+    ];
+    return `<polygon points="${formatPoints(corners)}" ${paint}/>`;
+  }
+  if (head.arc >= 360) {
+    return `<circle cx="${formatNumber(x)}" cy="${formatNumber(y)}" r="${formatNumber(radius)}" ${paint}/>`;
+  }
+
+  const end = ((head.rotation + head.arc) * Math.PI) / 180;
+  const from = { x: x + radius * Math.cos(angle), y: y + radius * Math.sin(angle) };
+  const to = { x: x + radius * Math.cos(end), y: y + radius * Math.sin(end) };
+  // Angles grow clockwise on screen, which is SVG's positive sweep.
+  return `<path d="M ${formatNumber(x)} ${formatNumber(y)} L ${formatNumber(from.x)} ${formatNumber(
+    from.y
+  )} A ${formatNumber(radius)} ${formatNumber(radius)} 0 ${head.arc > 180 ? 1 : 0} 1 ${formatNumber(
+    to.x
+  )} ${formatNumber(to.y)} Z" ${paint}/>`;
+};
+
+const getLabelElement = (point: Point, angle: number, label: string, size: number, color: string): string => {
+  // Keep the text upright whichever way the path was drawn.
+  const degrees = ((Math.abs(angle) > Math.PI / 2 ? angle + Math.PI : angle) * 180) / Math.PI;
+  return `<text x="0" y="${formatNumber(-size / 3)}" transform="translate(${formatNumber(point.x)} ${formatNumber(
+    point.y
+  )}) rotate(${formatNumber(degrees)})" font-size="${formatNumber(
+    size
+  )}" text-anchor="middle" fill="${color}" stroke="white" stroke-width="${formatNumber(
+    size / 4
+  )}" paint-order="stroke">${escapeXml(label)}</text>`;
+};
+
+// Lays out the plan at one sheet pixel per image pixel, with a sidebar
+// holding the title, north arrow, scale bar, legend and, optionally, the
+// zone area table. Text sizes follow the image size so they print legibly.
+// Layers are drawn and listed in the legend as they are shown on screen.
+export const renderPlanSvg = (
+  sheet: PrintSheet,
+  includeAreaTable = true
+): { svg: string; width: number; height: number } => {
+  const { plan } = sheet;
+  const { width, height } = plan.dimensions ?? { width: 800, height: 600 };
+  const text = Math.max(12, Math.round(Math.max(width, height) / 60));
+  const stroke = text / 6;
+  const pad = text;
+  const sidebarWidth = text * 22;
+  const left = width + pad;
+  const right = width + sidebarWidth - pad;
+  const map: string[] = [];
+  const sidebar: string[] = [];
+
+  if (plan.image) {
+    map.push(`<image href="${escapeXml(plan.image)}" x="0" y="0" width="${width}" height="${height}"/>`);
+  }
+
+  // Each layer's items, in the order they were drawn.
+  const getLayerElements = (id: LayerId): string[] => {
+    const elements: string[] = [];
+    if (id === 'zones' || id === 'exclusions') {
+      plan.shapes.forEach(shape => {
+        if (shape.type !== 'delete' && getShapeLayer(shape) === id) {
+          elements.push(getShapeElement(shape, sheet.colors[shape.type], stroke));
+        }
+      });
+    } else if (id === 'heads') {
+      const { pixelRatio } = plan;
+      if (!pixelRatio) return elements;
+      plan.heads.forEach(head => {
+        elements.push(getHeadElement(head, pixelRatio, stroke));
+        elements.push(
+          `<circle cx="${formatNumber(head.position.x)}" cy="${formatNumber(head.position.y)}" r="${formatNumber(
+            text / 4
+          )}" fill="${HEAD_COLORS.stroke}"/>`
+        );
+      });
+    } else if (id === 'pipes') {
+      plan.pipes.forEach(pipe => {
+        const color = PIPE_COLORS[pipe.kind];
+        elements.push(
+          `<polyline points="${formatPoints(pipe.points)}" fill="none" stroke="${color.stroke}" stroke-width="${formatNumber(
+            (color.width * text) / 12
+          )}" stroke-linecap="round" stroke-linejoin="round"/>`
+        );
+      });
+    } else {
+      plan.measurements.forEach((measurement, i) => {
+        elements.push(
+          `<polyline points="${formatPoints(measurement.points)}" fill="none" stroke="${MEASUREMENT_COLOR}" stroke-width="${formatNumber(
+            stroke
+          )}" stroke-dasharray="${formatNumber(text / 2)} ${formatNumber(text / 3)}"/>`
+        );
+        const middle = getPathMidpoint(measurement.points);
+        const label = sheet.measurementLabels[i];
+        if (middle && label) {
+          elements.push(getLabelElement(middle.point, middle.angle, label, text * 0.9, MEASUREMENT_COLOR));
+        }
+      });
+    }
+    return elements;
+  };
+
+  // Visible layers bottom to top, each at its opacity.
+  plan.layers.forEach(layer => {
+    if (!layer.visible) return;
+    const elements = getLayerElements(layer.id);
+    if (elements.length === 0) return;
+    map.push(
+      layer.opacity < 1
+        ? `<g opacity="${formatNumber(layer.opacity)}">\n${elements.join('\n')}\n</g>`
+        : elements.join('\n')
+    );
+  });
+
+  let y = pad + text * 1.4;
+  sidebar.push(
+    `<text x="${left}" y="${formatNumber(y)}" font-size="${formatNumber(text * 1.4)}" font-weight="bold">${escapeXml(
+      sheet.title
+    )}</text>`
+  );
+
+  // North arrow.
+  y += text;
+  const arrow = { x: left + text * 1.5, y: y + text * 2 };
+  sidebar.push(
+    `<g transform="translate(${formatNumber(arrow.x)} ${formatNumber(arrow.y)}) rotate(${formatNumber(
+      sheet.northAngle
+    )})"><path d="M 0 ${formatNumber(-text * 1.6)} L ${formatNumber(text * 0.7)} ${formatNumber(
+      text * 1.2
+    )} L 0 ${formatNumber(text * 0.6)} L ${formatNumber(-text * 0.7)} ${formatNumber(
+      text * 1.2
+    )} Z" fill="#2c3e50"/><text x="0" y="${formatNumber(-text * 1.9)}" font-size="${text}" font-weight="bold" text-anchor="middle">N</text></g>`
+  );
+  y += text * 4.5;
+
+  const scaleBar = plan.pixelRatio && getScaleBar(plan.pixelRatio, plan.unit, sheet.displayUnit, right - left);
+  if (scaleBar) {
+    const segment = scaleBar.pixels / SCALE_BAR_SEGMENTS;
+    for (let i = 0; i < SCALE_BAR_SEGMENTS; i++) {
+      sidebar.push(
+        `<rect x="${formatNumber(left + i * segment)}" y="${formatNumber(y)}" width="${formatNumber(
+          segment
+        )}" height="${formatNumber(text / 2)}" fill="${i % 2 === 0 ? '#2c3e50' : 'white'}" stroke="#2c3e50" stroke-width="${formatNumber(
+          stroke / 2
+        )}"/>`
+      );
+    }
+    y += text * 1.7;
+    sidebar.push(`<text x="${left}" y="${formatNumber(y)}" font-size="${text}">0</text>`);
+    sidebar.push(
+      `<text x="${formatNumber(left + scaleBar.pixels)}" y="${formatNumber(y)}" font-size="${text}" text-anchor="end">${
+        scaleBar.length
+      } ${scaleBar.unit}</text>`
+    );
+    y += text * 1.5;
+  }
+
+  const legend: { label: string; swatch: string }[] = ZONE_TYPES.filter(type =>
+    isLayerVisible(plan.layers, getShapeLayer({ type }))
+  ).map(type => ({
+    label: `${ZONE_TYPE_LABELS[type]} Zone`,
+    swatch: `<rect width="${text}" height="${text}" fill="${sheet.colors[type].fill}" stroke="${
+      sheet.colors[type].stroke
+    }" stroke-width="${formatNumber(stroke)}"/>`,
+  }));
+  if (plan.heads.length > 0 && isLayerVisible(plan.layers, 'heads')) {
+    legend.push({
+      label: 'Sprinkler Head',
+      swatch: `<circle cx="${text / 2}" cy="${text / 2}" r="${text / 2}" fill="${HEAD_COLORS.fill}" stroke="${
+        HEAD_COLORS.stroke
+      }" stroke-width="${formatNumber(stroke)}"/>`,
+    });
+  }
+  (Object.keys(PIPE_COLORS) as (keyof typeof PIPE_COLORS)[])
+    .filter(kind => isLayerVisible(plan.layers, 'pipes') && plan.pipes.some(pipe => pipe.kind === kind))
+    .forEach(kind =>
+      legend.push({
+        label: PIPE_KIND_LABELS[kind],
+        swatch: `<line x1="0" y1="${text / 2}" x2="${text}" y2="${text / 2}" stroke="${
+          PIPE_COLORS[kind].stroke
+        }" stroke-width="${formatNumber((PIPE_COLORS[kind].width * text) / 12)}"/>`,
+      })
+    );
+  if (plan.measurements.length > 0 && isLayerVisible(plan.layers, 'notes')) {
+    legend.push({
+      label: 'Measurement',
+      swatch: `<line x1="0" y1="${text / 2}" x2="${text}" y2="${text / 2}" stroke="${MEASUREMENT_COLOR}" stroke-width="${formatNumber(
+        stroke
+      )}" stroke-dasharray="${formatNumber(text / 4)} ${formatNumber(text / 6)}"/>`,
+    });
+  }
+
+  y += text * 1.5;
+  sidebar.push(`<text x="${left}" y="${formatNumber(y)}" font-size="${text}" font-weight="bold">Legend</text>`);
+  y += text * 0.6;
+  legend.forEach(entry => {
+    sidebar.push(`<g transform="translate(${left} ${formatNumber(y)})">${entry.swatch}</g>`);
+    sidebar.push(
+      `<text x="${formatNumber(left + text * 1.6)}" y="${formatNumber(y + text * 0.85)}" font-size="${text}">${escapeXml(
+        entry.label
+      )}</text>`
+    );
+    y += text * 1.5;
+  });
+
+  if (includeAreaTable && (sheet.areaRows.length > 0 || sheet.areaTotals.length > 0)) {
+    y += text * 1.5;
+    sidebar.push(`<text x="${left}" y="${formatNumber(y)}" font-size="${text}" font-weight="bold">Zone Areas</text>`);
+    y += text * 0.6;
+    const row = (label: string, area: string, color: string | null) => {
+      if (color) {
+        sidebar.push(
+          `<rect x="${left}" y="${formatNumber(y + text * 0.15)}" width="${formatNumber(
+            text * 0.3
+          )}" height="${text}" fill="${color}"/>`
+        );
+      }
+      sidebar.push(
+        `<text x="${formatNumber(left + text * 0.6)}" y="${formatNumber(y + text * 0.95)}" font-size="${formatNumber(
+          text * 0.9
+        )}">${escapeXml(label)}</text>`
+      );
+      sidebar.push(
+        `<text x="${right}" y="${formatNumber(y + text * 0.95)}" font-size="${formatNumber(
+          text * 0.9
+        )}" text-anchor="end">${escapeXml(area)}</text>`
+      );
+      y += text * 1.3;
+    };
+    sheet.areaRows.forEach(entry => row(entry.name, entry.area, sheet.colors[entry.type].stroke));
+    y += text * 0.3;
+    sheet.areaTotals.forEach(total => row(total.label, total.area, null));
+  }
+
+  const sheetWidth = width + sidebarWidth;
+  const sheetHeight = Math.ceil(Math.max(height, y + pad));
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${sheetWidth}" height="${sheetHeight}" viewBox="0 0 ${sheetWidth} ${sheetHeight}" font-family="Arial, Helvetica, sans-serif">`,
+    `<rect width="${sheetWidth}" height="${sheetHeight}" fill="white"/>`,
+    ...map,
+    `<line x1="${width}" y1="0" x2="${width}" y2="${sheetHeight}" stroke="#dee2e6" stroke-width="${formatNumber(
+      stroke
+    )}"/>`,
+    ...sidebar,
+    '</svg>',
+  ].join('\n');
+  return { svg, width: sheetWidth, height: sheetHeight };
+};
+
+// Draws an SVG sheet onto a canvas `scale` times its size.
+export const rasterizeSvg = (
+  svg: string,
+  dimensions: { width: number; height: number },
+  scale: number,
+  type: 'image/png' | 'image/jpeg'
+): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(dimensions.width * scale);
+      canvas.height = Math.round(dimensions.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not supported.'));
+        return;
+      }
+      ctx.fillStyle = 'white';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL(type, 0.92));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The plan could not be rendered.'));
+    };
+    image.src = url;
+  });
+
+export const renderPlanPng = (sheet: PrintSheet): Promise<string> => {
+  const { svg, width, height } = renderPlanSvg(sheet);
+  return rasterizeSvg(svg, { width, height }, Math.min(PNG_SCALE, MAX_EXPORT_SIDE / Math.max(width, height)), 'image/png');
+};
+
+// Pages listing every zone's area, as many as the table needs.
+export const getAreaTablePages = (
+  sheet: Pick<PrintSheet, 'title' | 'areaRows' | 'areaTotals'>,
+  page: { width: number; height: number }
+): PdfPage[] => {
+  const rows = [
+    ...sheet.areaRows.map(row => ({ name: row.name, type: ZONE_TYPE_LABELS[row.type], area: row.area, bold: false })),
+    ...sheet.areaTotals.map(total => ({ name: total.label, type: '', area: total.area, bold: true })),
+  ];
+  const top = page.height - PDF_MARGIN;
+  // Below the title and the column headings.
+  const rowsPerPage = Math.max(1, Math.floor((top - PDF_MARGIN - PDF_ROW_HEIGHT * 3) / PDF_ROW_HEIGHT));
+  const pageCount = Math.ceil(rows.length / rowsPerPage);
+  const columns = { name: PDF_MARGIN, type: page.width * 0.55, area: page.width - PDF_MARGIN };
+
+  return Array.from({ length: pageCount }, (_, pageIndex) => {
+    const pageRows = rows.slice(pageIndex * rowsPerPage, (pageIndex + 1) * rowsPerPage);
+    const heading = pageCount > 1 ? ` (${pageIndex + 1} of ${pageCount})` : '';
+    let content = pdfText(PDF_MARGIN, top - 14, 14, `${sheet.title}: Zone Areas${heading}`, 'bold');
+    const headerY = top - PDF_ROW_HEIGHT * 2.5;
+    content += pdfText(columns.name, headerY, 10, 'Zone', 'bold');
+    content += pdfText(columns.type, headerY, 10, 'Type', 'bold');
+    content += pdfText(columns.area - estimateTextWidth('Area', 10), headerY, 10, 'Area', 'bold');
+    pageRows.forEach((row, i) => {
+      const rowY = headerY - PDF_ROW_HEIGHT * (i + 1);
+      const font = row.bold ? 'bold' : 'regular';
+      content += pdfText(columns.name, rowY, 10, row.name, font);
+      content += pdfText(columns.type, rowY, 10, row.type, font);
+      content += pdfText(columns.area - estimateTextWidth(row.area, 10), rowY, 10, row.area, font);
+    });
+    return { ...page, content, images: [] };
+  });
+};
+
+// The sheet without its area table on the first page, fitted inside the
+// margins, and the area table on the pages after it.
+export const createPlanPdf = async (sheet: PrintSheet, pageSize: keyof typeof PAGE_SIZES): Promise<string> => {
+  const page = PAGE_SIZES[pageSize];
+  const { svg, width, height } = renderPlanSvg(sheet, false);
+  const fit = Math.min((page.width - PDF_MARGIN * 2) / width, (page.height - PDF_MARGIN * 2) / height);
+  const scale = Math.min((fit * PDF_DPI) / 72, MAX_EXPORT_SIDE / Math.max(width, height));
+  const jpeg = await rasterizeSvg(svg, { width, height }, scale, 'image/jpeg');
+
+  const drawn = { width: width * fit, height: height * fit };
+  const x = (page.width - drawn.width) / 2;
+  const y = (page.height - drawn.height) / 2;
+  const planPage: PdfPage = {
+    ...page,
+    content: `q ${formatNumber(drawn.width)} 0 0 ${formatNumber(drawn.height)} ${formatNumber(x)} ${formatNumber(
+      y
+    )} cm /Im0 Do Q\n`,
+    images: [
+      { data: dataUrlToBinary(jpeg), width: Math.round(width * scale), height: Math.round(height * scale) },
+    ],
+  };
+  return createPdf([planPage, ...getAreaTablePages(sheet, page)]);
+};
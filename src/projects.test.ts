@@ -0,0 +1,72 @@
+import { clearLegacyPlan, readLegacyPlan } from './projects';
+import { PlanFileError } from './plan';
+import { DRIP_DEFAULTS } from './hydraulics';
+
+const shapes = [
+  {
+    points: [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+      { x: 0, y: 0 },
+    ],
+    area: 50,
+    type: 'regular',
+  },
+];
+
+beforeEach(() => localStorage.clear());
+
+test('there is nothing to migrate without a saved plan', () => {
+  expect(readLegacyPlan(localStorage)).toBeNull();
+});
+
+test('a plan saved in localStorage is read into a project', () => {
+  localStorage.setItem('irrigationImage', 'data:image/png;base64,AAAA');
+  localStorage.setItem('irrigationDimensions', JSON.stringify({ width: 800, height: 600 }));
+  localStorage.setItem('irrigationShapes', JSON.stringify(shapes));
+  localStorage.setItem('irrigationPixelRatio', '0.2');
+  localStorage.setItem('irrigationHistory', JSON.stringify({ past: [], future: [] }));
+
+  const project = readLegacyPlan(localStorage);
+
+  expect(project?.plan).toMatchObject({
+    image: 'data:image/png;base64,AAAA',
+    dimensions: { width: 800, height: 600 },
+    shapes,
+    pixelRatio: 0.2,
+    ruler: null,
+    heads: [],
+    drip: DRIP_DEFAULTS.ft,
+  });
+  expect(project?.history).toEqual({ past: [], future: [] });
+});
+
+test('undo snapshots are migrated with the plan, and dropped when they do not read', () => {
+  localStorage.setItem('irrigationShapes', JSON.stringify(shapes));
+  localStorage.setItem('irrigationHistory', JSON.stringify({ past: [{ shapes: [] }, { shapes }], future: [] }));
+
+  const [empty, drawn] = readLegacyPlan(localStorage)!.history.past;
+  expect(empty.shapes).toEqual([]);
+  expect(drawn.shapes).toEqual([{ ...shapes[0], id: expect.any(String) }]);
+  expect(drawn.heads).toEqual([]);
+
+  localStorage.setItem('irrigationHistory', JSON.stringify({ past: [{ shapes: [{ points: [] }] }], future: [] }));
+  expect(readLegacyPlan(localStorage)!.history).toEqual({ past: [], future: [] });
+});
+
+test('corrupted plans are reported instead of migrated', () => {
+  localStorage.setItem('irrigationShapes', '{not json');
+  expect(() => readLegacyPlan(localStorage)).toThrow(PlanFileError);
+});
+
+test('migrated keys are removed', () => {
+  localStorage.setItem('irrigationShapes', JSON.stringify(shapes));
+  localStorage.setItem('irrigationHistory', '{}');
+  localStorage.setItem('irrigationActiveProject', 'project');
+  clearLegacyPlan(localStorage);
+
+  expect(localStorage.getItem('irrigationShapes')).toBeNull();
+  expect(localStorage.getItem('irrigationHistory')).toBeNull();
+  expect(localStorage.getItem('irrigationActiveProject')).toBe('project');
+});
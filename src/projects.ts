@@ -0,0 +1,233 @@
+import { PlanDocument, Shape } from './types';
+import { EMPTY_HISTORY, History, PlanSnapshot } from './history';
+import { PlanFileError, readPlan } from './plan';
+import { createId } from './utils';
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  // Small JPEG data URL of the plan, or null before it has an image.
+  thumbnail: string | null;
+}
+
+export interface ProjectData {
+  plan: PlanDocument;
+  history: History;
+}
+
+type ThumbnailColors = Record<Exclude<Shape['type'], 'delete'>, { fill: string; stroke: string }>;
+
+const DATABASE_NAME = 'irrigation-planner';
+const DATABASE_VERSION = 1;
+// Summaries are kept apart from plans so listing projects doesn't load every
+// image in the library.
+const SUMMARY_STORE = 'projects';
+const PLAN_STORE = 'plans';
+
+export const THUMBNAIL_WIDTH = 160;
+
+// Where the planner kept its single plan before the project library, and the
+// plan field each key held.
+const LEGACY_KEYS: Record<string, keyof PlanDocument> = {
+  irrigationImage: 'image',
+  irrigationDimensions: 'dimensions',
+  irrigationShapes: 'shapes',
+  irrigationRuler: 'ruler',
+  irrigationPixelRatio: 'pixelRatio',
+  irrigationHeads: 'heads',
+  irrigationPipes: 'pipes',
+  irrigationValveZones: 'valveZones',
+  irrigationSupply: 'supply',
+  irrigationDrip: 'drip',
+  irrigationUnitPrices: 'unitPrices',
+  irrigationSchedule: 'schedule',
+};
+const LEGACY_HISTORY_KEY = 'irrigationHistory';
+
+const SNAPSHOT_FIELDS: (keyof PlanSnapshot)[] = [
+  'shapes',
+  'ruler',
+  'scaleReferences',
+  'pixelRatio',
+  'heads',
+  'pipes',
+  'valveZones',
+  'measurements',
+  'geoPoints',
+];
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(PLAN_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return database;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs `work` in a transaction over both stores and resolves with its result
+// once the transaction has committed. Both are awaited together so a commit
+// that fails after `work` has thrown is not left unhandled.
+const transact = async <T>(mode: IDBTransactionMode, work: (transaction: IDBTransaction) => Promise<T>): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SUMMARY_STORE, PLAN_STORE], mode);
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const [result] = await Promise.all([work(transaction), committed]);
+  return result;
+};
+
+// Undo snapshots are kept in the format of the plan saved with them, so each
+// is read as that plan with the snapshot's contents. A history that doesn't
+// read is dropped rather than keeping the project from opening.
+const readHistory = (history: unknown, plan: object): History => {
+  const readSnapshot = (snapshot: PlanSnapshot): PlanSnapshot => {
+    const read = readPlan({ ...plan, ...snapshot });
+    return Object.fromEntries(SNAPSHOT_FIELDS.map(field => [field, read[field]])) as unknown as PlanSnapshot;
+  };
+  try {
+    const { past, future } = history as History;
+    return { past: past.map(readSnapshot), future: future.map(readSnapshot) };
+  } catch {
+    return EMPTY_HISTORY;
+  }
+};
+
+export const createProjectSummary = (name: string): ProjectSummary => {
+  const now = Date.now();
+  return { id: createId(), name, createdAt: now, updatedAt: now, thumbnail: null };
+};
+
+export const listProjects = (): Promise<ProjectSummary[]> =>
+  transact('readonly', async transaction => {
+    const summaries: ProjectSummary[] = await toPromise(transaction.objectStore(SUMMARY_STORE).getAll());
+    return summaries.sort((a, b) => a.createdAt - b.createdAt);
+  });
+
+export const loadProject = (id: string): Promise<ProjectData> =>
+  transact('readonly', async transaction => {
+    const record = await toPromise(transaction.objectStore(PLAN_STORE).get(id));
+    if (!record) throw new Error(`Project ${id} does not exist.`);
+    return { plan: readPlan(record.plan), history: readHistory(record.history ?? EMPTY_HISTORY, record.plan) };
+  });
+
+export const createProject = (summary: ProjectSummary, data: ProjectData): Promise<void> =>
+  transact('readwrite', async transaction => {
+    transaction.objectStore(SUMMARY_STORE).put(summary);
+    transaction.objectStore(PLAN_STORE).put({ id: summary.id, ...data });
+  });
+
+export const renameProject = (id: string, name: string): Promise<void> =>
+  transact('readwrite', async transaction => {
+    const store = transaction.objectStore(SUMMARY_STORE);
+    const summary: ProjectSummary | undefined = await toPromise(store.get(id));
+    if (summary) store.put({ ...summary, name });
+  });
+
+export const deleteProject = (id: string): Promise<void> =>
+  transact('readwrite', async transaction => {
+    transaction.objectStore(SUMMARY_STORE).delete(id);
+    transaction.objectStore(PLAN_STORE).delete(id);
+  });
+
+export const renderThumbnail = (plan: PlanDocument, colors: ThumbnailColors): Promise<string | null> =>
+  new Promise(resolve => {
+    if (!plan.image || !plan.dimensions) {
+      resolve(null);
+      return;
+    }
+
+    const scale = THUMBNAIL_WIDTH / plan.dimensions.width;
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = THUMBNAIL_WIDTH;
+      canvas.height = Math.round(plan.dimensions!.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        resolve(null);
+        return;
+      }
+
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      plan.shapes.forEach(shape => {
+        if (shape.type === 'delete') return;
+        ctx.beginPath();
+        shape.points.forEach((point, i) => {
+          if (i === 0) ctx.moveTo(point.x * scale, point.y * scale);
+          else ctx.lineTo(point.x * scale, point.y * scale);
+        });
+        ctx.fillStyle = colors[shape.type].fill;
+        ctx.strokeStyle = colors[shape.type].stroke;
+        ctx.fill();
+        ctx.stroke();
+      });
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    image.onerror = () => resolve(null);
+    image.src = plan.image;
+  });
+
+// Saves a plan and its history and refreshes the project's thumbnail,
+// resolving with the updated summary.
+export const saveProject = async (
+  id: string,
+  data: ProjectData,
+  colors: ThumbnailColors
+): Promise<ProjectSummary | undefined> => {
+  const thumbnail = await renderThumbnail(data.plan, colors);
+  return transact('readwrite', async transaction => {
+    transaction.objectStore(PLAN_STORE).put({ id, ...data });
+    const store = transaction.objectStore(SUMMARY_STORE);
+    const summary: ProjectSummary | undefined = await toPromise(store.get(id));
+    if (!summary) return undefined;
+
+    const updated = { ...summary, updatedAt: Date.now(), thumbnail };
+    store.put(updated);
+    return updated;
+  });
+};
+
+// Reads a plan left in localStorage by earlier versions of the planner, or
+// null when there is none.
+export const readLegacyPlan = (storage: Storage): ProjectData | null => {
+  if (storage.getItem('irrigationShapes') === null && storage.getItem('irrigationImage') === null) return null;
+
+  const document: Record<string, unknown> = { version: 0 };
+  try {
+    Object.entries(LEGACY_KEYS).forEach(([key, field]) => {
+      const value = storage.getItem(key);
+      if (value === null) return;
+      document[field] = field === 'image' ? value : JSON.parse(value);
+    });
+    const savedHistory = storage.getItem(LEGACY_HISTORY_KEY);
+    const history = savedHistory ? readHistory(JSON.parse(savedHistory), document) : EMPTY_HISTORY;
+    return { plan: readPlan(document), history };
+  } catch (error) {
+    if (error instanceof PlanFileError) throw error;
+    throw new PlanFileError('The plan saved in this browser is corrupted.');
+  }
+};
+
+export const clearLegacyPlan = (storage: Storage) => {
+  [...Object.keys(LEGACY_KEYS), LEGACY_HISTORY_KEY].forEach(key => storage.removeItem(key));
+};
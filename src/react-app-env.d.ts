@@ -1 +1,16 @@
 /// <reference types="react-scripts" />
+
+// Compression Streams, which TypeScript's DOM library doesn't describe yet.
+type CompressionFormat = 'deflate' | 'deflate-raw' | 'gzip';
+
+declare class CompressionStream {
+  constructor(format: CompressionFormat);
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<Uint8Array>;
+}
+
+declare class DecompressionStream {
+  constructor(format: CompressionFormat);
+  readonly readable: ReadableStream<Uint8Array>;
+  readonly writable: WritableStream<Uint8Array>;
+}
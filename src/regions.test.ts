@@ -0,0 +1,94 @@
+import { MAX_REGION_SAMPLES, calculateZoneRegions, findRegionAt } from './regions';
+import { Shape } from './types';
+
+const rectangle = (x: number, y: number, width: number, height: number, type: Shape['type']): Shape => ({
+  id: `${type} ${x} ${y}`,
+  points: [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height },
+    { x, y },
+  ],
+  area: width * height,
+  type,
+});
+
+const totalArea = (shapes: Shape[], type: Shape['type']) =>
+  calculateZoneRegions(shapes, 2)
+    .regions.filter(region => region.type === type)
+    .reduce((total, region) => total + region.area, 0);
+
+test('overlapping zones of one type merge into a single exact region', () => {
+  const { regions } = calculateZoneRegions([rectangle(0, 0, 10, 10, 'regular'), rectangle(5, 5, 10, 10, 'regular')], 2);
+
+  expect(regions).toHaveLength(1);
+  expect(regions[0].area).toBe(175);
+});
+
+test('exclusions take precedence over drip zones, which take precedence over regular zones', () => {
+  const shapes = [
+    rectangle(0, 0, 30, 10, 'regular'),
+    rectangle(10, 0, 20, 10, 'drip'),
+    rectangle(25, 0, 10, 10, 'exclusion'),
+  ];
+
+  expect(totalArea(shapes, 'regular')).toBe(100);
+  expect(totalArea(shapes, 'drip')).toBe(150);
+  expect(totalArea(shapes, 'exclusion')).toBe(100);
+});
+
+test('an exclusion inside a zone leaves a hole that hit-testing respects', () => {
+  const { regions } = calculateZoneRegions([rectangle(0, 0, 30, 30, 'regular'), rectangle(10, 10, 10, 10, 'exclusion')], 2);
+  const regular = regions.findIndex(region => region.type === 'regular');
+
+  expect(regions[regular].area).toBe(800);
+  expect(regions[regular].rings).toHaveLength(2);
+  expect(findRegionAt({ x: 5, y: 5 }, regions)).toBe(regular);
+  expect(regions[findRegionAt({ x: 15, y: 15 }, regions)].type).toBe('exclusion');
+  expect(findRegionAt({ x: 40, y: 40 }, regions)).toBe(-1);
+});
+
+test('a zone split by an exclusion becomes separate regions', () => {
+  const { regions } = calculateZoneRegions([rectangle(0, 0, 30, 10, 'regular'), rectangle(10, -5, 10, 20, 'exclusion')], 2);
+  expect(regions.filter(region => region.type === 'regular')).toHaveLength(2);
+});
+
+test('sample points cover the region evenly', () => {
+  const [region] = calculateZoneRegions([rectangle(0, 0, 10, 10, 'regular')], 2).regions;
+  expect(region.points).toHaveLength(25);
+  expect(region.sampleSpacing).toBe(2);
+});
+
+test('every region of a plan is sampled on one grid, coarse enough for the largest', () => {
+  const { regions } = calculateZoneRegions(
+    [rectangle(0, 0, 1000, 1000, 'regular'), rectangle(2000, 0, 10, 10, 'drip')],
+    2
+  );
+
+  expect(regions[0].points.length).toBeLessThan(MAX_REGION_SAMPLES * 1.1);
+  expect(regions[1].sampleSpacing).toBe(regions[0].sampleSpacing);
+  expect(regions[0].sampleSpacing).toBeGreaterThan(2);
+});
+
+test('shapes that cannot be clipped are skipped and reported', () => {
+  const degenerate: Shape = {
+    ...rectangle(0, 0, 10, 10, 'drip'),
+    points: [
+      { x: 0, y: 0 },
+      { x: NaN, y: 0 },
+      { x: 5, y: 5 },
+      { x: 0, y: 0 },
+    ],
+  };
+  const { regions, skippedShapes } = calculateZoneRegions(
+    [rectangle(0, 0, 30, 10, 'regular'), degenerate, rectangle(25, 0, 10, 10, 'exclusion')],
+    2
+  );
+
+  expect(skippedShapes).toEqual([1]);
+  expect(regions.map(region => [region.type, region.area])).toEqual([
+    ['regular', 250],
+    ['exclusion', 100],
+  ]);
+});
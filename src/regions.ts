@@ -0,0 +1,115 @@
+import { MultiPolygon, Polygon, Ring, difference, union } from 'polygon-clipping';
+import { Point, Region, Shape } from './types';
+import { calculatePixelArea, isPointInShape } from './geometry';
+
+type RegionType = Region['type'];
+
+// Upper bound on sample points per region; plans with large regions are
+// sampled more coarsely so coverage estimates stay fast on big photos.
+export const MAX_REGION_SAMPLES = 5000;
+
+const toRing = (points: Point[]): Ring => points.map(point => [point.x, point.y]);
+
+const toPoints = (ring: Ring): Point[] => ring.map(([x, y]) => ({ x, y }));
+
+const unionShapes = (shapes: Shape[]): MultiPolygon => {
+  const polygons: Polygon[] = shapes.filter(shape => shape.points.length >= 3).map(shape => [toRing(shape.points)]);
+  return polygons.length > 0 ? union(polygons[0], ...polygons.slice(1)) : [];
+};
+
+const subtract = (subject: MultiPolygon, ...clips: MultiPolygon[]): MultiPolygon => {
+  const nonEmpty = clips.filter(clip => clip.length > 0);
+  return subject.length > 0 && nonEmpty.length > 0 ? difference(subject, ...nonEmpty) : subject;
+};
+
+export const calculateRegionArea = (rings: Point[][]): number =>
+  rings.reduce((area, ring, i) => (i === 0 ? area + calculatePixelArea(ring) : area - calculatePixelArea(ring)), 0);
+
+export const isPointInRegion = (point: Point, region: Pick<Region, 'rings'>): boolean => {
+  const [outer, ...holes] = region.rings;
+  return !!outer && isPointInShape(point, outer) && !holes.some(hole => isPointInShape(point, hole));
+};
+
+export const findRegionAt = (point: Point, regions: Region[]): number =>
+  regions.findIndex(region => isPointInRegion(point, region));
+
+// Samples cell centers on a grid anchored at the origin. Every region of a
+// plan is sampled at the same spacing, so neighbouring regions share one grid.
+const sampleRegion = (rings: Point[][], spacing: number) => {
+  const xs = rings[0].map(point => point.x);
+  const ys = rings[0].map(point => point.y);
+  const points: Point[] = [];
+
+  for (let x = Math.floor(Math.min(...xs) / spacing) * spacing + spacing / 2; x < Math.max(...xs); x += spacing) {
+    for (let y = Math.floor(Math.min(...ys) / spacing) * spacing + spacing / 2; y < Math.max(...ys); y += spacing) {
+      const point = { x, y };
+      if (isPointInRegion(point, { rings })) points.push(point);
+    }
+  }
+
+  return { points, sampleSpacing: spacing };
+};
+
+type ZoneUnions = Record<RegionType, MultiPolygon>;
+
+const unionZones = (shapes: Shape[]): ZoneUnions => {
+  const ofType = (type: RegionType) => unionShapes(shapes.filter(shape => shape.type === type));
+  return { regular: ofType('regular'), drip: ofType('drip'), exclusion: ofType('exclusion') };
+};
+
+// Adds the shapes to the union of their type one at a time, leaving out the
+// ones clipping fails on.
+const unionZonesSkipping = (shapes: Shape[], skippedShapes: number[]): ZoneUnions => {
+  const unions: ZoneUnions = { regular: [], drip: [], exclusion: [] };
+  shapes.forEach((shape, index) => {
+    if (shape.type === 'delete' || shape.points.length < 3) return;
+    try {
+      unions[shape.type] = union(unions[shape.type], [toRing(shape.points)]);
+    } catch {
+      skippedShapes.push(index);
+    }
+  });
+  return unions;
+};
+
+// Exclusions win over drip zones, which win over regular zones.
+const clipZones = ({ regular, drip, exclusion }: ZoneUnions): ZoneUnions => ({
+  regular: subtract(regular, exclusion, drip),
+  drip: subtract(drip, exclusion),
+  exclusion,
+});
+
+export interface ZoneRegions {
+  regions: Region[];
+  // Indexes of shapes left out because their outline could not be clipped,
+  // such as a degenerate ring left by a vertex drag or an import.
+  skippedShapes: number[];
+}
+
+// Splits the drawn shapes into non-overlapping regions. Each connected piece
+// of a zone type becomes its own region.
+export const calculateZoneRegions = (shapes: Shape[], minSampleSpacing: number): ZoneRegions => {
+  const skippedShapes: number[] = [];
+  let unions: ZoneUnions;
+  try {
+    unions = unionZones(shapes);
+  } catch {
+    unions = unionZonesSkipping(shapes, skippedShapes);
+  }
+  const clipped = clipZones(unions);
+
+  const pieces = (['regular', 'drip', 'exclusion'] as const).flatMap(type =>
+    clipped[type].map(polygon => {
+      const rings = polygon.map(toPoints);
+      return { rings, area: calculateRegionArea(rings), type };
+    })
+  );
+  // Coarse enough that even the largest region gets about MAX_REGION_SAMPLES.
+  const largestArea = pieces.reduce((largest, piece) => Math.max(largest, piece.area), 0);
+  const spacing = Math.max(minSampleSpacing, Math.sqrt(largestArea / MAX_REGION_SAMPLES));
+
+  return {
+    regions: pieces.map(piece => ({ ...piece, ...sampleRegion(piece.rings, spacing) })),
+    skippedShapes,
+  };
+};
@@ -0,0 +1,110 @@
+import {
+  SCHEDULE_DEFAULTS,
+  calculateValvePrecipitation,
+  generateSchedule,
+  planWateringDay,
+  toScheduleIcs,
+} from './schedule';
+import { Shape, SprinklerHead, ValveZone } from './types';
+
+const drip = { emitterFlow: 1, emitterSpacing: 1 };
+
+const lawn: Shape = {
+  id: 'lawn',
+  points: [
+    { x: 0, y: 0 },
+    { x: 10, y: 0 },
+    { x: 10, y: 10 },
+    { x: 0, y: 10 },
+    { x: 0, y: 0 },
+  ],
+  area: 100,
+  type: 'regular',
+};
+
+const head: SprinklerHead = {
+  id: 'head',
+  position: { x: 5, y: 5 },
+  type: 'spray',
+  radius: 10,
+  arc: 360,
+  rotation: 0,
+  // 1.925 GPM over 100 ft² is 1.85 in/hr.
+  flow: 1.925,
+};
+
+const valve: ValveZone = { id: 'v1', name: 'Valve 1', headIds: ['head'], shapeIds: ['lawn'] };
+
+test('valve precipitation spreads head flow over the seeded area', () => {
+  expect(calculateValvePrecipitation(valve, [head], [lawn], 1, drip, 'ft')).toBeCloseTo(1.85);
+
+  const bed = { ...lawn, id: 'bed', type: 'drip' as const };
+  const dripValve = { ...valve, headIds: [], shapeIds: ['bed'] };
+  expect(calculateValvePrecipitation(dripValve, [], [bed], 1, drip, 'ft')).toBeCloseTo(96.25 / 60);
+});
+
+test('run times are split into cycles the soil can absorb', () => {
+  const settings = { ...SCHEDULE_DEFAULTS.ft, weeklyRequirement: 1.5, days: [1, 4] };
+  const [schedule] = generateSchedule([valve], [head], [lawn], 1, drip, settings, 'ft');
+
+  // 1.5 in at 1.85 in/hr is 49 minutes a week, 25 on each of two days.
+  expect(schedule.weeklyMinutes).toBe(49);
+  expect(schedule.minutesPerDay).toBe(25);
+  // Soil taking 0.5 in/hr runs off after 16 minutes at 1.85 in/hr.
+  expect(schedule.cycles).toBe(2);
+  expect(schedule.cycleMinutes).toBe(13);
+});
+
+test('ET scheduling applies the plant factor for the zone type', () => {
+  const settings = { ...SCHEDULE_DEFAULTS.ft, method: 'et' as const, weeklyEt: 2, days: [1] };
+  const [schedule] = generateSchedule([valve], [head], [lawn], 1, drip, settings, 'ft');
+
+  expect(schedule.weeklyMinutes).toBe(Math.ceil(((2 * 0.8) / 1.85) * 60));
+});
+
+test('cycles of different valves are interleaved with soak time', () => {
+  const settings = { ...SCHEDULE_DEFAULTS.ft, startTime: '05:00', soakMinutes: 30 };
+  const runs = planWateringDay(
+    [
+      { valveId: 'a', name: 'A', precipitationRate: 1, weeklyMinutes: 30, minutesPerDay: 20, cycles: 2, cycleMinutes: 10 },
+      { valveId: 'b', name: 'B', precipitationRate: 1, weeklyMinutes: 15, minutesPerDay: 5, cycles: 1, cycleMinutes: 5 },
+    ],
+    settings
+  );
+
+  expect(runs.map(run => [run.valveId, run.start])).toEqual([
+    ['a', 300],
+    ['b', 310],
+    ['a', 340],
+  ]);
+});
+
+test('ICS export recurs weekly on the watering days', () => {
+  const settings = { ...SCHEDULE_DEFAULTS.ft, days: [1, 3], startTime: '06:30' };
+  const [schedule] = generateSchedule([valve], [head], [lawn], 1, drip, { ...settings, infiltrationRate: 10 }, 'ft');
+  // Saturday, so the first watering day is the following Monday.
+  const ics = toScheduleIcs([schedule], settings, new Date(2024, 5, 1, 12));
+
+  expect(ics).toContain('DTSTART:20240603T063000');
+  expect(ics).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,WE');
+  expect(ics).toContain(`DURATION:PT${schedule.cycleMinutes}M`);
+});
+
+test('ICS text is escaped and long lines are folded at 75 octets', () => {
+  const settings = { ...SCHEDULE_DEFAULTS.ft, days: [1], infiltrationRate: 10 };
+  const name = 'Front; back, and side\\beds\nnear the café '.repeat(3);
+  const [schedule] = generateSchedule([{ ...valve, name }], [head], [lawn], 1, drip, settings, 'ft');
+  const ics = toScheduleIcs([schedule], settings, new Date(2024, 5, 1, 12));
+  const lines = ics.split('\r\n');
+
+  // Each percent-encoded octet counts once.
+  const octets = (line: string) => encodeURIComponent(line).replace(/%[0-9A-F]{2}/g, '.').length;
+  lines.forEach(line => expect(octets(line)).toBeLessThanOrEqual(75));
+  expect(lines.some(line => line.startsWith(' '))).toBe(true);
+  const summary = lines
+    .slice(lines.findIndex(line => line.startsWith('SUMMARY:')))
+    .join('\r\n')
+    .split('\r\nEND:VEVENT')[0]
+    .replace(/\r\n /g, '');
+  expect(summary).toBe(`SUMMARY:${'Front\\; back\\, and side\\\\beds\\nnear the café '.repeat(3)}`);
+});
@@ -0,0 +1,259 @@
+import { DripSettings, ScheduleSettings, Shape, SprinklerHead, ValveZone } from './types';
+import { getHeadFlow, getValveHeads, getValveShapes } from './hydraulics';
+import { PRECIPITATION_FACTOR } from './precipitation';
+
+export interface ValveSchedule {
+  valveId: string;
+  name: string;
+  precipitationRate: number;
+  weeklyMinutes: number;
+  minutesPerDay: number;
+  cycles: number;
+  cycleMinutes: number;
+}
+
+export interface ScheduleRun {
+  valveId: string;
+  name: string;
+  cycle: number;
+  cycles: number;
+  // Minutes after midnight.
+  start: number;
+  duration: number;
+}
+
+// Units for water depth, matching the precipitation rate units.
+export const DEPTH_UNITS = { ft: 'in', m: 'mm' } as const;
+
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const ICS_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const SCHEDULE_DEFAULTS: Record<'ft' | 'm', ScheduleSettings> = {
+  ft: {
+    method: 'requirement',
+    weeklyRequirement: 1,
+    weeklyEt: 1.5,
+    plantFactors: { regular: 0.8, drip: 0.5 },
+    infiltrationRate: 0.5,
+    days: [1, 3, 5],
+    startTime: '05:00',
+    soakMinutes: 30,
+  },
+  m: {
+    method: 'requirement',
+    weeklyRequirement: 25,
+    weeklyEt: 38,
+    plantFactors: { regular: 0.8, drip: 0.5 },
+    infiltrationRate: 13,
+    days: [1, 3, 5],
+    startTime: '05:00',
+    soakMinutes: 30,
+  },
+};
+
+// Average application rate over the valve's seeded polygons. Valves built
+// from heads alone fall back to the head-to-head area of their heads.
+export const calculateValvePrecipitation = (
+  valve: ValveZone,
+  heads: SprinklerHead[],
+  shapes: Shape[],
+  pixelRatio: number,
+  drip: DripSettings,
+  unit: 'ft' | 'm'
+): number => {
+  const valveHeads = getValveHeads(valve, heads);
+  const valveShapes = getValveShapes(valve, shapes);
+  const headFlow = valveHeads.reduce((total, head) => total + getHeadFlow(head, unit), 0);
+  const regularArea =
+    valveShapes
+      .filter(shape => shape.type === 'regular')
+      .reduce((total, shape) => total + shape.area, 0) *
+    pixelRatio *
+    pixelRatio;
+  const headArea =
+    regularArea > 0
+      ? regularArea
+      : valveHeads.reduce((total, head) => total + (head.radius * head.radius * Math.min(head.arc, 360)) / 360, 0);
+
+  const dripArea =
+    valveShapes.filter(shape => shape.type === 'drip').reduce((total, shape) => total + shape.area, 0) *
+    pixelRatio *
+    pixelRatio;
+  // Emitters are rated per hour rather than per minute.
+  const dripRate =
+    drip.emitterSpacing > 0
+      ? (drip.emitterFlow * PRECIPITATION_FACTOR[unit]) / 60 / (drip.emitterSpacing * drip.emitterSpacing)
+      : 0;
+
+  const totalArea = (headFlow > 0 ? headArea : 0) + dripArea;
+  if (totalArea === 0) return 0;
+
+  const headWater = headFlow > 0 ? headFlow * PRECIPITATION_FACTOR[unit] : 0;
+  return (headWater + dripRate * dripArea) / totalArea;
+};
+
+const isDripValve = (valve: ValveZone, shapes: Shape[]): boolean =>
+  valve.headIds.length === 0 && getValveShapes(valve, shapes).some(shape => shape.type === 'drip');
+
+export const getWeeklyRequirement = (valve: ValveZone, shapes: Shape[], settings: ScheduleSettings): number =>
+  settings.method === 'et'
+    ? settings.weeklyEt * settings.plantFactors[isDripValve(valve, shapes) ? 'drip' : 'regular']
+    : settings.weeklyRequirement;
+
+export const generateSchedule = (
+  valveZones: ValveZone[],
+  heads: SprinklerHead[],
+  shapes: Shape[],
+  pixelRatio: number,
+  drip: DripSettings,
+  settings: ScheduleSettings,
+  unit: 'ft' | 'm'
+): ValveSchedule[] =>
+  valveZones.map(valve => {
+    const precipitationRate = calculateValvePrecipitation(valve, heads, shapes, pixelRatio, drip, unit);
+    const weeklyMinutes =
+      precipitationRate > 0 ? Math.ceil((getWeeklyRequirement(valve, shapes, settings) / precipitationRate) * 60) : 0;
+    const minutesPerDay = settings.days.length > 0 ? Math.ceil(weeklyMinutes / settings.days.length) : 0;
+
+    // Split each day's watering into cycles short enough for the soil to
+    // absorb before water runs off.
+    const maxCycleMinutes =
+      precipitationRate > settings.infiltrationRate && settings.infiltrationRate > 0
+        ? Math.max(1, Math.floor((settings.infiltrationRate / precipitationRate) * 60))
+        : Infinity;
+    const cycles = minutesPerDay > 0 ? Math.max(1, Math.ceil(minutesPerDay / maxCycleMinutes)) : 0;
+
+    return {
+      valveId: valve.id,
+      name: valve.name,
+      precipitationRate,
+      weeklyMinutes,
+      minutesPerDay,
+      cycles,
+      cycleMinutes: cycles > 0 ? Math.ceil(minutesPerDay / cycles) : 0,
+    };
+  });
+
+const parseTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(value => parseInt(value, 10));
+  return (isNaN(hours) ? 0 : hours) * 60 + (isNaN(minutes) ? 0 : minutes);
+};
+
+export const formatTime = (minutes: number): string => {
+  const wrapped = ((minutes % 1440) + 1440) % 1440;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+// Valves run one at a time. Cycles are interleaved so that other valves run
+// while a valve soaks, and a valve never restarts before its soak time is up.
+export const planWateringDay = (schedule: ValveSchedule[], settings: ScheduleSettings): ScheduleRun[] => {
+  const runs: ScheduleRun[] = [];
+  const lastEnd = new Map<string, number>();
+  const rounds = Math.max(0, ...schedule.map(valve => valve.cycles));
+  let time = parseTime(settings.startTime);
+
+  for (let cycle = 1; cycle <= rounds; cycle++) {
+    for (const valve of schedule) {
+      if (valve.cycles < cycle) continue;
+
+      const previousEnd = lastEnd.get(valve.valveId);
+      const start = previousEnd === undefined ? time : Math.max(time, previousEnd + settings.soakMinutes);
+      runs.push({
+        valveId: valve.valveId,
+        name: valve.name,
+        cycle,
+        cycles: valve.cycles,
+        start,
+        duration: valve.cycleMinutes,
+      });
+      time = start + valve.cycleMinutes;
+      lastEnd.set(valve.valveId, time);
+    }
+  }
+
+  return runs;
+};
+
+export const toScheduleJson = (
+  schedule: ValveSchedule[],
+  settings: ScheduleSettings,
+  unit: 'ft' | 'm'
+): string =>
+  JSON.stringify(
+    {
+      unit,
+      days: settings.days.map(day => DAY_NAMES[day]),
+      startTime: settings.startTime,
+      valves: schedule,
+      program: planWateringDay(schedule, settings).map(run => ({ ...run, start: formatTime(run.start) })),
+    },
+    null,
+    2
+  );
+
+const formatIcsDate = (date: Date): string =>
+  `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+
+const formatIcsTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Text values escape backslashes, separators and line breaks (RFC 5545 3.3.11).
+const escapeIcsText = (text: string): string =>
+  text.replace(/[\\;,]/g, match => `\\${match}`).replace(/\r?\n|\r/g, '\\n');
+
+const getUtf8Length = (character: string): number => {
+  const code = character.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets continue on lines starting with a space
+// (RFC 5545 3.1), breaking between characters rather than inside one.
+const foldIcsLine = (line: string): string => {
+  const lines = [''];
+  let length = 0;
+  for (const character of line) {
+    const size = getUtf8Length(character);
+    if (length + size > 75) {
+      lines.push(' ');
+      length = 1;
+    }
+    lines[lines.length - 1] += character;
+    length += size;
+  }
+  return lines.join('\r\n');
+};
+
+// Each run becomes a weekly recurring event on the watering days, starting
+// from the first watering day on or after `from`.
+export const toScheduleIcs = (schedule: ValveSchedule[], settings: ScheduleSettings, from: Date): string => {
+  const days = [...settings.days].sort((a, b) => a - b);
+  const offset = days.length > 0 ? Math.min(...days.map(day => (day - from.getDay() + 7) % 7)) : 0;
+  const firstDay = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+  const timestamp = formatIcsTimestamp(from);
+
+  const events = planWateringDay(schedule, settings).flatMap(run => {
+    const dayOffset = Math.floor(run.start / 1440);
+    const date = new Date(firstDay.getFullYear(), firstDay.getMonth(), firstDay.getDate() + dayOffset);
+    const summary = run.cycles > 1 ? `${run.name} (cycle ${run.cycle} of ${run.cycles})` : run.name;
+    return [
+      'BEGIN:VEVENT',
+      `UID:${run.valveId}-${run.cycle}@irrigation-planner`,
+      `DTSTAMP:${timestamp}`,
+      `DTSTART:${formatIcsDate(date)}T${formatTime(run.start).replace(':', '')}00`,
+      `DURATION:PT${run.duration}M`,
+      `RRULE:FREQ=WEEKLY;BYDAY=${days.map(day => ICS_DAYS[(day + dayOffset) % 7]).join(',')}`,
+      `SUMMARY:${escapeIcsText(summary)}`,
+      'END:VEVENT',
+    ];
+  });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Irrigation System Planner//Watering Schedule//EN',
+    ...events,
+    'END:VCALENDAR',
+  ]
+    .map(foldIcsLine)
+    .join('\r\n');
+};
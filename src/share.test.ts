@@ -0,0 +1,58 @@
+import { TextDecoder, TextEncoder } from 'util';
+import { PLAN_VERSION, PlanFileError, createEmptyPlan } from './plan';
+import { SHARE_LINK_PREFIX, createShareLink, isShareLink, readShareLink } from './share';
+import { PlanDocument } from './types';
+
+// jsdom leaves out the encoders and compression streams browsers have.
+const { CompressionStream, DecompressionStream } = require('stream/web');
+Object.assign(global, { TextEncoder, TextDecoder, CompressionStream, DecompressionStream });
+
+const plan: PlanDocument = {
+  ...createEmptyPlan('m'),
+  image: 'data:image/jpeg;base64,/9j/AAAA',
+  dimensions: { width: 800, height: 600 },
+  shapes: [
+    {
+      id: 's1',
+      points: [
+        { x: 10, y: 10 },
+        { x: 110, y: 10 },
+        { x: 110, y: 60 },
+        { x: 10, y: 10 },
+      ],
+      area: 2500,
+      type: 'regular',
+      name: 'Pelouse arrière',
+    },
+  ],
+  ruler: { start: { x: 0, y: 0 }, end: { x: 100, y: 0 }, length: 5, unit: 'm' },
+  pixelRatio: 0.05,
+};
+
+test('a shared plan opens from its link unchanged', async () => {
+  const link = await createShareLink(plan, 'https://example.github.io/planner/');
+  const hash = link.slice(link.indexOf('#'));
+
+  expect(link.startsWith(`https://example.github.io/planner/${SHARE_LINK_PREFIX}`)).toBe(true);
+  expect(hash).toMatch(/^#plan=[A-Za-z0-9_-]+$/);
+  expect(isShareLink(hash)).toBe(true);
+  expect(await readShareLink(hash)).toEqual({ ...plan, version: PLAN_VERSION });
+});
+
+test('damaged links are reported', async () => {
+  const link = await createShareLink(plan, '');
+
+  await expect(readShareLink(link.slice(0, link.length / 2))).rejects.toThrow(PlanFileError);
+  await expect(readShareLink(`${SHARE_LINK_PREFIX}not-a-plan`)).rejects.toThrow('The link is incomplete or damaged.');
+  expect(isShareLink('#section-2')).toBe(false);
+});
+
+test('links whose image is not embedded are refused', async () => {
+  const remote = await createShareLink({ ...plan, image: 'https://example.com/track.png' }, '');
+  const svg = await createShareLink({ ...plan, image: 'data:image/svg+xml,<svg/>' }, '');
+  const png = await createShareLink({ ...plan, image: 'data:image/png;base64,AAAA' }, '');
+
+  await expect(readShareLink(remote)).rejects.toThrow('image must be an embedded JPEG or PNG.');
+  await expect(readShareLink(svg)).rejects.toThrow(PlanFileError);
+  expect((await readShareLink(png)).image).toBe('data:image/png;base64,AAAA');
+});
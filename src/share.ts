@@ -0,0 +1,112 @@
+import { PlanDocument } from './types';
+import { PlanFileError, readPlan } from './plan';
+import { binaryToBytes } from './pdf';
+
+// Shared plans travel in the URL fragment, which never reaches the server.
+export const SHARE_LINK_PREFIX = '#plan=';
+
+// Longest side of the image sent along with a shared plan; the viewer
+// stretches it back over the plan's dimensions.
+export const SHARE_IMAGE_SIZE = 1024;
+const SHARE_IMAGE_QUALITY = 0.6;
+
+// Side of the blank background sent in place of the image.
+const BLANK_IMAGE_SIZE = 16;
+
+// Shared images are always rendered here as inline JPEG or PNG; anything
+// else, such as a remote URL the viewer's browser would fetch, is refused.
+const SHARE_IMAGE_PATTERN = /^data:image\/(jpeg|png)[;,]/;
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array =>
+  binaryToBytes(atob(text.replace(/-/g, '+').replace(/_/g, '/')));
+
+// Runs bytes through a compression stream, reading while writing so neither
+// side waits on the other.
+const transform = async (
+  stream: { readable: ReadableStream<Uint8Array>; writable: WritableStream<Uint8Array> },
+  bytes: Uint8Array
+): Promise<Uint8Array> => {
+  const writer = stream.writable.getWriter();
+  // Failures surface on the reading side.
+  writer.write(bytes).catch(() => {});
+  writer.close().catch(() => {});
+
+  const reader = stream.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  const output = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  chunks.reduce((offset, chunk) => {
+    output.set(chunk, offset);
+    return offset + chunk.length;
+  }, 0);
+  return output;
+};
+
+export const createShareLink = async (plan: PlanDocument, baseUrl: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify(plan));
+  const compressed = await transform(new CompressionStream('deflate-raw'), bytes);
+  return `${baseUrl}${SHARE_LINK_PREFIX}${toBase64Url(compressed)}`;
+};
+
+export const isShareLink = (hash: string): boolean => hash.startsWith(SHARE_LINK_PREFIX);
+
+// The plan in a share link's fragment, validated like an opened plan file.
+export const readShareLink = async (hash: string): Promise<PlanDocument> => {
+  let text: string;
+  try {
+    const compressed = fromBase64Url(hash.slice(SHARE_LINK_PREFIX.length));
+    text = new TextDecoder().decode(await transform(new DecompressionStream('deflate-raw'), compressed));
+  } catch {
+    throw new PlanFileError('The link is incomplete or damaged.');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new PlanFileError('The link is incomplete or damaged.');
+  }
+  const plan = readPlan(parsed);
+  if (plan.image !== null && !SHARE_IMAGE_PATTERN.test(plan.image)) {
+    throw new PlanFileError('image must be an embedded JPEG or PNG.');
+  }
+  return plan;
+};
+
+const loadImage = (source: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The image could not be read.'));
+    image.src = source;
+  });
+
+// A small JPEG of the plan image, or of a blank page when it is left out,
+// so the viewer has something to draw the plan over.
+export const renderShareImage = async (
+  source: string | null,
+  dimensions: { width: number; height: number }
+): Promise<string> => {
+  const maxSide = source ? SHARE_IMAGE_SIZE : BLANK_IMAGE_SIZE;
+  const scale = Math.min(1, maxSide / Math.max(dimensions.width, dimensions.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(dimensions.width * scale));
+  canvas.height = Math.max(1, Math.round(dimensions.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported.');
+
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  if (source) ctx.drawImage(await loadImage(source), 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', SHARE_IMAGE_QUALITY);
+};
@@ -0,0 +1,34 @@
+import { extendTowards, lockAngle, snapToPaths } from './snapping';
+
+const square = [
+  { x: 0, y: 0 },
+  { x: 100, y: 0 },
+  { x: 100, y: 100 },
+  { x: 0, y: 100 },
+  { x: 0, y: 0 },
+];
+
+test('points near a vertex snap onto it', () => {
+  expect(snapToPaths({ x: 97, y: 4 }, [square], 10)).toEqual({ point: { x: 100, y: 0 }, kind: 'vertex' });
+});
+
+test('points near an edge snap onto the closest point of the edge', () => {
+  expect(snapToPaths({ x: 50, y: 96 }, [square], 10)).toEqual({ point: { x: 50, y: 100 }, kind: 'edge' });
+});
+
+test('points away from every path are left alone', () => {
+  expect(snapToPaths({ x: 50, y: 50 }, [square], 10)).toBeNull();
+});
+
+test('shift locks segments to 45 degree steps', () => {
+  expect(lockAngle({ x: 0, y: 0 }, { x: 100, y: 8 })).toEqual({ x: 100, y: 0 });
+  expect(lockAngle({ x: 0, y: 0 }, { x: 3, y: -90 })).toEqual({ x: 0, y: -90 });
+
+  const diagonal = lockAngle({ x: 0, y: 0 }, { x: 50, y: 40 });
+  expect(diagonal.x).toBeCloseTo(diagonal.y);
+});
+
+test('typed lengths extend from the last point towards the cursor', () => {
+  expect(extendTowards({ x: 10, y: 10 }, { x: 10, y: 110 }, 25)).toEqual({ x: 10, y: 35 });
+  expect(extendTowards({ x: 10, y: 10 }, { x: 10, y: 10 }, 25)).toEqual({ x: 35, y: 10 });
+});
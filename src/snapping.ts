@@ -0,0 +1,66 @@
+import { Point } from './types';
+import { calculatePixelDistance, closestPointOnSegment } from './geometry';
+
+export type SnapKind = 'vertex' | 'edge';
+
+export interface Snap {
+  point: Point;
+  kind: SnapKind;
+}
+
+// Shift-drawn segments are locked to multiples of this angle.
+export const ANGLE_STEP = 45;
+
+// Snaps onto the nearest vertex of any path within `threshold`, or failing
+// that onto the nearest point of one of their segments.
+export const snapToPaths = (point: Point, paths: Point[][], threshold: number): Snap | null => {
+  let vertex: Point | null = null;
+  let vertexDistance = threshold;
+  paths.forEach(path =>
+    path.forEach(candidate => {
+      const distance = calculatePixelDistance(point, candidate);
+      if (distance <= vertexDistance) {
+        vertex = candidate;
+        vertexDistance = distance;
+      }
+    })
+  );
+  if (vertex) return { point: vertex, kind: 'vertex' };
+
+  let edge: Point | null = null;
+  let edgeDistance = threshold;
+  paths.forEach(path =>
+    path.slice(1).forEach((end, i) => {
+      const candidate = closestPointOnSegment(point, path[i], end);
+      const distance = calculatePixelDistance(point, candidate);
+      if (distance <= edgeDistance) {
+        edge = candidate;
+        edgeDistance = distance;
+      }
+    })
+  );
+  return edge ? { point: edge, kind: 'edge' } : null;
+};
+
+// Rotates the segment from `anchor` to `point` onto the nearest multiple of
+// `step` degrees, keeping the length of its projection.
+export const lockAngle = (anchor: Point, point: Point, step: number = ANGLE_STEP): Point => {
+  const dx = point.x - anchor.x;
+  const dy = point.y - anchor.y;
+  const angle = (Math.round(Math.atan2(dy, dx) / ((step * Math.PI) / 180)) * step * Math.PI) / 180;
+  const length = dx * Math.cos(angle) + dy * Math.sin(angle);
+  // Clean up floating point noise so locked segments are exactly straight.
+  const round = (value: number) => Math.round(value * 1e9) / 1e9;
+  return { x: round(anchor.x + Math.cos(angle) * length), y: round(anchor.y + Math.sin(angle) * length) };
+};
+
+// The point `length` pixels from `anchor` in the direction of `toward`,
+// along +x when the two coincide.
+export const extendTowards = (anchor: Point, toward: Point, length: number): Point => {
+  const distance = calculatePixelDistance(anchor, toward);
+  if (distance === 0) return { x: anchor.x + length, y: anchor.y };
+  return {
+    x: anchor.x + ((toward.x - anchor.x) / distance) * length,
+    y: anchor.y + ((toward.y - anchor.y) / distance) * length,
+  };
+};
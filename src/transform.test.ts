@@ -0,0 +1,94 @@
+import { applyAffine, fitAffineToImage, keepPlanGeometry, transformPlanGeometry } from './transform';
+import { PlanSnapshot } from './history';
+
+const stretch = { a: 2, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+test('images are shifted to start at the origin once mapped', () => {
+  const rotation = { a: 0, b: 1, c: -1, d: 0, e: 0, f: 0 };
+  const { map, dimensions } = fitAffineToImage(rotation, { width: 40, height: 30 });
+
+  expect(dimensions).toEqual({ width: 30, height: 40 });
+  expect(applyAffine(map, { x: 0, y: 30 })).toEqual({ x: 0, y: 0 });
+});
+
+test('every point of the plan is mapped and curved edges are kept under affine maps', () => {
+  const plan: PlanSnapshot = {
+    shapes: [
+      {
+        id: 's1',
+        points: [],
+        area: 0,
+        type: 'regular',
+        name: 'Lawn',
+        outline: {
+          kind: 'path',
+          vertices: [
+            { x: 0, y: 0 },
+            { x: 10, y: 0 },
+            { x: 10, y: 10 },
+          ],
+          controls: [{ x: 5, y: -5 }, null, null],
+        },
+      },
+    ],
+    ruler: { start: { x: 0, y: 0 }, end: { x: 10, y: 0 }, length: 5, unit: 'ft' },
+    scaleReferences: [{ id: 'r1', start: { x: 0, y: 0 }, end: { x: 0, y: 10 }, length: 5, unit: 'ft', verifyOnly: true }],
+    pixelRatio: 0.5,
+    heads: [{ id: 'h1', position: { x: 3, y: 4 }, type: 'spray', radius: 10, arc: 360, rotation: 0 }],
+    pipes: [{ id: 'p1', kind: 'lateral', material: 'poly', size: '1/2', points: [{ x: 1, y: 1 }] }],
+    valveZones: [],
+    measurements: [{ id: 'm1', label: '', points: [{ x: 1, y: 1 }, { x: 2, y: 2 }] }],
+    geoPoints: [{ id: 'g1', point: { x: 5, y: 1 }, lat: 45, lon: -122 }],
+  };
+  const mapped = transformPlanGeometry(plan, point => applyAffine(stretch, point), true);
+
+  expect(mapped.shapes[0].name).toBe('Lawn');
+  expect(mapped.shapes[0].outline).toMatchObject({ controls: [{ x: 10, y: -5 }, null, null] });
+  expect(mapped.ruler!.end).toEqual({ x: 20, y: 0 });
+  expect(mapped.scaleReferences[0].end).toEqual({ x: 0, y: 10 });
+  expect(mapped.heads[0].position).toEqual({ x: 6, y: 4 });
+  expect(mapped.pipes[0].points).toEqual([{ x: 2, y: 1 }]);
+  expect(mapped.measurements[0].points).toEqual([{ x: 2, y: 1 }, { x: 4, y: 2 }]);
+  expect(mapped.geoPoints[0]).toEqual({ id: 'g1', point: { x: 10, y: 1 }, lat: 45, lon: -122 });
+  expect(mapped.pixelRatio).toBe(0.5);
+
+  const projected = transformPlanGeometry(plan, point => applyAffine(stretch, point), false);
+  expect(projected.shapes[0].outline).toBeUndefined();
+});
+
+test('items with a rejected point are left out of the plan', () => {
+  const square = (x: number) => [
+    { x, y: 0 },
+    { x: x + 1, y: 0 },
+    { x: x + 1, y: 1 },
+  ];
+  const plan: PlanSnapshot = {
+    shapes: [
+      { id: 's1', points: square(0), area: 1, type: 'regular' },
+      { id: 's2', points: square(-5), area: 1, type: 'drip' },
+    ],
+    ruler: { start: { x: -1, y: 0 }, end: { x: 10, y: 0 }, length: 5, unit: 'ft' },
+    scaleReferences: [{ id: 'r1', start: { x: 0, y: 0 }, end: { x: 0, y: 10 }, length: 5, unit: 'ft', verifyOnly: true }],
+    pixelRatio: 0.5,
+    heads: [
+      { id: 'h1', position: { x: 3, y: 4 }, type: 'spray', radius: 10, arc: 360, rotation: 0 },
+      { id: 'h2', position: { x: -3, y: 4 }, type: 'spray', radius: 10, arc: 360, rotation: 0 },
+    ],
+    pipes: [{ id: 'p1', kind: 'lateral', material: 'poly', size: '1/2', points: [{ x: 1, y: 1 }, { x: -1, y: 1 }] }],
+    valveZones: [
+      { id: 'v1', name: 'Back', headIds: ['h1', 'h2'], shapeIds: ['s1', 's2'] },
+    ],
+    measurements: [{ id: 'm1', label: '', points: [{ x: 1, y: 1 }, { x: 2, y: 2 }] }],
+    geoPoints: [{ id: 'g1', point: { x: -5, y: 1 }, lat: 45, lon: -122 }],
+  };
+  const kept = keepPlanGeometry(plan, point => point.x >= 0);
+
+  expect(kept.shapes).toEqual([plan.shapes[0]]);
+  expect(kept.ruler).toBeNull();
+  expect(kept.scaleReferences).toEqual(plan.scaleReferences);
+  expect(kept.heads.map(head => head.id)).toEqual(['h1']);
+  expect(kept.pipes).toEqual([]);
+  expect(kept.valveZones[0]).toMatchObject({ headIds: ['h1'], shapeIds: ['s1'] });
+  expect(kept.measurements).toEqual(plan.measurements);
+  expect(kept.geoPoints).toEqual([]);
+});
@@ -0,0 +1,120 @@
+import { Point, Shape } from './types';
+import { PlanSnapshot } from './history';
+import { calculatePixelArea } from './geometry';
+import { createOutlineShape } from './curves';
+import { removeValveHeads, removeValveShapes } from './hydraulics';
+
+// Maps (x, y) to (a·x + c·y + e, b·x + d·y + f), in the order canvas
+// setTransform takes them.
+export interface AffineMap {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+export type PointMap = (point: Point) => Point;
+
+export const applyAffine = (map: AffineMap, point: Point): Point => ({
+  x: map.a * point.x + map.c * point.y + map.e,
+  y: map.b * point.x + map.d * point.y + map.f,
+});
+
+// Size of an image once mapped, and the map shifted so the image starts at
+// the origin.
+export const fitAffineToImage = (
+  map: AffineMap,
+  dimensions: { width: number; height: number }
+): { map: AffineMap; dimensions: { width: number; height: number } } => {
+  const corners = [
+    { x: 0, y: 0 },
+    { x: dimensions.width, y: 0 },
+    { x: dimensions.width, y: dimensions.height },
+    { x: 0, y: dimensions.height },
+  ].map(corner => applyAffine(map, corner));
+  const xs = corners.map(corner => corner.x);
+  const ys = corners.map(corner => corner.y);
+  return {
+    map: { ...map, e: map.e - Math.min(...xs), f: map.f - Math.min(...ys) },
+    dimensions: {
+      width: Math.round(Math.max(...xs) - Math.min(...xs)),
+      height: Math.round(Math.max(...ys) - Math.min(...ys)),
+    },
+  };
+};
+
+// Affine maps keep bezier edges bezier, so curved outlines survive them;
+// other maps leave a shape as the polygon of its flattened outline.
+export const transformShape = (shape: Shape, map: PointMap, isAffine: boolean): Shape => {
+  const { outline, ...rest } = shape;
+  if (outline?.kind === 'path' && isAffine) {
+    const controls = outline.controls.map(control => control && map(control));
+    return { ...rest, ...createOutlineShape({ kind: 'path', vertices: outline.vertices.map(map), controls }, shape.type) };
+  }
+  const points = shape.points.map(map);
+  return { ...rest, points, area: calculatePixelArea(points) };
+};
+
+// Moves every point of the plan into a new pixel space, e.g. after the image
+// under it has been straightened. The scale is left to the caller.
+export const transformPlanGeometry = (plan: PlanSnapshot, map: PointMap, isAffine: boolean): PlanSnapshot => ({
+  ...plan,
+  shapes: plan.shapes.map(shape => transformShape(shape, map, isAffine)),
+  ruler: plan.ruler && { ...plan.ruler, start: map(plan.ruler.start), end: map(plan.ruler.end) },
+  scaleReferences: plan.scaleReferences.map(reference => ({
+    ...reference,
+    start: map(reference.start),
+    end: map(reference.end),
+  })),
+  heads: plan.heads.map(head => ({ ...head, position: map(head.position) })),
+  pipes: plan.pipes.map(pipe => ({ ...pipe, points: pipe.points.map(map) })),
+  measurements: plan.measurements.map(measurement => ({ ...measurement, points: measurement.points.map(map) })),
+  geoPoints: plan.geoPoints.map(geoPoint => ({ ...geoPoint, point: map(geoPoint.point) })),
+});
+
+// The plan without the items that have a point `keep` rejects, such as
+// those beyond the horizon of a perspective correction. Valve zones let go
+// of the heads and shapes that are dropped.
+export const keepPlanGeometry = (plan: PlanSnapshot, keep: (point: Point) => boolean): PlanSnapshot => {
+  const keepAll = (points: Point[]) => points.every(keep);
+  const droppedHeadIds = plan.heads.filter(head => !keep(head.position)).map(head => head.id);
+  const droppedShapeIds = plan.shapes.filter(shape => !keepAll(shape.points)).map(shape => shape.id);
+  return {
+    ...plan,
+    shapes: plan.shapes.filter(shape => keepAll(shape.points)),
+    ruler: plan.ruler && keepAll([plan.ruler.start, plan.ruler.end]) ? plan.ruler : null,
+    scaleReferences: plan.scaleReferences.filter(reference => keepAll([reference.start, reference.end])),
+    heads: plan.heads.filter(head => keep(head.position)),
+    pipes: plan.pipes.filter(pipe => keepAll(pipe.points)),
+    valveZones: removeValveShapes(removeValveHeads(plan.valveZones, droppedHeadIds), droppedShapeIds),
+    measurements: plan.measurements.filter(measurement => keepAll(measurement.points)),
+    geoPoints: plan.geoPoints.filter(geoPoint => keep(geoPoint.point)),
+  };
+};
+
+// Redraws an image through an affine map onto a canvas of the given size.
+export const transformImage = (
+  source: string,
+  map: AffineMap,
+  dimensions: { width: number; height: number }
+): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = dimensions.width;
+      canvas.height = dimensions.height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not supported.'));
+        return;
+      }
+      ctx.setTransform(map.a, map.b, map.c, map.d, map.e, map.f);
+      ctx.drawImage(image, 0, 0);
+      resolve(canvas.toDataURL('image/jpeg', 0.92));
+    };
+    image.onerror = () => reject(new Error('The image could not be loaded.'));
+    image.src = source;
+  });
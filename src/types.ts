@@ -0,0 +1,213 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Exact outline of a zone drawn as an ellipse or with curved edges.
+export type ShapeOutline =
+  | { kind: 'ellipse'; center: Point; radiusX: number; radiusY: number }
+  | {
+      kind: 'path';
+      vertices: Point[];
+      // Quadratic bezier control point of the edge from each vertex to the
+      // next, or null where the edge is straight.
+      controls: (Point | null)[];
+    };
+
+export type PlantCategory = 'turf' | 'shrubs' | 'trees' | 'vegetables';
+
+export type SoilType = 'sand' | 'loam' | 'clay';
+
+export type SunExposure = 'full-sun' | 'partial-shade' | 'full-shade';
+
+export interface Shape {
+  id: string;
+  // For curved shapes, the outline flattened to within a fraction of a pixel;
+  // clipping, snapping and hit-testing all work on these points.
+  points: Point[];
+  // Exact area in square pixels.
+  area: number;
+  type: 'regular' | 'exclusion' | 'drip' | 'delete';
+  outline?: ShapeOutline;
+  name?: string;
+  plant?: PlantCategory;
+  soil?: SoilType;
+  sun?: SunExposure;
+  // Grade in percent.
+  slope?: number;
+}
+
+export type ShapeMode = 'polygon' | 'rectangle' | 'ellipse' | 'curve';
+
+export interface Ruler {
+  start: Point;
+  end: Point;
+  length: number;
+  unit: 'ft' | 'm';
+}
+
+// An extra measurement of known length used to fit the scale, or only to
+// check it.
+export interface ScaleReference extends Ruler {
+  id: string;
+  verifyOnly: boolean;
+}
+
+export interface Region {
+  // Outer boundary followed by any holes, each closed like shape points.
+  rings: Point[][];
+  // Exact area in square pixels.
+  area: number;
+  // Evenly spaced sample points inside the region, used to estimate head
+  // coverage and precipitation.
+  points: Point[];
+  // Distance in pixels between neighbouring sample points.
+  sampleSpacing: number;
+  type: 'regular' | 'exclusion' | 'drip';
+}
+
+export type HeadType = 'rotor' | 'spray' | 'strip';
+
+export interface SprinklerHead {
+  id: string;
+  position: Point;
+  type: HeadType;
+  // Throw radius in plan units; converted to pixels through pixelRatio.
+  radius: number;
+  // Sweep of the spray pattern in degrees, clockwise from `rotation`.
+  arc: number;
+  // Start angle in degrees, clockwise from the positive x axis.
+  rotation: number;
+  nozzleId?: string;
+  // Flow in GPM (LPM for metric plans); estimated from the pattern when unset.
+  flow?: number;
+}
+
+export interface Nozzle {
+  id: string;
+  name: string;
+  type: HeadType;
+  radius: { ft: number; m: number };
+  // Arcs the nozzle is available in, in degrees.
+  arcs: number[];
+}
+
+export interface ValveZone {
+  id: string;
+  name: string;
+  headIds: string[];
+  // Ids of the polygons the zone was seeded from; drip polygons contribute
+  // emitter flow.
+  shapeIds: string[];
+}
+
+export interface WaterSupply {
+  // PSI, or bar for metric plans.
+  staticPressure: number | null;
+  // GPM, or LPM for metric plans.
+  availableFlow: number | null;
+}
+
+export interface DripSettings {
+  // GPH, or LPH for metric plans.
+  emitterFlow: number;
+  // Grid spacing between emitters in plan units.
+  emitterSpacing: number;
+}
+
+export interface ScheduleSettings {
+  method: 'requirement' | 'et';
+  // Inches per week, or millimeters for metric plans.
+  weeklyRequirement: number;
+  weeklyEt: number;
+  plantFactors: { regular: number; drip: number };
+  // Soil intake in in/hr, or mm/hr for metric plans.
+  infiltrationRate: number;
+  // Days of the week to water on, 0 being Sunday.
+  days: number[];
+  // Controller start time as HH:MM.
+  startTime: string;
+  soakMinutes: number;
+}
+
+export type PipeKind = 'mainline' | 'lateral';
+
+export type PipeMaterial = 'pvc-40' | 'pvc-200' | 'poly';
+
+export interface Pipe {
+  id: string;
+  kind: PipeKind;
+  material: PipeMaterial;
+  // Nominal size in inches, e.g. '3/4'.
+  size: string;
+  points: Point[];
+}
+
+// A labeled distance along a line or path, kept on the plan for reference;
+// it never affects the scale.
+export interface Measurement {
+  id: string;
+  label: string;
+  points: Point[];
+}
+
+// A point on the image whose latitude and longitude are known; two or more
+// place the plan on a map.
+export interface GeoControlPoint {
+  id: string;
+  point: Point;
+  lat: number;
+  lon: number;
+}
+
+export type LayerId = 'zones' | 'exclusions' | 'pipes' | 'heads' | 'notes';
+
+// How one kind of plan content is shown, and whether clicks can reach it.
+export interface Layer {
+  id: LayerId;
+  visible: boolean;
+  locked: boolean;
+  // 0 to 1.
+  opacity: number;
+}
+
+export type DrawingTool =
+  | 'regular'
+  | 'exclusion'
+  | 'drip'
+  | 'ruler'
+  | 'rectify'
+  | 'measure'
+  | 'georeference'
+  | 'head'
+  | 'valve'
+  | 'pipe'
+  | 'select'
+  | 'pan'
+  | 'delete';
+
+// Everything that makes up a plan, as saved to and opened from a file.
+export interface PlanDocument {
+  version: number;
+  // Unit the plan's lengths and settings are kept in, fixed when the plan is
+  // created; rulers and references may be entered in either.
+  unit: Ruler['unit'];
+  // Background image as a data URL.
+  image: string | null;
+  dimensions: { width: number; height: number } | null;
+  shapes: Shape[];
+  ruler: Ruler | null;
+  scaleReferences: ScaleReference[];
+  pixelRatio: number | null;
+  heads: SprinklerHead[];
+  pipes: Pipe[];
+  valveZones: ValveZone[];
+  measurements: Measurement[];
+  geoPoints: GeoControlPoint[];
+  // Bottom to top.
+  layers: Layer[];
+  supply: WaterSupply;
+  drip: DripSettings;
+  unitPrices: Record<string, number>;
+  schedule: ScheduleSettings;
+}
@@ -0,0 +1,19 @@
+import { convertQuantity } from './units';
+
+test('quantities convert between imperial and metric plans', () => {
+  expect(convertQuantity(100, 'length', 'm', 'ft')).toBeCloseTo(328.084, 3);
+  expect(convertQuantity(100, 'area', 'ft', 'm')).toBeCloseTo(9.2903, 4);
+  expect(convertQuantity(10, 'flow', 'ft', 'm')).toBeCloseTo(37.8541, 4);
+  expect(convertQuantity(4, 'pressure', 'm', 'ft')).toBeCloseTo(58.0152, 4);
+  expect(convertQuantity(1.5, 'depth', 'ft', 'm')).toBeCloseTo(38.1, 6);
+});
+
+test('converting to the same unit leaves values alone', () => {
+  expect(convertQuantity(12.5, 'pressure', 'ft', 'ft')).toBe(12.5);
+});
+
+test('conversions round trip', () => {
+  (['length', 'area', 'flow', 'pressure', 'depth'] as const).forEach(quantity => {
+    expect(convertQuantity(convertQuantity(7, quantity, 'ft', 'm'), quantity, 'm', 'ft')).toBeCloseTo(7, 9);
+  });
+});
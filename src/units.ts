@@ -0,0 +1,41 @@
+import { Ruler } from './types';
+
+type Unit = Ruler['unit'];
+
+// How lengths, areas, flows and pressures are shown, whatever unit the plan
+// was calibrated in.
+export type UnitSystem = 'imperial' | 'metric';
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  imperial: 'Imperial (ft, GPM, PSI)',
+  metric: 'Metric (m, LPM, bar)',
+};
+
+// Plans keep their quantities in the family of the unit they were created
+// in: feet with GPM, PSI and inches, or meters with LPM, bar and millimeters.
+export const UNIT_SYSTEM_UNITS: Record<UnitSystem, Unit> = { imperial: 'ft', metric: 'm' };
+
+export const AREA_UNITS = { ft: 'ft²', m: 'm²' } as const;
+
+export const FEET_PER_METER = 3.28084;
+export const LPM_PER_GPM = 3.78541;
+export const PSI_PER_BAR = 14.5038;
+const MM_PER_INCH = 25.4;
+
+// Flow covers GPM/LPM and GPH/LPH alike, and depth covers inches/mm as well
+// as in/hr and mm/hr.
+export type Quantity = 'length' | 'area' | 'flow' | 'pressure' | 'depth';
+
+// Metric amount in one imperial amount of each quantity.
+const METRIC_PER_IMPERIAL: Record<Quantity, number> = {
+  length: 1 / FEET_PER_METER,
+  area: 1 / (FEET_PER_METER * FEET_PER_METER),
+  flow: LPM_PER_GPM,
+  pressure: 1 / PSI_PER_BAR,
+  depth: MM_PER_INCH,
+};
+
+export const convertQuantity = (value: number, quantity: Quantity, from: Unit, to: Unit): number => {
+  if (from === to) return value;
+  return from === 'ft' ? value * METRIC_PER_IMPERIAL[quantity] : value / METRIC_PER_IMPERIAL[quantity];
+};
@@ -0,0 +1,11 @@
+// Small helpers shared across the planner's modules.
+
+export const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+export const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+// The same direction as an angle in [0, 360).
+export const normalizeAngle = (degrees: number): number => ((degrees % 360) + 360) % 360;
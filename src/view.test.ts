@@ -0,0 +1,51 @@
+import { MAX_SCALE, centerOn, fitView, getVisibleRect, pinchView, toPlanPoint, toScreenPoint, zoomAt } from './view';
+
+test('screen and plan points round-trip through the view', () => {
+  const view = { scale: 2, x: 30, y: -10 };
+  const point = { x: 12, y: 7 };
+
+  expect(toScreenPoint(view, point)).toEqual({ x: 54, y: 4 });
+  expect(toPlanPoint(view, toScreenPoint(view, point))).toEqual(point);
+});
+
+test('zoom to fit centers the whole plan in the container', () => {
+  const view = fitView({ width: 400, height: 200 }, { width: 420, height: 420 });
+
+  expect(view.scale).toBe(1);
+  expect(view).toMatchObject({ x: 10, y: 110 });
+});
+
+test('zooming keeps the point under the cursor fixed', () => {
+  const view = { scale: 1, x: 0, y: 0 };
+  const cursor = { x: 100, y: 50 };
+  const zoomed = zoomAt(view, cursor, 4);
+
+  expect(zoomed.scale).toBe(4);
+  expect(toPlanPoint(zoomed, cursor)).toEqual(toPlanPoint(view, cursor));
+  expect(zoomAt(zoomed, cursor, 1000).scale).toBe(MAX_SCALE);
+});
+
+test('pinching zooms around the fingers and pans with them', () => {
+  const start = { scale: 1, x: 0, y: 0 };
+  const view = pinchView(
+    start,
+    [
+      { x: 0, y: 0 },
+      { x: 100, y: 0 },
+    ],
+    [
+      { x: 20, y: 10 },
+      { x: 220, y: 10 },
+    ]
+  );
+
+  expect(view.scale).toBe(2);
+  expect(toPlanPoint(view, { x: 120, y: 10 })).toEqual({ x: 50, y: 0 });
+});
+
+test('the visible rectangle and centering are expressed in plan pixels', () => {
+  const container = { width: 200, height: 100 };
+  const view = centerOn({ scale: 2, x: 0, y: 0 }, { x: 300, y: 300 }, container);
+
+  expect(getVisibleRect(view, container)).toEqual({ x: 250, y: 275, width: 100, height: 50 });
+});
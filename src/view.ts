@@ -0,0 +1,87 @@
+import { Point } from './types';
+
+// Maps plan (image pixel) coordinates onto the screen:
+// screen = plan * scale + (x, y).
+export interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export const MIN_SCALE = 0.02;
+export const MAX_SCALE = 20;
+
+// Empty space kept around the plan when zooming to fit, in screen pixels.
+const FIT_MARGIN = 10;
+
+const clampScale = (scale: number): number => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+export const toPlanPoint = (view: ViewTransform, screen: Point): Point => ({
+  x: (screen.x - view.x) / view.scale,
+  y: (screen.y - view.y) / view.scale,
+});
+
+export const toScreenPoint = (view: ViewTransform, point: Point): Point => ({
+  x: point.x * view.scale + view.x,
+  y: point.y * view.scale + view.y,
+});
+
+export const fitView = (plan: Size, container: Size): ViewTransform => {
+  if (plan.width <= 0 || plan.height <= 0 || container.width <= 0 || container.height <= 0) {
+    return { scale: 1, x: 0, y: 0 };
+  }
+
+  const scale = clampScale(
+    Math.min((container.width - FIT_MARGIN * 2) / plan.width, (container.height - FIT_MARGIN * 2) / plan.height)
+  );
+  return {
+    scale,
+    x: (container.width - plan.width * scale) / 2,
+    y: (container.height - plan.height * scale) / 2,
+  };
+};
+
+// Zooms by `factor` while keeping the plan point under `screen` in place.
+export const zoomAt = (view: ViewTransform, screen: Point, factor: number): ViewTransform => {
+  const scale = clampScale(view.scale * factor);
+  const anchor = toPlanPoint(view, screen);
+  return { scale, x: screen.x - anchor.x * scale, y: screen.y - anchor.y * scale };
+};
+
+export const panBy = (view: ViewTransform, dx: number, dy: number): ViewTransform => ({
+  ...view,
+  x: view.x + dx,
+  y: view.y + dy,
+});
+
+export const centerOn = (view: ViewTransform, point: Point, container: Size): ViewTransform => ({
+  ...view,
+  x: container.width / 2 - point.x * view.scale,
+  y: container.height / 2 - point.y * view.scale,
+});
+
+// Two-finger gesture: the plan point that started under the fingers'
+// midpoint follows the midpoint, and the zoom follows their spread.
+export const pinchView = (
+  start: ViewTransform,
+  startTouches: [Point, Point],
+  touches: [Point, Point]
+): ViewTransform => {
+  const midpoint = ([a, b]: [Point, Point]): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+  const spread = ([a, b]: [Point, Point]): number => Math.hypot(b.x - a.x, b.y - a.y);
+
+  const anchor = toPlanPoint(start, midpoint(startTouches));
+  const scale = clampScale(start.scale * (spread(startTouches) > 0 ? spread(touches) / spread(startTouches) : 1));
+  const current = midpoint(touches);
+  return { scale, x: current.x - anchor.x * scale, y: current.y - anchor.y * scale };
+};
+
+export const getVisibleRect = (view: ViewTransform, container: Size) => {
+  const topLeft = toPlanPoint(view, { x: 0, y: 0 });
+  return { ...topLeft, width: container.width / view.scale, height: container.height / view.scale };
+};
@@ -0,0 +1,41 @@
+import { describeZone, findZoneAt, getZoneName } from './zones';
+import { Shape } from './types';
+
+const square = (x: number, type: Shape['type'], details: Partial<Shape> = {}): Shape => ({
+  id: `${type} ${x}`,
+  points: [
+    { x, y: 0 },
+    { x: x + 10, y: 0 },
+    { x: x + 10, y: 10 },
+    { x, y: 10 },
+    { x, y: 0 },
+  ],
+  area: 100,
+  type,
+  ...details,
+});
+
+test('unnamed zones are numbered by type', () => {
+  const shapes = [square(0, 'regular'), square(20, 'drip'), square(40, 'regular', { name: 'Front Lawn' }), square(60, 'regular')];
+
+  expect(getZoneName(shapes, 0)).toBe('Regular Zone 1');
+  expect(getZoneName(shapes, 1)).toBe('Drip Zone 1');
+  expect(getZoneName(shapes, 2)).toBe('Front Lawn');
+  expect(getZoneName(shapes, 3)).toBe('Regular Zone 3');
+});
+
+test('zone descriptions list only the attributes that are set', () => {
+  expect(describeZone(square(0, 'regular', { plant: 'turf', sun: 'partial-shade', slope: 5 }))).toBe(
+    'Turf, Partial Shade, 5% slope'
+  );
+  expect(describeZone(square(0, 'regular', { slope: 0 }))).toBe('0% slope');
+  expect(describeZone(square(0, 'drip'))).toBe('');
+});
+
+test('the topmost zone under a point is found', () => {
+  const shapes = [square(0, 'regular'), square(5, 'drip')];
+
+  expect(findZoneAt(shapes, { x: 7, y: 5 })).toBe(1);
+  expect(findZoneAt(shapes, { x: 7, y: 5 }, 'regular')).toBe(0);
+  expect(findZoneAt(shapes, { x: 30, y: 5 })).toBe(-1);
+});
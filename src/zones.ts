@@ -0,0 +1,57 @@
+import { PlantCategory, Point, Shape, SoilType, SunExposure } from './types';
+import { isPointInShape } from './geometry';
+
+export const ZONE_TYPE_LABELS: Record<Shape['type'], string> = {
+  regular: 'Regular',
+  drip: 'Drip',
+  exclusion: 'Exclusion',
+  delete: 'Deleted',
+};
+
+export const PLANT_LABELS: Record<PlantCategory, string> = {
+  turf: 'Turf',
+  shrubs: 'Shrubs',
+  trees: 'Trees',
+  vegetables: 'Vegetable Beds',
+};
+
+export const SOIL_LABELS: Record<SoilType, string> = {
+  sand: 'Sandy Soil',
+  loam: 'Loam',
+  clay: 'Clay Soil',
+};
+
+export const SUN_LABELS: Record<SunExposure, string> = {
+  'full-sun': 'Full Sun',
+  'partial-shade': 'Partial Shade',
+  'full-shade': 'Full Shade',
+};
+
+// Zones without a name are numbered by type in the order they were drawn.
+export const getZoneName = (shapes: Shape[], index: number): string => {
+  const shape = shapes[index];
+  if (shape.name) return shape.name;
+
+  const number = shapes.slice(0, index + 1).filter(other => other.type === shape.type).length;
+  return `${ZONE_TYPE_LABELS[shape.type]} Zone ${number}`;
+};
+
+// The attributes set on a zone as one line, e.g. "Turf, Clay Soil, Full Sun, 5% slope".
+export const describeZone = (shape: Shape): string =>
+  [
+    shape.plant && PLANT_LABELS[shape.plant],
+    shape.soil && SOIL_LABELS[shape.soil],
+    shape.sun && SUN_LABELS[shape.sun],
+    shape.slope !== undefined && `${shape.slope}% slope`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+// Index of the topmost zone under a point, optionally of one type only, or -1.
+export const findZoneAt = (shapes: Shape[], point: Point, type?: Shape['type']): number => {
+  for (let index = shapes.length - 1; index >= 0; index--) {
+    const shape = shapes[index];
+    if ((type === undefined || shape.type === type) && isPointInShape(point, shape.points)) return index;
+  }
+  return -1;
+};